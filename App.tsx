@@ -1,9 +1,14 @@
 import { StatusBar } from "expo-status-bar";
 import { useEffect } from "react";
+import { AppState } from "react-native";
 
 import { AppNavigator } from "./src/app/AppNavigator";
+import { logger } from "./src/services/logger";
 import { useConnectionStore } from "./src/store/connectionStore";
 
+// Release builds keep debug traffic in the in-app buffer only.
+logger.setConsoleLevel(__DEV__ ? "debug" : "warn");
+
 export default function App() {
   const isHydrated = useConnectionStore((state) => state.isHydrated);
 
@@ -11,6 +16,28 @@ export default function App() {
     void useConnectionStore.getState().hydrate();
   }, []);
 
+  useEffect(() => {
+    if (!isHydrated) {
+      return;
+    }
+
+    // Probing is only useful while the app is on screen; in the background it
+    // would keep the radio awake for nothing.
+    const { startDiscovery, stopDiscovery } = useConnectionStore.getState();
+    startDiscovery();
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "active") {
+        startDiscovery();
+      } else if (nextState === "background") {
+        stopDiscovery();
+      }
+    });
+    return () => {
+      subscription.remove();
+      stopDiscovery();
+    };
+  }, [isHydrated]);
+
   if (!isHydrated) {
     return null;
   }
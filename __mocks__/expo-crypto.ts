@@ -0,0 +1,5 @@
+import { randomFillSync } from "crypto";
+
+/** Node stand-in for the native ExpoCrypto module, backed by Node's CSPRNG. */
+export const getRandomBytes = (byteCount: number): Uint8Array =>
+  randomFillSync(new Uint8Array(byteCount));
@@ -0,0 +1,8 @@
+/** Node stand-in for the native TCP module; tests script TLS through a fake `TlsConnector`. */
+const TcpSocket = {
+  connectTLS: () => {
+    throw new Error("react-native-tcp-socket is not available under Jest.");
+  },
+};
+
+export default TcpSocket;
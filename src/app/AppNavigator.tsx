@@ -1,27 +1,113 @@
-import { NavigationContainer } from "@react-navigation/native";
+import {
+  NavigationContainer,
+  getStateFromPath,
+  type LinkingOptions,
+} from "@react-navigation/native";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 
+import { ActionEditorScreen } from "../screens/ActionEditorScreen";
 import { ConnectScreen } from "../screens/ConnectScreen";
+import { ConnectionSettingsScreen } from "../screens/ConnectionSettingsScreen";
 import { ControllerScreen } from "../screens/ControllerScreen";
+import { DiagnosticsScreen } from "../screens/DiagnosticsScreen";
+import { HistoryScreen } from "../screens/HistoryScreen";
 import { PairScreen } from "../screens/PairScreen";
+import { ProfileEditorScreen } from "../screens/ProfileEditorScreen";
+import { ProfileImportScreen } from "../screens/ProfileImportScreen";
+import { TemplateVariablesScreen } from "../screens/TemplateVariablesScreen";
+import { TrackpadScreen } from "../screens/TrackpadScreen";
+import { PAIRING_LINK_PREFIX } from "../security/pairingManager";
 
 export type RootStackParamList = {
   Connect: undefined;
-  Pair: undefined;
+  Pair: { link?: string } | undefined;
   Controller: undefined;
+  ProfileEditor: undefined;
+  ActionEditor: { profileId: string; actionId?: string };
+  ProfileImport: undefined;
+  Trackpad: undefined;
+  History: undefined;
+  ConnectionSettings: undefined;
+  Diagnostics: undefined;
+  TemplateVariables: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+const URL_SCHEME = "tapvolt://";
+
+/**
+ * `tapvolt://pair?…` opens the Pair screen with the untouched link so it is
+ * validated by the same parser as scanned QR codes.
+ */
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [URL_SCHEME],
+  config: {
+    screens: {
+      Pair: "pair",
+    },
+  },
+  getStateFromPath: (path, options) => {
+    const link = `${URL_SCHEME}${path.replace(/^\/+/, "")}`;
+    if (link.toLowerCase().startsWith(PAIRING_LINK_PREFIX)) {
+      return {
+        routes: [{ name: "Connect" }, { name: "Pair", params: { link } }],
+      };
+    }
+
+    return getStateFromPath(path, options);
+  },
+};
+
 export const AppNavigator = () => {
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <Stack.Navigator
         initialRouteName="Connect"
       >
         <Stack.Screen name="Connect" component={ConnectScreen} />
         <Stack.Screen name="Pair" component={PairScreen} />
         <Stack.Screen name="Controller" component={ControllerScreen} />
+        <Stack.Screen
+          name="ProfileEditor"
+          component={ProfileEditorScreen}
+          options={{ title: "Profiles" }}
+        />
+        <Stack.Screen
+          name="ActionEditor"
+          component={ActionEditorScreen}
+          options={{ title: "Edit Action" }}
+        />
+        <Stack.Screen
+          name="ProfileImport"
+          component={ProfileImportScreen}
+          options={{ title: "Import Profile" }}
+        />
+        <Stack.Screen
+          name="Trackpad"
+          component={TrackpadScreen}
+          options={{ title: "Trackpad" }}
+        />
+        <Stack.Screen
+          name="History"
+          component={HistoryScreen}
+          options={{ title: "History" }}
+        />
+        <Stack.Screen
+          name="ConnectionSettings"
+          component={ConnectionSettingsScreen}
+          options={{ title: "Connection" }}
+        />
+        <Stack.Screen
+          name="Diagnostics"
+          component={DiagnosticsScreen}
+          options={{ title: "Diagnostics" }}
+        />
+        <Stack.Screen
+          name="TemplateVariables"
+          component={TemplateVariablesScreen}
+          options={{ title: "Variables" }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
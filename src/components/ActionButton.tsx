@@ -1,33 +1,128 @@
-import { Pressable, StyleSheet, Text } from "react-native";
+import { useEffect, useRef } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { LONG_PRESS_DELAY_MS, REPEAT_HOLD_DELAY_MS } from "../utils/actionGestures";
+
+export type ActionButtonProgress = "queued" | "pending" | "cancelling";
 
 type ActionButtonProps = {
   label: string;
   onPress: () => void;
+  /** Fires instead of `onPress` once the tile is held; ignored while repeating. */
+  onLongPress?: () => void;
+  /**
+   * Makes the tile fire `onPress` on touch-down and then `onRepeat` every
+   * `repeatIntervalMs` while held, after `REPEAT_HOLD_DELAY_MS`.
+   */
+  repeatIntervalMs?: number;
+  onRepeat?: () => void;
+  /** Small caption naming what holding the tile does, e.g. "HOLD: CUT". */
+  holdLabel?: string;
   disabled: boolean;
+  /** Shown while the tile's last tap is queued or running; enables the cancel strip. */
+  progress?: ActionButtonProgress;
+  onCancel?: () => void;
+  /** Desktop-reported macro progress, e.g. "STEP 2/5". */
+  stepLabel?: string;
 };
 
-export const ActionButton = ({ label, onPress, disabled }: ActionButtonProps) => {
+export const ActionButton = ({
+  label,
+  onPress,
+  onLongPress,
+  repeatIntervalMs,
+  onRepeat,
+  holdLabel,
+  disabled,
+  progress,
+  onCancel,
+  stepLabel,
+}: ActionButtonProps) => {
+  const canCancel = progress !== undefined && progress !== "cancelling" && onCancel;
+  const repeats = repeatIntervalMs !== undefined && onRepeat !== undefined;
+  const holdTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const repeatTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Read through a ref so a re-render mid-hold does not restart the timers.
+  const onRepeatRef = useRef(onRepeat);
+  onRepeatRef.current = onRepeat;
+
+  const stopRepeat = () => {
+    if (holdTimer.current) {
+      clearTimeout(holdTimer.current);
+      holdTimer.current = null;
+    }
+    if (repeatTimer.current) {
+      clearInterval(repeatTimer.current);
+      repeatTimer.current = null;
+    }
+  };
+
+  const startRepeat = () => {
+    stopRepeat();
+    onPress();
+    holdTimer.current = setTimeout(() => {
+      holdTimer.current = null;
+      repeatTimer.current = setInterval(() => onRepeatRef.current?.(), repeatIntervalMs);
+    }, REPEAT_HOLD_DELAY_MS);
+  };
+
+  useEffect(() => {
+    if (disabled) {
+      stopRepeat();
+    }
+  }, [disabled]);
+
+  useEffect(() => stopRepeat, []);
+
   return (
-    <Pressable
-      style={({ pressed }) => [
-        styles.button,
-        pressed && !disabled && styles.buttonPressed,
-        disabled && styles.disabled,
-      ]}
-      onPress={onPress}
-      disabled={disabled}
-      android_disableSound={false}
-    >
-      {({ pressed }) => (
-        <Text style={[styles.label, pressed && !disabled && styles.labelPressed]}>
-          {label.toUpperCase()}
-        </Text>
-      )}
-    </Pressable>
+    <View style={styles.container}>
+      <Pressable
+        style={({ pressed }) => [
+          styles.button,
+          pressed && !disabled && styles.buttonPressed,
+          disabled && styles.disabled,
+        ]}
+        onPress={repeats ? undefined : onPress}
+        onPressIn={repeats ? startRepeat : undefined}
+        onPressOut={repeats ? stopRepeat : undefined}
+        onLongPress={repeats ? undefined : onLongPress}
+        delayLongPress={LONG_PRESS_DELAY_MS}
+        disabled={disabled}
+        android_disableSound={false}
+      >
+        {({ pressed }) => (
+          <>
+            <Text style={[styles.label, pressed && !disabled && styles.labelPressed]}>
+              {label.toUpperCase()}
+            </Text>
+            {holdLabel ? (
+              <Text style={[styles.holdLabel, pressed && !disabled && styles.labelPressed]}>
+                {holdLabel}
+              </Text>
+            ) : null}
+          </>
+        )}
+      </Pressable>
+      {progress ? (
+        <Pressable
+          onPress={canCancel ? onCancel : undefined}
+          disabled={!canCancel}
+          style={styles.progressStrip}
+        >
+          {stepLabel ? <Text style={styles.progressText}>{stepLabel}</Text> : null}
+          <Text style={styles.progressText}>
+            {progress === "cancelling" ? "CANCELLING" : `${progress.toUpperCase()} · CANCEL`}
+          </Text>
+        </Pressable>
+      ) : null}
+    </View>
   );
 };
 
 const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
   button: {
     flex: 1,
     aspectRatio: 1,
@@ -52,7 +147,30 @@ const styles = StyleSheet.create({
     letterSpacing: 0.8,
     textAlign: "center",
   },
+  holdLabel: {
+    color: "#00FF88",
+    fontSize: 10,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+    marginTop: 4,
+    textAlign: "center",
+  },
   labelPressed: {
     color: "#111111",
   },
+  progressStrip: {
+    position: "absolute",
+    left: 3,
+    right: 3,
+    bottom: 3,
+    backgroundColor: "#00FF88",
+    paddingVertical: 4,
+    alignItems: "center",
+  },
+  progressText: {
+    color: "#111111",
+    fontSize: 10,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
 });
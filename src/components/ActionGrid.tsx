@@ -1,38 +1,89 @@
 import { FlatList, StyleSheet, View } from "react-native";
 
-import type { Step as Action } from "../types/protocol";
-import { ActionButton } from "./ActionButton";
+import type { ProfileAction } from "../config/profiles";
+import type { ActionProgress } from "../services/connectionManager";
+import type { ActionHistoryEntry } from "../types/history";
+import type { DesktopCapabilities } from "../types/protocol";
+import type { ActionGesture } from "../utils/actionGestures";
+import { checkStepsAgainstCapabilities } from "../utils/desktopCapabilities";
+import { ActionButton, type ActionButtonProgress } from "./ActionButton";
 
 type Props = {
-  actions: {
-    id: string;
-    label: string;
-    action: Action;
-  }[];
+  actions: ProfileAction[];
   isEnabled: boolean;
-  onActionPress: (action: Action) => void;
+  capabilities: DesktopCapabilities;
+  /** Queued or pending history entries keyed by profile action id. */
+  inFlightEntries: Record<string, ActionHistoryEntry>;
+  cancellingActionIds: string[];
+  actionProgress: Record<string, ActionProgress>;
+  onActionPress: (action: ProfileAction, gesture: ActionGesture) => void;
+  onCancelPress: (entryId: string) => void;
 };
 
-type ActionGridItem = Props["actions"][number];
+const toProgress = (
+  entry: ActionHistoryEntry | undefined,
+  cancellingActionIds: string[],
+): ActionButtonProgress | undefined => {
+  if (entry?.status !== "queued" && entry?.status !== "pending") {
+    return undefined;
+  }
 
-export const ActionGrid = ({ actions, isEnabled, onActionPress }: Props) => {
+  return cancellingActionIds.includes(entry.id) ? "cancelling" : entry.status;
+};
+
+const toHoldLabel = (action: ProfileAction): string | undefined => {
+  if (action.longPress) {
+    return `HOLD: ${action.longPress.label.toUpperCase()}`;
+  }
+  return action.repeat ? "HOLD: REPEAT" : undefined;
+};
+
+export const ActionGrid = ({
+  actions,
+  isEnabled,
+  capabilities,
+  inFlightEntries,
+  cancellingActionIds,
+  actionProgress,
+  onActionPress,
+  onCancelPress,
+}: Props) => {
   return (
-    <FlatList<ActionGridItem>
+    <FlatList<ProfileAction>
       data={actions}
       keyExtractor={(item) => item.id}
       numColumns={3}
       scrollEnabled={false}
       columnWrapperStyle={styles.row}
       contentContainerStyle={styles.content}
-      renderItem={({ item }) => (
-        <View style={styles.cell}>
-          <ActionButton
-            label={item.label}
-            disabled={!isEnabled}
-            onPress={() => onActionPress(item.action)}
-          />
-        </View>
-      )}
+      renderItem={({ item }) => {
+        const isSupported = checkStepsAgainstCapabilities(item.steps, capabilities) === null;
+        const inFlight = inFlightEntries[item.id];
+        const progress = inFlight ? actionProgress[inFlight.id] : undefined;
+        return (
+          <View style={styles.cell}>
+            <ActionButton
+              label={item.label}
+              disabled={!isEnabled || !isSupported}
+              onPress={() => onActionPress(item, "press")}
+              onLongPress={
+                item.longPress &&
+                checkStepsAgainstCapabilities(item.longPress.steps, capabilities) === null
+                  ? () => onActionPress(item, "longPress")
+                  : undefined
+              }
+              repeatIntervalMs={item.repeat?.intervalMs}
+              onRepeat={item.repeat ? () => onActionPress(item, "repeat") : undefined}
+              holdLabel={toHoldLabel(item)}
+              progress={toProgress(inFlight, cancellingActionIds)}
+              onCancel={inFlight ? () => onCancelPress(inFlight.id) : undefined}
+              stepLabel={
+                progress ? `STEP ${progress.stepIndex + 1}/${progress.totalSteps}` : undefined
+              }
+            />
+          </View>
+        );
+      }}
     />
   );
 };
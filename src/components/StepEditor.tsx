@@ -0,0 +1,262 @@
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+import type { StepType } from "../types/protocol";
+import type { StepDraft } from "../utils/stepDraft";
+import { MOUSE_BUTTONS, STEP_TYPES } from "../utils/validateStep";
+
+type StepEditorProps = {
+  index: number;
+  draft: StepDraft;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (draft: StepDraft) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+};
+
+const FIELD_PLACEHOLDERS: Record<StepType, string> = {
+  shortcut: "control+shift+p",
+  text: "Text to type",
+  delay: "Duration in ms",
+  key: "enter",
+  command: "npm run build",
+  mouseMove: "Pixels",
+  mouseClick: "",
+  scroll: "Lines",
+};
+
+const CLICK_COUNTS = [
+  { count: 1, label: "SINGLE" },
+  { count: 2, label: "DOUBLE" },
+] as const;
+
+export const StepEditor = ({
+  index,
+  draft,
+  isFirst,
+  isLast,
+  onChange,
+  onMove,
+  onRemove,
+}: StepEditorProps) => {
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={[styles.typeButton, isActive && styles.typeButtonActive]}
+    >
+      <Text style={[styles.typeText, isActive && styles.typeTextActive]}>{label}</Text>
+    </Pressable>
+  );
+
+  const renderField = () => {
+    switch (draft.type) {
+      case "shortcut":
+        return (
+          <TextInput
+            value={draft.keys}
+            onChangeText={(keys) => onChange({ ...draft, keys })}
+            placeholder={FIELD_PLACEHOLDERS.shortcut}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+          />
+        );
+      case "text":
+        return (
+          <TextInput
+            value={draft.value}
+            onChangeText={(value) => onChange({ ...draft, value })}
+            placeholder={FIELD_PLACEHOLDERS.text}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            style={[styles.input, styles.multilineInput]}
+          />
+        );
+      case "delay":
+        return (
+          <TextInput
+            value={draft.duration}
+            onChangeText={(duration) => onChange({ ...draft, duration })}
+            placeholder={FIELD_PLACEHOLDERS.delay}
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+        );
+      case "key":
+        return (
+          <TextInput
+            value={draft.key}
+            onChangeText={(key) => onChange({ ...draft, key })}
+            placeholder={FIELD_PLACEHOLDERS.key}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+          />
+        );
+      case "command":
+        return (
+          <TextInput
+            value={draft.command}
+            onChangeText={(command) => onChange({ ...draft, command })}
+            placeholder={FIELD_PLACEHOLDERS.command}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+          />
+        );
+      case "mouseMove":
+      case "scroll":
+        return (
+          <View style={styles.deltaRow}>
+            <TextInput
+              value={draft.dx}
+              onChangeText={(dx) => onChange({ ...draft, dx })}
+              placeholder={`DX (${FIELD_PLACEHOLDERS[draft.type]})`}
+              keyboardType="numbers-and-punctuation"
+              style={[styles.input, styles.deltaInput]}
+            />
+            <TextInput
+              value={draft.dy}
+              onChangeText={(dy) => onChange({ ...draft, dy })}
+              placeholder={`DY (${FIELD_PLACEHOLDERS[draft.type]})`}
+              keyboardType="numbers-and-punctuation"
+              style={[styles.input, styles.deltaInput]}
+            />
+          </View>
+        );
+      case "mouseClick":
+        return (
+          <View style={styles.typeRow}>
+            {MOUSE_BUTTONS.map((button) =>
+              renderChip(button.toUpperCase(), button === draft.button, () =>
+                onChange({ ...draft, button }),
+              ),
+            )}
+            {CLICK_COUNTS.map(({ count, label }) =>
+              renderChip(label, count === draft.clickCount, () =>
+                onChange({ ...draft, clickCount: count }),
+              ),
+            )}
+          </View>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>STEP {index + 1}</Text>
+        <View style={styles.controls}>
+          <Pressable
+            disabled={isFirst}
+            onPress={() => onMove(-1)}
+            style={[styles.control, isFirst && styles.disabled]}
+          >
+            <Text style={styles.controlText}>UP</Text>
+          </Pressable>
+          <Pressable
+            disabled={isLast}
+            onPress={() => onMove(1)}
+            style={[styles.control, isLast && styles.disabled]}
+          >
+            <Text style={styles.controlText}>DOWN</Text>
+          </Pressable>
+          <Pressable onPress={onRemove} style={styles.control}>
+            <Text style={styles.controlText}>REMOVE</Text>
+          </Pressable>
+        </View>
+      </View>
+      <View style={styles.typeRow}>
+        {STEP_TYPES.map((type) =>
+          renderChip(type.toUpperCase(), type === draft.type, () => onChange({ ...draft, type })),
+        )}
+      </View>
+      {renderField()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    padding: 10,
+    gap: 8,
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  title: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  controls: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  control: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  controlText: {
+    color: "#111111",
+    fontSize: 10,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  disabled: {
+    opacity: 0.35,
+  },
+  typeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  typeButton: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  typeButtonActive: {
+    backgroundColor: "#111111",
+  },
+  typeText: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  typeTextActive: {
+    color: "#00FF88",
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: "#111111",
+    backgroundColor: "#FFFFFF",
+  },
+  deltaRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  deltaInput: {
+    flex: 1,
+  },
+  multilineInput: {
+    minHeight: 72,
+    textAlignVertical: "top",
+  },
+});
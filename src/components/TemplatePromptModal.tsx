@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Modal, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+type TemplatePromptModalProps = {
+  /** Action being resolved; the modal is hidden while null. */
+  title: string | null;
+  labels: string[];
+  onSubmit: (answers: Record<string, string>) => void;
+  onCancel: () => void;
+};
+
+/** Asks for every `{{prompt:Label}}` of an action before it is sent. */
+export const TemplatePromptModal = ({
+  title,
+  labels,
+  onSubmit,
+  onCancel,
+}: TemplatePromptModalProps) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setAnswers({});
+  }, [title]);
+
+  return (
+    <Modal visible={title !== null} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{title?.toUpperCase()}</Text>
+          {labels.map((label, index) => (
+            <View key={label} style={styles.field}>
+              <Text style={styles.label}>{label.toUpperCase()}</Text>
+              <TextInput
+                value={answers[label] ?? ""}
+                onChangeText={(value) => setAnswers((current) => ({ ...current, [label]: value }))}
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus={index === 0}
+                style={styles.input}
+              />
+            </View>
+          ))}
+          <View style={styles.buttonRow}>
+            <Pressable onPress={onCancel} style={styles.secondaryButton}>
+              <Text style={styles.secondaryButtonText}>CANCEL</Text>
+            </Pressable>
+            <Pressable
+              onPress={() =>
+                onSubmit(Object.fromEntries(labels.map((label) => [label, answers[label] ?? ""])))
+              }
+              style={styles.primaryButton}
+            >
+              <Text style={styles.primaryButtonText}>SEND</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "center",
+    padding: 20,
+    backgroundColor: "rgba(17, 17, 17, 0.6)",
+  },
+  sheet: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#F2F2F2",
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    color: "#111111",
+    fontSize: 14,
+    fontWeight: "900",
+    letterSpacing: 1,
+  },
+  field: {
+    gap: 6,
+  },
+  label: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  input: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: "#111111",
+    backgroundColor: "#FFFFFF",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  primaryButton: {
+    flex: 1,
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+});
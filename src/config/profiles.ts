@@ -1,83 +1,129 @@
-import type { Step as Action } from "../types/protocol";
+import type { Step } from "../types/protocol";
+
+/** Press-and-hold resends the action every `intervalMs` until release. */
+export type ActionRepeat = {
+  intervalMs: number;
+};
+
+/** Sent instead of the action's own steps when the tile is long-pressed. */
+export type ActionLongPress = {
+  label: string;
+  steps: Step[];
+};
+
+export type ProfileAction = {
+  id: string;
+  label: string;
+  steps: Step[];
+  /** Lets an action with text or command steps wait in the offline queue. */
+  replayWhenOffline?: boolean;
+  /** Holding the tile either repeats it or sends `longPress`, never both. */
+  repeat?: ActionRepeat;
+  longPress?: ActionLongPress;
+};
 
 export type Profile = {
   id: string;
   name: string;
-  actions: {
-    id: string;
-    label: string;
-    action: Action;
-  }[];
+  actions: ProfileAction[];
 };
 
-export const PROFILES: Profile[] = [
+export const SEED_PROFILES: Profile[] = [
   {
     id: "coding",
     name: "Coding",
     actions: [
-      { id: "save", label: "Save", action: { type: "shortcut", keys: ["control", "s"] } },
-      { id: "copy", label: "Copy", action: { type: "shortcut", keys: ["control", "c"] } },
-      { id: "paste", label: "Paste", action: { type: "shortcut", keys: ["control", "v"] } },
-      { id: "build", label: "Build", action: { type: "text", value: "npm run build\n" } },
+      { id: "save", label: "Save", steps: [{ type: "shortcut", keys: ["control", "s"] }] },
+      { id: "copy", label: "Copy", steps: [{ type: "shortcut", keys: ["control", "c"] }] },
+      { id: "paste", label: "Paste", steps: [{ type: "shortcut", keys: ["control", "v"] }] },
+      {
+        id: "build",
+        label: "Build",
+        steps: [
+          { type: "shortcut", keys: ["control", "`"] },
+          { type: "delay", duration: 500 },
+          { type: "text", value: "npm run build" },
+          { type: "key", key: "enter" },
+        ],
+      },
       {
         id: "terminal",
         label: "Terminal",
-        action: { type: "shortcut", keys: ["control", "`"] },
+        steps: [{ type: "shortcut", keys: ["control", "`"] }],
       },
-      { id: "hello", label: "Hello", action: { type: "text", value: "Hello\n" } },
-      { id: "delay-1s", label: "Delay 1s", action: { type: "delay", duration: 1000 } },
+      { id: "hello", label: "Hello", steps: [{ type: "text", value: "Hello\n" }] },
+      { id: "delay-1s", label: "Delay 1s", steps: [{ type: "delay", duration: 1000 }] },
       {
         id: "email",
         label: "Email",
-        action: { type: "text", value: "nishant@example.com\n" },
+        steps: [{ type: "text", value: "nishant@example.com\n" }],
       },
-      { id: "lock", label: "Lock", action: { type: "shortcut", keys: ["meta", "l"] } },
+      { id: "lock", label: "Lock", steps: [{ type: "shortcut", keys: ["meta", "l"] }] },
     ],
   },
   {
     id: "writing",
     name: "Writing",
     actions: [
-      { id: "copy", label: "Copy", action: { type: "shortcut", keys: ["control", "c"] } },
-      { id: "paste", label: "Paste", action: { type: "shortcut", keys: ["control", "v"] } },
+      {
+        id: "copy",
+        label: "Copy",
+        steps: [{ type: "shortcut", keys: ["control", "c"] }],
+        longPress: { label: "Cut", steps: [{ type: "shortcut", keys: ["control", "x"] }] },
+      },
+      { id: "paste", label: "Paste", steps: [{ type: "shortcut", keys: ["control", "v"] }] },
       {
         id: "select-all",
         label: "Select All",
-        action: { type: "shortcut", keys: ["control", "a"] },
+        steps: [{ type: "shortcut", keys: ["control", "a"] }],
       },
-      { id: "bold", label: "Bold", action: { type: "shortcut", keys: ["control", "b"] } },
-      { id: "save", label: "Save", action: { type: "shortcut", keys: ["control", "s"] } },
-      { id: "hello", label: "Hello", action: { type: "text", value: "Hello\n" } },
+      { id: "bold", label: "Bold", steps: [{ type: "shortcut", keys: ["control", "b"] }] },
+      { id: "save", label: "Save", steps: [{ type: "shortcut", keys: ["control", "s"] }] },
+      { id: "hello", label: "Hello", steps: [{ type: "text", value: "Hello\n" }] },
       {
         id: "email",
         label: "Email",
-        action: { type: "text", value: "nishant@example.com\n" },
+        steps: [{ type: "text", value: "nishant@example.com\n" }],
       },
-      { id: "delay-1s", label: "Delay 1s", action: { type: "delay", duration: 1000 } },
-      { id: "lock", label: "Lock", action: { type: "shortcut", keys: ["meta", "l"] } },
+      {
+        id: "undo",
+        label: "Undo",
+        steps: [{ type: "shortcut", keys: ["control", "z"] }],
+        repeat: { intervalMs: 250 },
+      },
+      { id: "lock", label: "Lock", steps: [{ type: "shortcut", keys: ["meta", "l"] }] },
     ],
   },
   {
     id: "general",
     name: "General",
     actions: [
-      { id: "save", label: "Save", action: { type: "shortcut", keys: ["control", "s"] } },
-      { id: "copy", label: "Copy", action: { type: "shortcut", keys: ["control", "c"] } },
-      { id: "paste", label: "Paste", action: { type: "shortcut", keys: ["control", "v"] } },
-      { id: "lock", label: "Lock", action: { type: "shortcut", keys: ["meta", "l"] } },
-      { id: "hello", label: "Hello", action: { type: "text", value: "Hello\n" } },
-      { id: "delay-1s", label: "Delay 1s", action: { type: "delay", duration: 1000 } },
+      { id: "save", label: "Save", steps: [{ type: "shortcut", keys: ["control", "s"] }] },
+      { id: "copy", label: "Copy", steps: [{ type: "shortcut", keys: ["control", "c"] }] },
+      { id: "paste", label: "Paste", steps: [{ type: "shortcut", keys: ["control", "v"] }] },
+      { id: "lock", label: "Lock", steps: [{ type: "shortcut", keys: ["meta", "l"] }] },
+      { id: "hello", label: "Hello", steps: [{ type: "text", value: "Hello\n" }] },
+      { id: "delay-1s", label: "Delay 1s", steps: [{ type: "delay", duration: 1000 }] },
       {
         id: "email",
         label: "Email",
-        action: { type: "text", value: "nishant@example.com\n" },
+        steps: [{ type: "text", value: "nishant@example.com\n" }],
       },
       {
         id: "terminal",
         label: "Terminal",
-        action: { type: "shortcut", keys: ["control", "`"] },
+        steps: [{ type: "shortcut", keys: ["control", "`"] }],
+      },
+      {
+        id: "build",
+        label: "Build",
+        steps: [
+          { type: "shortcut", keys: ["control", "`"] },
+          { type: "delay", duration: 500 },
+          { type: "text", value: "npm run build" },
+          { type: "key", key: "enter" },
+        ],
       },
-      { id: "build", label: "Build", action: { type: "text", value: "npm run build\n" } },
     ],
   },
 ];
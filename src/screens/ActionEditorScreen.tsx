@@ -0,0 +1,438 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { StepEditor } from "../components/StepEditor";
+import type { ProfileAction } from "../config/profiles";
+import { useConnectionStore } from "../store/connectionStore";
+import type { Step } from "../types/protocol";
+import {
+  DEFAULT_REPEAT_INTERVAL_MS,
+  MAX_REPEAT_INTERVAL_MS,
+  MIN_REPEAT_INTERVAL_MS,
+} from "../utils/actionGestures";
+import { hasReplaySensitiveSteps } from "../utils/offlineQueue";
+import { collectPromptLabels, findTemplateIssue } from "../utils/stepTemplate";
+import {
+  createStepDraft,
+  draftToStep,
+  stepToDraft,
+  type StepDraft,
+} from "../utils/stepDraft";
+import {
+  MAX_ACTION_STEPS,
+  MAX_TEXT_STEP_LENGTH,
+  validateSteps,
+} from "../utils/validateStep";
+
+type Props = NativeStackScreenProps<RootStackParamList, "ActionEditor">;
+
+type HoldMode = "none" | "repeat" | "longPress";
+
+const HOLD_MODES: { mode: HoldMode; label: string }[] = [
+  { mode: "none", label: "NONE" },
+  { mode: "repeat", label: "REPEAT" },
+  { mode: "longPress", label: "LONG PRESS" },
+];
+
+const toHoldMode = (action: ProfileAction | undefined): HoldMode => {
+  if (action?.repeat) {
+    return "repeat";
+  }
+  return action?.longPress ? "longPress" : "none";
+};
+
+const moveItem = <T,>(items: T[], index: number, offset: -1 | 1): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(target, 0, item);
+  return next;
+};
+
+const validateDraft = (
+  label: string,
+  steps: unknown[],
+  variableNames: string[],
+): string | null => {
+  if (label.trim().length === 0) {
+    return "Label is required.";
+  }
+
+  if (steps.length > MAX_ACTION_STEPS) {
+    return `An action can have at most ${MAX_ACTION_STEPS} steps.`;
+  }
+
+  const stepsError = validateSteps(steps);
+  if (stepsError) {
+    return stepsError;
+  }
+
+  const tooLongIndex = (steps as Step[]).findIndex(
+    (step) => step.type === "text" && step.value.length > MAX_TEXT_STEP_LENGTH,
+  );
+  if (tooLongIndex >= 0) {
+    return `Step ${tooLongIndex} (text) exceeds ${MAX_TEXT_STEP_LENGTH} characters.`;
+  }
+
+  return findTemplateIssue(steps as Step[], variableNames);
+};
+
+const validateHold = (
+  mode: HoldMode,
+  steps: Step[],
+  repeatInterval: string,
+  longPressLabel: string,
+  longPressSteps: unknown[],
+  variableNames: string[],
+): string | null => {
+  if (mode === "repeat") {
+    const intervalMs = Number(repeatInterval);
+    if (
+      !Number.isInteger(intervalMs) ||
+      intervalMs < MIN_REPEAT_INTERVAL_MS ||
+      intervalMs > MAX_REPEAT_INTERVAL_MS
+    ) {
+      return `Repeat rate must be ${MIN_REPEAT_INTERVAL_MS}-${MAX_REPEAT_INTERVAL_MS} ms.`;
+    }
+    if (collectPromptLabels(steps).length > 0) {
+      return "Actions that ask for a {{prompt}} cannot repeat.";
+    }
+  }
+
+  if (mode === "longPress") {
+    const error = validateDraft(longPressLabel, longPressSteps, variableNames);
+    return error ? `Long press: ${error}` : null;
+  }
+
+  return null;
+};
+
+export const ActionEditorScreen = ({ navigation, route }: Props) => {
+  const { profileId, actionId } = route.params;
+  const profile = useConnectionStore((state) =>
+    state.profiles.find((item) => item.id === profileId),
+  );
+  const saveProfileAction = useConnectionStore((state) => state.saveProfileAction);
+  const deleteProfileAction = useConnectionStore((state) => state.deleteProfileAction);
+  const templateVariables = useConnectionStore((state) => state.templateVariables);
+  const existingAction = profile?.actions.find((item) => item.id === actionId);
+  const [label, setLabel] = useState(existingAction?.label ?? "");
+  const [drafts, setDrafts] = useState<StepDraft[]>(() =>
+    existingAction ? existingAction.steps.map(stepToDraft) : [createStepDraft()],
+  );
+  const [replayWhenOffline, setReplayWhenOffline] = useState(
+    existingAction?.replayWhenOffline ?? false,
+  );
+  const [holdMode, setHoldMode] = useState<HoldMode>(() => toHoldMode(existingAction));
+  const [repeatInterval, setRepeatInterval] = useState(
+    String(existingAction?.repeat?.intervalMs ?? DEFAULT_REPEAT_INTERVAL_MS),
+  );
+  const [longPressLabel, setLongPressLabel] = useState(existingAction?.longPress?.label ?? "");
+  const [longPressDrafts, setLongPressDrafts] = useState<StepDraft[]>(() =>
+    existingAction?.longPress
+      ? existingAction.longPress.steps.map(stepToDraft)
+      : [createStepDraft()],
+  );
+  const [error, setError] = useState<string | null>(null);
+  const sentDrafts = holdMode === "longPress" ? [...drafts, ...longPressDrafts] : drafts;
+  const needsReplayOptIn = hasReplaySensitiveSteps(sentDrafts.map(draftToStep) as Step[]);
+  const acceptsTemplates = sentDrafts.some(
+    (draft) => draft.type === "text" || draft.type === "command",
+  );
+
+  if (!profile) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.error}>PROFILE NOT FOUND</Text>
+      </View>
+    );
+  }
+
+  const updateDraft = (index: number, draft: StepDraft) => {
+    setDrafts((current) => current.map((item, itemIndex) => (itemIndex === index ? draft : item)));
+  };
+
+  const moveDraft = (index: number, offset: -1 | 1) => {
+    setDrafts((current) => moveItem(current, index, offset));
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts((current) => current.filter((_, itemIndex) => itemIndex !== index));
+  };
+
+  const updateLongPressDraft = (index: number, draft: StepDraft) => {
+    setLongPressDrafts((current) =>
+      current.map((item, itemIndex) => (itemIndex === index ? draft : item)),
+    );
+  };
+
+  const handleSave = () => {
+    const steps = drafts.map(draftToStep);
+    const longPressSteps = longPressDrafts.map(draftToStep);
+    const variableNames = Object.keys(templateVariables);
+    const validationError =
+      validateDraft(label, steps, variableNames) ??
+      validateHold(
+        holdMode,
+        steps as Step[],
+        repeatInterval,
+        longPressLabel,
+        longPressSteps,
+        variableNames,
+      );
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    saveProfileAction(profile.id, {
+      id: existingAction?.id,
+      label: label.trim(),
+      steps: steps as Step[],
+      ...(needsReplayOptIn && replayWhenOffline ? { replayWhenOffline: true } : {}),
+      ...(holdMode === "repeat" ? { repeat: { intervalMs: Number(repeatInterval) } } : {}),
+      ...(holdMode === "longPress"
+        ? { longPress: { label: longPressLabel.trim(), steps: longPressSteps as Step[] } }
+        : {}),
+    });
+    navigation.goBack();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.header}>{profile.name.toUpperCase()}</Text>
+      <Text style={styles.label}>LABEL</Text>
+      <TextInput
+        value={label}
+        onChangeText={setLabel}
+        placeholder="Button label"
+        style={styles.input}
+      />
+      <Text style={styles.label}>STEPS</Text>
+      {drafts.map((draft, index) => (
+        <StepEditor
+          key={index}
+          index={index}
+          draft={draft}
+          isFirst={index === 0}
+          isLast={index === drafts.length - 1}
+          onChange={(next) => updateDraft(index, next)}
+          onMove={(offset) => moveDraft(index, offset)}
+          onRemove={() => removeDraft(index)}
+        />
+      ))}
+      <Pressable
+        disabled={drafts.length >= MAX_ACTION_STEPS}
+        onPress={() => setDrafts((current) => [...current, createStepDraft()])}
+        style={[styles.secondaryButton, drafts.length >= MAX_ACTION_STEPS && styles.disabled]}
+      >
+        <Text style={styles.secondaryButtonText}>ADD STEP</Text>
+      </Pressable>
+      <Text style={styles.label}>HOLD</Text>
+      <View style={styles.modeRow}>
+        {HOLD_MODES.map(({ mode, label: modeLabel }) => (
+          <Pressable
+            key={mode}
+            onPress={() => setHoldMode(mode)}
+            style={[styles.modeButton, holdMode === mode && styles.toggleActive]}
+          >
+            <Text
+              style={[styles.secondaryButtonText, holdMode === mode && styles.toggleActiveText]}
+            >
+              {modeLabel}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {holdMode === "repeat" ? (
+        <>
+          <Text style={styles.label}>REPEAT EVERY (MS)</Text>
+          <TextInput
+            value={repeatInterval}
+            onChangeText={setRepeatInterval}
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+          <Text style={styles.hint}>
+            HOLDING SENDS THE STEPS AGAIN AT THIS RATE. A REPEAT IS SKIPPED WHILE THE LAST ONE IS
+            STILL RUNNING.
+          </Text>
+        </>
+      ) : null}
+      {holdMode === "longPress" ? (
+        <>
+          <Text style={styles.label}>LONG PRESS LABEL</Text>
+          <TextInput
+            value={longPressLabel}
+            onChangeText={setLongPressLabel}
+            placeholder="e.g. Cut"
+            style={styles.input}
+          />
+          <Text style={styles.label}>LONG PRESS STEPS</Text>
+          {longPressDrafts.map((draft, index) => (
+            <StepEditor
+              key={index}
+              index={index}
+              draft={draft}
+              isFirst={index === 0}
+              isLast={index === longPressDrafts.length - 1}
+              onChange={(next) => updateLongPressDraft(index, next)}
+              onMove={(offset) =>
+                setLongPressDrafts((current) => moveItem(current, index, offset))
+              }
+              onRemove={() =>
+                setLongPressDrafts((current) =>
+                  current.filter((_, itemIndex) => itemIndex !== index),
+                )
+              }
+            />
+          ))}
+          <Pressable
+            disabled={longPressDrafts.length >= MAX_ACTION_STEPS}
+            onPress={() => setLongPressDrafts((current) => [...current, createStepDraft()])}
+            style={[
+              styles.secondaryButton,
+              longPressDrafts.length >= MAX_ACTION_STEPS && styles.disabled,
+            ]}
+          >
+            <Text style={styles.secondaryButtonText}>ADD LONG PRESS STEP</Text>
+          </Pressable>
+        </>
+      ) : null}
+      {acceptsTemplates ? (
+        <Text style={styles.hint}>
+          Text and command steps accept {"{{clipboard}}"}, {"{{date:YYYY-MM-DD}}"},{" "}
+          {"{{prompt:Branch name}}"} and saved variables such as {"{{email}}"}. Command steps
+          cannot use {"{{clipboard}}"} or prompts, whose values would run as shell.
+        </Text>
+      ) : null}
+      {needsReplayOptIn ? (
+        <>
+          <Pressable
+            onPress={() => setReplayWhenOffline((current) => !current)}
+            style={[styles.secondaryButton, replayWhenOffline && styles.toggleActive]}
+          >
+            <Text
+              style={[styles.secondaryButtonText, replayWhenOffline && styles.toggleActiveText]}
+            >
+              QUEUE WHILE OFFLINE: {replayWhenOffline ? "ON" : "OFF"}
+            </Text>
+          </Pressable>
+          <Text style={styles.hint}>
+            TEXT AND COMMAND STEPS MAY RUN LATE IN WHATEVER WINDOW HAS FOCUS.
+          </Text>
+        </>
+      ) : null}
+      {error ? <Text style={styles.error}>{error.toUpperCase()}</Text> : null}
+      <Pressable onPress={handleSave} style={styles.primaryButton}>
+        <Text style={styles.primaryButtonText}>SAVE ACTION</Text>
+      </Pressable>
+      {existingAction ? (
+        <Pressable
+          onPress={() => {
+            deleteProfileAction(profile.id, existingAction.id);
+            navigation.goBack();
+          }}
+          style={styles.secondaryButton}
+        >
+          <Text style={styles.secondaryButtonText}>DELETE ACTION</Text>
+        </Pressable>
+      ) : null}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  header: {
+    color: "#111111",
+    fontSize: 20,
+    fontWeight: "800",
+    letterSpacing: 1.5,
+    textAlign: "center",
+  },
+  label: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  input: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: "#111111",
+    backgroundColor: "#FFFFFF",
+  },
+  primaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  secondaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  modeRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  modeButton: {
+    flex: 1,
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  toggleActive: {
+    backgroundColor: "#111111",
+  },
+  toggleActiveText: {
+    color: "#00FF88",
+  },
+  hint: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  error: {
+    color: "#b00020",
+    fontWeight: "800",
+    fontSize: 12,
+    letterSpacing: 0.5,
+    textAlign: "center",
+  },
+});
@@ -1,8 +1,9 @@
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import {
   ActivityIndicator,
   Button,
+  Pressable,
   StyleSheet,
   Text,
   TextInput,
@@ -21,10 +22,22 @@ export const ConnectScreen = ({ navigation }: Props) => {
   const isConnecting = useConnectionStore((state) => state.isConnecting);
   const connectionState = useConnectionStore((state) => state.connectionState);
   const reconnectAttempt = useConnectionStore((state) => state.reconnectAttempt);
+  const maxReconnectAttempts = useConnectionStore(
+    (state) => state.connectionPolicy.maxReconnectAttempts,
+  );
   const error = useConnectionStore((state) => state.error);
-  const trustedDevice = useConnectionStore((state) => state.trustedDevice);
+  const trustedDevices = useConnectionStore((state) => state.trustedDevices);
+  const desktopsSeenAt = useConnectionStore((state) => state.desktopsSeenAt);
+  const discoveryError = useConnectionStore((state) => state.discoveryError);
+  const selectedTrustedDeviceId = useConnectionStore((state) => state.selectedTrustedDeviceId);
+  const selectTrustedDevice = useConnectionStore((state) => state.selectTrustedDevice);
+  const renameTrustedDevice = useConnectionStore((state) => state.renameTrustedDevice);
+  const revokeTrustedDevice = useConnectionStore((state) => state.revokeTrustedDevice);
   const setIp = useConnectionStore((state) => state.setIp);
   const connect = useConnectionStore((state) => state.connect);
+  const selectedDevice =
+    trustedDevices.find((device) => device.id === selectedTrustedDeviceId) ?? null;
+  const [deviceName, setDeviceName] = useState(selectedDevice?.name ?? "");
 
   useEffect(() => {
     if (isConnected) {
@@ -32,10 +45,73 @@ export const ConnectScreen = ({ navigation }: Props) => {
     }
   }, [isConnected, navigation]);
 
+  useEffect(() => {
+    setDeviceName(selectedDevice?.name ?? "");
+  }, [selectedDevice?.id, selectedDevice?.name]);
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Secure Pairing</Text>
       <Button title="Pair with QR" onPress={() => navigation.navigate("Pair")} />
+      <Button
+        title="Connection Settings"
+        onPress={() => navigation.navigate("ConnectionSettings")}
+      />
+      <Button title="Diagnostics" onPress={() => navigation.navigate("Diagnostics")} />
+      {trustedDevices.length > 0 ? (
+        <View style={styles.deviceList}>
+          {trustedDevices.map((device) => {
+            const isSelected = device.id === selectedTrustedDeviceId;
+            return (
+              <Pressable
+                key={device.id}
+                onPress={() => selectTrustedDevice(device.id)}
+                disabled={isConnecting}
+                style={[styles.deviceRow, isSelected && styles.deviceRowSelected]}
+              >
+                <Text style={styles.deviceName}>{device.name}</Text>
+                <Text style={styles.deviceMeta}>{device.serverUrl}</Text>
+                {device.certFingerprint ? (
+                  <Text style={styles.deviceMeta}>
+                    TLS pinned: {device.certFingerprint.slice(0, 16).toUpperCase()}
+                  </Text>
+                ) : null}
+                <Text style={styles.deviceMeta}>
+                  {device.lastConnectedAt
+                    ? `Last connected: ${new Date(device.lastConnectedAt).toLocaleString()}`
+                    : `Paired: ${new Date(device.pairedAt).toLocaleString()}`}
+                </Text>
+                {desktopsSeenAt[device.id] ? (
+                  <Text style={styles.deviceMeta}>
+                    Seen on network: {new Date(desktopsSeenAt[device.id]).toLocaleTimeString()}
+                  </Text>
+                ) : null}
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+      {selectedDevice ? (
+        <View style={styles.inlineRow}>
+          <TextInput
+            value={deviceName}
+            onChangeText={setDeviceName}
+            placeholder="Desktop name"
+            style={[styles.input, styles.inlineInput]}
+          />
+          <Button
+            title="Rename"
+            onPress={() => renameTrustedDevice(selectedDevice.id, deviceName)}
+            disabled={deviceName.trim().length === 0 || deviceName.trim() === selectedDevice.name}
+          />
+          <Button
+            title="Revoke"
+            color="#b00020"
+            onPress={() => revokeTrustedDevice(selectedDevice.id)}
+            disabled={isConnecting}
+          />
+        </View>
+      ) : null}
       <TextInput
         value={ipAddress}
         onChangeText={setIp}
@@ -46,21 +122,20 @@ export const ConnectScreen = ({ navigation }: Props) => {
         style={styles.input}
       />
       <Button
-        title={trustedDevice ? "Reconnect Trusted Device" : "Connect Trusted Device"}
+        title={selectedDevice ? `Connect to ${selectedDevice.name}` : "Connect Trusted Device"}
         onPress={connect}
         disabled={isConnecting}
       />
       {isConnecting ? <ActivityIndicator size="small" color="#111827" /> : null}
       <Text>State: {connectionState}</Text>
-      {trustedDevice ? (
-        <Text>Trusted device paired: {new Date(trustedDevice.pairedAt).toLocaleString()}</Text>
-      ) : (
+      {trustedDevices.length === 0 ? (
         <Text>No trusted device found. Scan desktop QR first.</Text>
-      )}
+      ) : null}
       {connectionState === ConnectionState.RECONNECTING ? (
-        <Text>Reconnect attempt: {reconnectAttempt}/10</Text>
+        <Text>Reconnect attempt: {reconnectAttempt}/{maxReconnectAttempts}</Text>
       ) : null}
       {error ? <Text style={styles.error}>{error.message}</Text> : null}
+      {discoveryError ? <Text style={styles.deviceMeta}>{discoveryError}</Text> : null}
     </View>
   );
 };
@@ -76,6 +151,38 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: "600",
   },
+  deviceList: {
+    gap: 8,
+  },
+  deviceRow: {
+    borderWidth: 1,
+    borderColor: "#b0b0b0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 2,
+  },
+  deviceRowSelected: {
+    borderColor: "#111827",
+    borderWidth: 2,
+    backgroundColor: "#eef2ff",
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  deviceMeta: {
+    color: "#4b5563",
+    fontSize: 12,
+  },
+  inlineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  inlineInput: {
+    flex: 1,
+  },
   input: {
     borderWidth: 1,
     borderColor: "#b0b0b0",
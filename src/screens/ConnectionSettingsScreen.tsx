@@ -0,0 +1,206 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { useConnectionStore } from "../store/connectionStore";
+import type { ConnectionPolicyTimings } from "../types/connectionPolicy";
+import {
+  CONNECTION_POLICY_LIMITS,
+  CONNECTION_POLICY_PRESETS,
+} from "../utils/connectionPolicy";
+
+type Props = NativeStackScreenProps<RootStackParamList, "ConnectionSettings">;
+
+type PolicyDraft = Record<keyof ConnectionPolicyTimings, string>;
+
+/** Durations are edited in seconds; the policy stores milliseconds. */
+const FIELDS: { key: keyof ConnectionPolicyTimings; label: string; unitMs: number }[] = [
+  { key: "maxReconnectAttempts", label: "RECONNECT ATTEMPTS", unitMs: 1 },
+  { key: "maxReconnectDelayMs", label: "MAX RECONNECT DELAY (S)", unitMs: 1_000 },
+  { key: "heartbeatTimeoutMs", label: "HEARTBEAT TIMEOUT (S)", unitMs: 1_000 },
+  { key: "actionTimeoutMs", label: "ACTION TIMEOUT (S)", unitMs: 1_000 },
+];
+
+const toDraft = (timings: ConnectionPolicyTimings): PolicyDraft => {
+  const draft = {} as PolicyDraft;
+  for (const { key, unitMs } of FIELDS) {
+    draft[key] = String(timings[key] / unitMs);
+  }
+  return draft;
+};
+
+const parseDraft = (draft: PolicyDraft): ConnectionPolicyTimings | string => {
+  const policy = {} as ConnectionPolicyTimings;
+  for (const { key, label, unitMs } of FIELDS) {
+    const value = Math.round(Number(draft[key].trim()) * unitMs);
+    const limit = CONNECTION_POLICY_LIMITS[key];
+    if (draft[key].trim().length === 0 || !Number.isFinite(value)) {
+      return `${label} must be a number.`;
+    }
+    if (value < limit.min || value > limit.max) {
+      return `${label} must be between ${limit.min / unitMs} and ${limit.max / unitMs}.`;
+    }
+    policy[key] = value;
+  }
+  return policy;
+};
+
+export const ConnectionSettingsScreen = ({ navigation }: Props) => {
+  const connectionPolicy = useConnectionStore((state) => state.connectionPolicy);
+  const setConnectionPolicy = useConnectionStore((state) => state.setConnectionPolicy);
+  const [draft, setDraft] = useState<PolicyDraft>(() => toDraft(connectionPolicy));
+  const [requireTlsForPinned, setRequireTlsForPinned] = useState(
+    connectionPolicy.requireTlsForPinned,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const parsed = parseDraft(draft);
+    if (typeof parsed === "string") {
+      setError(parsed);
+      return;
+    }
+
+    if (!setConnectionPolicy({ ...parsed, requireTlsForPinned })) {
+      setError("Connection policy is out of range.");
+      return;
+    }
+    navigation.goBack();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.label}>PRESETS</Text>
+      <View style={styles.presetRow}>
+        {CONNECTION_POLICY_PRESETS.map(({ label, timings }) => (
+          <Pressable
+            key={label}
+            onPress={() => {
+              setDraft(toDraft(timings));
+              setError(null);
+            }}
+            style={styles.preset}
+          >
+            <Text style={styles.presetText}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      {FIELDS.map(({ key, label }) => (
+        <View key={key} style={styles.field}>
+          <Text style={styles.label}>{label}</Text>
+          <TextInput
+            value={draft[key]}
+            onChangeText={(value) => setDraft((current) => ({ ...current, [key]: value }))}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        </View>
+      ))}
+      <Text style={styles.hint}>
+        RECONNECT DELAYS DOUBLE FROM 1 S UP TO THE MAX, WITH ±25% JITTER. ACTION PROGRESS
+        RESTARTS THE ACTION TIMEOUT.
+      </Text>
+      <Pressable
+        onPress={() => setRequireTlsForPinned((current) => !current)}
+        style={[styles.toggle, requireTlsForPinned && styles.toggleActive]}
+      >
+        <Text style={[styles.presetText, requireTlsForPinned && styles.toggleTextActive]}>
+          REQUIRE TLS FOR PINNED DESKTOPS: {requireTlsForPinned ? "ON" : "OFF"}
+        </Text>
+      </Pressable>
+      <Text style={styles.hint}>
+        DESKTOPS PAIRED WITH A CERTIFICATE PIN ARE NEVER CONTACTED OVER PLAIN WS:// WHILE THIS
+        IS ON.
+      </Text>
+      {error ? <Text style={styles.error}>{error.toUpperCase()}</Text> : null}
+      <Pressable onPress={handleSave} style={styles.primaryButton}>
+        <Text style={styles.primaryButtonText}>SAVE POLICY</Text>
+      </Pressable>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  field: {
+    gap: 6,
+  },
+  label: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  presetRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  preset: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  presetText: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  toggle: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  toggleActive: {
+    backgroundColor: "#111111",
+  },
+  toggleTextActive: {
+    color: "#00FF88",
+  },
+  input: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: "#111111",
+    backgroundColor: "#FFFFFF",
+  },
+  hint: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  primaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  error: {
+    color: "#b00020",
+    fontWeight: "800",
+    fontSize: 12,
+    letterSpacing: 0.5,
+    textAlign: "center",
+  },
+});
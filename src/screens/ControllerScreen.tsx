@@ -1,5 +1,5 @@
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Animated,
@@ -13,9 +13,15 @@ import {
 
 import type { RootStackParamList } from "../app/AppNavigator";
 import { ActionGrid } from "../components/ActionGrid";
-import { PROFILES } from "../config/profiles";
+import { TemplatePromptModal } from "../components/TemplatePromptModal";
+import type { ProfileAction } from "../config/profiles";
 import { ConnectionState } from "../services/connectionManager";
 import { useConnectionStore } from "../store/connectionStore";
+import { resolveGestureAction } from "../utils/actionGestures";
+import { getInFlightEntriesByAction } from "../utils/actionHistory";
+import { formatLinkQuality, isTimingSensitive } from "../utils/linkQuality";
+import { countQueuedHistory } from "../utils/offlineQueue";
+import { collectPromptLabels } from "../utils/stepTemplate";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Controller">;
 
@@ -24,24 +30,58 @@ export const ControllerScreen = ({ navigation }: Props) => {
   const isConnecting = useConnectionStore((state) => state.isConnecting);
   const connectionState = useConnectionStore((state) => state.connectionState);
   const reconnectAttempt = useConnectionStore((state) => state.reconnectAttempt);
+  const maxReconnectAttempts = useConnectionStore(
+    (state) => state.connectionPolicy.maxReconnectAttempts,
+  );
   const isAuthenticated = useConnectionStore((state) => state.isAuthenticated);
   const lastResult = useConnectionStore((state) => state.lastResult);
   const lastHeartbeat = useConnectionStore((state) => state.lastHeartbeat);
+  const linkQuality = useConnectionStore((state) => state.linkQuality);
+  const profiles = useConnectionStore((state) => state.profiles);
   const activeProfileId = useConnectionStore((state) => state.activeProfileId);
   const setActiveProfile = useConnectionStore((state) => state.setActiveProfile);
   const getActiveProfile = useConnectionStore((state) => state.getActiveProfile);
   const error = useConnectionStore((state) => state.error);
   const warning = useConnectionStore((state) => state.warning);
-  const clearTrustedPairing = useConnectionStore((state) => state.clearTrustedPairing);
-  const sendAction = useConnectionStore((state) => state.sendAction);
+  const desktopCapabilities = useConnectionStore((state) => state.desktopCapabilities);
+  const selectedTrustedDeviceId = useConnectionStore(
+    (state) => state.selectedTrustedDeviceId,
+  );
+  const revokeTrustedDevice = useConnectionStore((state) => state.revokeTrustedDevice);
+  const sendTemplatedAction = useConnectionStore((state) => state.sendTemplatedAction);
+  const sendRepeatAction = useConnectionStore((state) => state.sendRepeatAction);
+  const offlineQueueEnabled = useConnectionStore((state) => state.offlineQueueEnabled);
+  const setOfflineQueueEnabled = useConnectionStore((state) => state.setOfflineQueueEnabled);
+  const actionHistory = useConnectionStore((state) => state.actionHistory);
+  const cancellingActionIds = useConnectionStore((state) => state.cancellingActionIds);
+  const cancelAction = useConnectionStore((state) => state.cancelAction);
+  const actionProgress = useConnectionStore((state) => state.actionProgress);
+  const queuedCount = countQueuedHistory(actionHistory);
   const disconnect = useConnectionStore((state) => state.disconnect);
   const activeProfile = getActiveProfile();
+  const inFlightEntries = getInFlightEntriesByAction(actionHistory, activeProfile.id);
   const pulseAnim = useRef(new Animated.Value(1)).current;
+  // A timing-sensitive tile tapped on a poor link waits for a second tap.
+  const [armedActionId, setArmedActionId] = useState<string | null>(null);
+  // Tile waiting on the answers to its {{prompt:…}} placeholders.
+  const [promptAction, setPromptAction] = useState<ProfileAction | null>(null);
+  const isLinkPoor = linkQuality.grade === "poor";
+  const armedAction = isLinkPoor
+    ? activeProfile.actions.find((action) => action.id === armedActionId)
+    : undefined;
   const isReconnectInProgress =
     isConnecting || connectionState === ConnectionState.RECONNECTING;
-  const isGridEnabled = isAuthenticated && !isConnecting;
+  const isGridEnabled =
+    (isAuthenticated && !isConnecting) ||
+    (offlineQueueEnabled && connectionState === ConnectionState.RECONNECTING);
+  const isTrackpadSupported = desktopCapabilities.stepTypes.includes("mouseMove");
   const visibleError = isReconnectInProgress ? null : error;
 
+  useEffect(() => {
+    setArmedActionId(null);
+    setPromptAction(null);
+  }, [activeProfileId]);
+
   useEffect(() => {
     if (connectionState === ConnectionState.DISCONNECTED) {
       navigation.replace("Connect");
@@ -78,6 +118,17 @@ export const ControllerScreen = ({ navigation }: Props) => {
     navigation.replace("Connect");
   };
 
+  const toSource = (action: ProfileAction) => ({
+    profileId: activeProfile.id,
+    profileName: activeProfile.name,
+    actionId: action.id,
+    label: action.label,
+  });
+
+  const sendProfileAction = (action: ProfileAction, prompts: Record<string, string>) => {
+    void sendTemplatedAction(action.steps, toSource(action), prompts);
+  };
+
   return (
     <View style={styles.container}>
       <ScrollView
@@ -94,7 +145,7 @@ export const ControllerScreen = ({ navigation }: Props) => {
 
           <Text style={styles.sectionHeader}>PROFILES</Text>
           <View style={styles.profileRow}>
-            {PROFILES.map((profile) => {
+            {profiles.map((profile) => {
               const isActive = profile.id === activeProfileId;
               return (
                 <Pressable
@@ -114,6 +165,54 @@ export const ControllerScreen = ({ navigation }: Props) => {
               );
             })}
           </View>
+          <Pressable
+            onPress={() => navigation.navigate("ProfileEditor")}
+            style={({ pressed }) => [
+              styles.actionButton,
+              pressed && styles.actionButtonPressed,
+            ]}
+          >
+            <Text style={styles.actionButtonText}>EDIT PROFILES</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => navigation.navigate("Trackpad")}
+            disabled={!isGridEnabled || !isTrackpadSupported}
+            style={({ pressed }) => [
+              styles.actionButton,
+              pressed && styles.actionButtonPressed,
+            ]}
+          >
+            <Text style={styles.actionButtonText}>TRACKPAD</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => navigation.navigate("History")}
+            style={({ pressed }) => [
+              styles.actionButton,
+              pressed && styles.actionButtonPressed,
+            ]}
+          >
+            <Text style={styles.actionButtonText}>HISTORY</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => navigation.navigate("Diagnostics")}
+            style={({ pressed }) => [
+              styles.actionButton,
+              pressed && styles.actionButtonPressed,
+            ]}
+          >
+            <Text style={styles.actionButtonText}>DIAGNOSTICS</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => setOfflineQueueEnabled(!offlineQueueEnabled)}
+            style={({ pressed }) => [
+              styles.actionButton,
+              pressed && styles.actionButtonPressed,
+            ]}
+          >
+            <Text style={styles.actionButtonText}>
+              OFFLINE QUEUE: {offlineQueueEnabled ? "ON" : "OFF"}
+            </Text>
+          </Pressable>
 
           {!isAuthenticated ? (
             <Text style={styles.authPrompt}>PAIRING REQUIRED</Text>
@@ -131,7 +230,9 @@ export const ControllerScreen = ({ navigation }: Props) => {
             </Pressable>
             <Pressable
               onPress={() => {
-                void clearTrustedPairing();
+                if (selectedTrustedDeviceId) {
+                  revokeTrustedDevice(selectedTrustedDeviceId);
+                }
                 navigation.replace("Pair");
               }}
               style={({ pressed }) => [
@@ -143,12 +244,46 @@ export const ControllerScreen = ({ navigation }: Props) => {
             </Pressable>
           </View>
           {warning ? <Text style={styles.warningBanner}>{warning}</Text> : null}
+          {armedAction ? (
+            <Text style={styles.warningBanner}>
+              {`LINK IS POOR (${formatLinkQuality(linkQuality)}). `}
+              {`${armedAction.label.toUpperCase()} IS TIMING-SENSITIVE. TAP AGAIN TO SEND.`}
+            </Text>
+          ) : isLinkPoor ? (
+            <Text style={styles.warningBanner}>
+              LINK IS POOR. TIMING-SENSITIVE ACTIONS NEED A SECOND TAP.
+            </Text>
+          ) : null}
 
           <Text style={styles.bottomSectionHeader}>ACTIONS</Text>
           <ActionGrid
             isEnabled={isGridEnabled}
+            capabilities={desktopCapabilities}
             actions={activeProfile.actions}
-            onActionPress={sendAction}
+            inFlightEntries={inFlightEntries}
+            cancellingActionIds={cancellingActionIds}
+            actionProgress={actionProgress}
+            onActionPress={(tile, gesture) => {
+              if (gesture === "repeat") {
+                // The touch-down press already went through arming; repeats only follow it.
+                if (!isLinkPoor || !isTimingSensitive(tile.steps)) {
+                  void sendRepeatAction(tile.steps, toSource(tile));
+                }
+                return;
+              }
+              const action = resolveGestureAction(tile, gesture);
+              if (isLinkPoor && isTimingSensitive(action.steps) && armedAction?.id !== action.id) {
+                setArmedActionId(action.id);
+                return;
+              }
+              setArmedActionId(null);
+              if (collectPromptLabels(action.steps).length > 0) {
+                setPromptAction(action);
+                return;
+              }
+              sendProfileAction(action, {});
+            }}
+            onCancelPress={cancelAction}
           />
 
           {lastResult ? (
@@ -194,7 +329,13 @@ export const ControllerScreen = ({ navigation }: Props) => {
             {connectionState === ConnectionState.RECONNECTING ? (
               <View style={styles.statusRow}>
                 <Text style={styles.statusLabel}>RECONNECTING</Text>
-                <Text style={styles.statusValue}>{reconnectAttempt}/10</Text>
+                <Text style={styles.statusValue}>{reconnectAttempt}/{maxReconnectAttempts}</Text>
+              </View>
+            ) : null}
+            {queuedCount > 0 ? (
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>QUEUED</Text>
+                <Text style={styles.statusValue}>{queuedCount}</Text>
               </View>
             ) : null}
             <View style={styles.statusRow}>
@@ -207,6 +348,26 @@ export const ControllerScreen = ({ navigation }: Props) => {
                 {lastHeartbeat ? new Date(lastHeartbeat).toLocaleTimeString() : "N/A"}
               </Text>
             </View>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>LINK</Text>
+              <Text
+                style={[
+                  styles.qualityBadge,
+                  linkQuality.grade === "fair" && styles.qualityFair,
+                  linkQuality.grade === "poor" && styles.qualityPoor,
+                ]}
+              >
+                {isAuthenticated && desktopCapabilities.latencyProbe
+                  ? formatLinkQuality(linkQuality)
+                  : "N/A"}
+              </Text>
+            </View>
+            {linkQuality.jitterMs !== null ? (
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>JITTER</Text>
+                <Text style={styles.statusValue}>{linkQuality.jitterMs} MS</Text>
+              </View>
+            ) : null}
           </View>
           {isConnecting ? (
             <View style={styles.connectingRow}>
@@ -216,6 +377,17 @@ export const ControllerScreen = ({ navigation }: Props) => {
           ) : null}
         </View>
       </ScrollView>
+      <TemplatePromptModal
+        title={promptAction?.label ?? null}
+        labels={promptAction ? collectPromptLabels(promptAction.steps) : []}
+        onCancel={() => setPromptAction(null)}
+        onSubmit={(answers) => {
+          if (promptAction) {
+            sendProfileAction(promptAction, answers);
+          }
+          setPromptAction(null);
+        }}
+      />
     </View>
   );
 };
@@ -295,6 +467,22 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "800",
   },
+  qualityBadge: {
+    color: "#111111",
+    backgroundColor: "#00FF88",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  qualityFair: {
+    backgroundColor: "#FFE7B3",
+  },
+  qualityPoor: {
+    color: "#F2F2F2",
+    backgroundColor: "#b00020",
+  },
   connectingRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,194 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useState } from "react";
+import { Pressable, ScrollView, Share, StyleSheet, Text, View } from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { useConnectionStore } from "../store/connectionStore";
+import { PROTOCOL_VERSION } from "../types/protocol";
+import { maskTrustedDevice, serializeDiagnosticsReport } from "../utils/diagnosticsReport";
+
+type Props = NativeStackScreenProps<RootStackParamList, "Diagnostics">;
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleTimeString();
+
+const newestFirst = <T,>(items: T[]): T[] => [...items].reverse();
+
+export const DiagnosticsScreen = (_props: Props) => {
+  const diagnostics = useConnectionStore((state) => state.connectionDiagnostics);
+  const trustedDevice = useConnectionStore((state) => state.getSelectedTrustedDevice());
+  const getDiagnosticsReport = useConnectionStore((state) => state.getDiagnosticsReport);
+  const maskedDevice = trustedDevice ? maskTrustedDevice(trustedDevice) : null;
+  const gaps = diagnostics.heartbeatGapsMs;
+  const longestGapMs = gaps.length > 0 ? Math.max(...gaps) : null;
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    setExportError(null);
+    Share.share({
+      title: "TapVolt diagnostics",
+      message: serializeDiagnosticsReport(getDiagnosticsReport()),
+    }).catch((shareError: unknown) => {
+      setExportError(
+        shareError instanceof Error ? shareError.message : "Could not share the report.",
+      );
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.section}>
+        <Text style={styles.label}>CONNECTION</Text>
+        <Text style={styles.row}>STATE: {diagnostics.state}</Text>
+        <Text style={styles.row}>PROTOCOL: {PROTOCOL_VERSION}</Text>
+        <Text style={styles.row}>TARGET: {diagnostics.targetUrl ?? "NONE"}</Text>
+        <Text style={styles.row}>
+          SECURE SESSION: {diagnostics.secureSession ? "ACTIVE" : "INACTIVE"}
+        </Text>
+        <Text style={styles.row}>
+          RECONNECT: {diagnostics.reconnectAttempt}/{diagnostics.maxReconnectAttempts}
+        </Text>
+        <Text style={styles.row}>
+          LAST HEARTBEAT:{" "}
+          {diagnostics.lastHeartbeatAt ? formatTime(diagnostics.lastHeartbeatAt) : "NONE"}
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>HEARTBEAT GAPS</Text>
+        {gaps.length > 0 ? (
+          <>
+            <Text style={styles.row}>LONGEST: {longestGapMs} MS</Text>
+            <Text style={styles.row}>RECENT: {newestFirst(gaps).join(" · ")} MS</Text>
+          </>
+        ) : (
+          <Text style={styles.empty}>NO HEARTBEATS YET</Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>STATE TIMELINE</Text>
+        {diagnostics.transitions.length === 0 ? (
+          <Text style={styles.empty}>NO TRANSITIONS YET</Text>
+        ) : null}
+        {newestFirst(diagnostics.transitions).map((transition) => (
+          <View key={`${transition.at}-${transition.from}-${transition.to}`} style={styles.entry}>
+            <Text style={styles.entryTitle}>
+              {formatTime(transition.at)} · {transition.from} → {transition.to}
+            </Text>
+            <Text style={styles.row}>
+              {transition.reason}
+              {transition.reconnectAttempt > 0 ? ` · ATTEMPT ${transition.reconnectAttempt}` : ""}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>RECENT ERRORS</Text>
+        {diagnostics.errors.length === 0 ? <Text style={styles.empty}>NO ERRORS</Text> : null}
+        {newestFirst(diagnostics.errors).map((error) => (
+          <View key={`${error.at}-${error.code}-${error.message}`} style={styles.entry}>
+            <Text style={styles.entryTitle}>
+              {formatTime(error.at)} · {error.code}
+            </Text>
+            <Text style={styles.error}>{error.message}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>TRUSTED DEVICE</Text>
+        {maskedDevice ? (
+          <>
+            <Text style={styles.row}>NAME: {maskedDevice.name}</Text>
+            <Text style={styles.row}>SERVER: {maskedDevice.serverUrl}</Text>
+            <Text style={styles.row}>DEVICE ID: {maskedDevice.deviceId}</Text>
+            <Text style={styles.row}>DESKTOP KEY: {maskedDevice.desktopPublicKey}</Text>
+            <Text style={styles.row}>TLS PIN: {maskedDevice.certFingerprint ?? "NONE"}</Text>
+          </>
+        ) : (
+          <Text style={styles.empty}>NO DEVICE SELECTED</Text>
+        )}
+      </View>
+
+      <Pressable onPress={handleExport} style={styles.primaryButton}>
+        <Text style={styles.primaryButtonText}>EXPORT REPORT</Text>
+      </Pressable>
+      {exportError ? <Text style={styles.error}>{exportError}</Text> : null}
+      <Text style={styles.hint}>
+        The report masks device identifiers and redacts typed text, commands and tokens from
+        logs.
+      </Text>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  section: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    padding: 12,
+    gap: 4,
+  },
+  label: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  row: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  entry: {
+    borderTopWidth: 2,
+    borderTopColor: "#111111",
+    paddingTop: 6,
+    marginTop: 4,
+  },
+  entryTitle: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  empty: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  error: {
+    color: "#b00020",
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  primaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  hint: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+});
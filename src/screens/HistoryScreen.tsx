@@ -0,0 +1,253 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useState } from "react";
+import { FlatList, Pressable, StyleSheet, Text, View } from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { TemplatePromptModal } from "../components/TemplatePromptModal";
+import { useConnectionStore } from "../store/connectionStore";
+import type { ActionHistoryEntry, ActionHistoryStatus } from "../types/history";
+import { filterHistory } from "../utils/actionHistory";
+import { collectPromptLabels } from "../utils/stepTemplate";
+
+type Props = NativeStackScreenProps<RootStackParamList, "History">;
+
+const STATUS_FILTERS: { label: string; status: ActionHistoryStatus | null }[] = [
+  { label: "ALL", status: null },
+  { label: "QUEUED", status: "queued" },
+  { label: "PENDING", status: "pending" },
+  { label: "SUCCESS", status: "success" },
+  { label: "FAILED", status: "failed" },
+  { label: "CANCELLED", status: "cancelled" },
+];
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleTimeString();
+
+export const HistoryScreen = (_props: Props) => {
+  const actionHistory = useConnectionStore((state) => state.actionHistory);
+  const isAuthenticated = useConnectionStore((state) => state.isAuthenticated);
+  const resendHistoryEntry = useConnectionStore((state) => state.resendHistoryEntry);
+  const clearActionHistory = useConnectionStore((state) => state.clearActionHistory);
+  const cancelAction = useConnectionStore((state) => state.cancelAction);
+  const cancellingActionIds = useConnectionStore((state) => state.cancellingActionIds);
+  const [statusFilter, setStatusFilter] = useState<ActionHistoryStatus | null>(null);
+  // History keeps `{{prompt:…}}` unresolved, so a re-send asks again.
+  const [promptEntry, setPromptEntry] = useState<ActionHistoryEntry | null>(null);
+  const entries = filterHistory(actionHistory, statusFilter);
+
+  const renderEntry = ({ item }: { item: ActionHistoryEntry }) => {
+    const isInFlight = item.status === "queued" || item.status === "pending";
+    const isCancelling = cancellingActionIds.includes(item.id);
+
+    return (
+      <View style={styles.entry}>
+        <View style={styles.entryHeader}>
+          <Text style={styles.entryLabel}>{item.label.toUpperCase()}</Text>
+          <Text
+            style={[
+              styles.status,
+              item.status === "failed" && styles.statusFailed,
+              item.status === "success" && styles.statusSuccess,
+            ]}
+          >
+            {item.status.toUpperCase()}
+          </Text>
+        </View>
+        <Text style={styles.entryMeta}>
+          {item.profileName ? `${item.profileName.toUpperCase()} · ` : ""}
+          {item.steps.length} STEP{item.steps.length === 1 ? "" : "S"} ·{" "}
+          {item.status === "queued" ? "QUEUED" : "SENT"} {formatTime(item.sentAt)}
+        </Text>
+        {item.executionTime !== null ? (
+          <Text style={styles.entryMeta}>EXECUTION {item.executionTime} MS</Text>
+        ) : null}
+        {item.error ? <Text style={styles.error}>{item.error}</Text> : null}
+        <View style={styles.controls}>
+          <Pressable
+            disabled={!isAuthenticated}
+            onPress={() => {
+              if (collectPromptLabels(item.steps).length > 0) {
+                setPromptEntry(item);
+                return;
+              }
+              void resendHistoryEntry(item.id);
+            }}
+            style={[styles.control, !isAuthenticated && styles.disabled]}
+          >
+            <Text style={styles.controlText}>RE-SEND</Text>
+          </Pressable>
+          {isInFlight ? (
+            <Pressable
+              disabled={isCancelling}
+              onPress={() => cancelAction(item.id)}
+              style={[styles.control, isCancelling && styles.disabled]}
+            >
+              <Text style={styles.controlText}>{isCancelling ? "CANCELLING" : "CANCEL"}</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filterRow}>
+        {STATUS_FILTERS.map(({ label, status }) => {
+          const isActive = status === statusFilter;
+          return (
+            <Pressable
+              key={label}
+              onPress={() => setStatusFilter(status)}
+              style={[styles.filter, isActive && styles.filterActive]}
+            >
+              <Text style={[styles.filterText, isActive && styles.filterTextActive]}>
+                {label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <FlatList<ActionHistoryEntry>
+        data={entries}
+        keyExtractor={(item) => item.id}
+        renderItem={renderEntry}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.emptyText}>NO ACTIONS YET</Text>}
+      />
+      <Pressable
+        disabled={actionHistory.length === 0}
+        onPress={clearActionHistory}
+        style={[styles.secondaryButton, actionHistory.length === 0 && styles.disabled]}
+      >
+        <Text style={styles.secondaryButtonText}>CLEAR HISTORY</Text>
+      </Pressable>
+      <TemplatePromptModal
+        title={promptEntry?.label ?? null}
+        labels={promptEntry ? collectPromptLabels(promptEntry.steps) : []}
+        onCancel={() => setPromptEntry(null)}
+        onSubmit={(answers) => {
+          if (promptEntry) {
+            void resendHistoryEntry(promptEntry.id, answers);
+          }
+          setPromptEntry(null);
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+    padding: 20,
+    gap: 12,
+  },
+  filterRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  filter: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  filterActive: {
+    backgroundColor: "#111111",
+  },
+  filterText: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  filterTextActive: {
+    color: "#00FF88",
+  },
+  list: {
+    gap: 10,
+  },
+  entry: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    padding: 10,
+    gap: 4,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  entryLabel: {
+    color: "#111111",
+    fontSize: 13,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+  },
+  entryMeta: {
+    color: "#111111",
+    fontSize: 10,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  status: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  statusSuccess: {
+    color: "#007A41",
+  },
+  statusFailed: {
+    color: "#b00020",
+  },
+  controls: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  control: {
+    alignSelf: "flex-start",
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    marginTop: 4,
+  },
+  controlText: {
+    color: "#111111",
+    fontSize: 10,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  disabled: {
+    opacity: 0.35,
+  },
+  emptyText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+    textAlign: "center",
+  },
+  error: {
+    color: "#b00020",
+    fontWeight: "800",
+    fontSize: 12,
+    letterSpacing: 0.5,
+  },
+  secondaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+});
@@ -1,30 +1,96 @@
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { CameraView, useCameraPermissions } from "expo-camera";
-import { useCallback, useEffect, useState } from "react";
-import { ActivityIndicator, Button, StyleSheet, Text, View } from "react-native";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Button, StyleSheet, Text, TextInput, View } from "react-native";
 
 import type { RootStackParamList } from "../app/AppNavigator";
+import { describePairingLink, getPairingTokenRemainingMs } from "../security/pairingManager";
 import { useConnectionStore } from "../store/connectionStore";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Pair">;
 
-export const PairScreen = ({ navigation }: Props) => {
+const formatRemaining = (remainingMs: number): string => {
+  const totalSeconds = Math.ceil(remainingMs / 1_000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+export const PairScreen = ({ navigation, route }: Props) => {
+  const link = route.params?.link;
+  const handledLink = useRef<string | null>(null);
   const [permission, requestPermission] = useCameraPermissions();
   const [isPairing, setIsPairing] = useState(false);
   const [hasScanned, setHasScanned] = useState(false);
+  const [isManualEntry, setIsManualEntry] = useState(false);
+  // A deep link carries the payload already, so the camera is never needed for it.
+  const [isLinkPairing, setIsLinkPairing] = useState(Boolean(link));
+  const [linkTarget, setLinkTarget] = useState<ReturnType<typeof describePairingLink> | null>(
+    null,
+  );
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [host, setHost] = useState("");
+  const [port, setPort] = useState("");
+  const [code, setCode] = useState("");
   const error = useConnectionStore((state) => state.error);
   const pairFromQrPayload = useConnectionStore((state) => state.pairFromQrPayload);
+  const pairWithCode = useConnectionStore((state) => state.pairWithCode);
+  const isConnecting = useConnectionStore((state) => state.isConnecting);
   const isAuthenticated = useConnectionStore((state) => state.isAuthenticated);
+  const pairingExpiresAt = useConnectionStore((state) => state.pairingExpiresAt);
+  const [now, setNow] = useState(Date.now());
+  const remainingMs = hasScanned ? getPairingTokenRemainingMs(pairingExpiresAt, now) : null;
 
   useEffect(() => {
-    if (!permission) {
+    if (!permission || isManualEntry || isLinkPairing) {
       return;
     }
 
     if (!permission.granted && permission.canAskAgain) {
       void requestPermission();
     }
-  }, [permission, requestPermission]);
+  }, [permission, requestPermission, isManualEntry, isLinkPairing]);
+
+  useEffect(() => {
+    if (!hasScanned || pairingExpiresAt === null || isAuthenticated) {
+      return;
+    }
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1_000);
+    return () => clearInterval(timer);
+  }, [hasScanned, pairingExpiresAt, isAuthenticated]);
+
+  useEffect(() => {
+    if (!link || handledLink.current === link) {
+      return;
+    }
+
+    // Nothing is paired until the user confirms: any page or app can open a link.
+    handledLink.current = link;
+    setIsManualEntry(false);
+    setIsLinkPairing(true);
+    setHasScanned(false);
+    try {
+      setLinkTarget(describePairingLink(link));
+      setLinkError(null);
+    } catch (linkParseError: unknown) {
+      setLinkTarget(null);
+      setLinkError(
+        linkParseError instanceof Error ? linkParseError.message : "Invalid pairing link.",
+      );
+    }
+  }, [link]);
+
+  const handleConfirmLink = useCallback(() => {
+    if (!link || hasScanned || isPairing) {
+      return;
+    }
+
+    setHasScanned(true);
+    setIsPairing(true);
+    void pairFromQrPayload(link).finally(() => setIsPairing(false));
+  }, [link, hasScanned, isPairing, pairFromQrPayload]);
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -46,6 +112,89 @@ export const PairScreen = ({ navigation }: Props) => {
     [hasScanned, isPairing, pairFromQrPayload],
   );
 
+  if (isManualEntry) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Enter Desktop Pairing Code</Text>
+        <TextInput
+          value={host}
+          onChangeText={setHost}
+          placeholder="Host, e.g. 192.168.1.20"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          style={styles.input}
+        />
+        <TextInput
+          value={port}
+          onChangeText={setPort}
+          placeholder="Port, e.g. 8080"
+          keyboardType="number-pad"
+          style={styles.input}
+        />
+        <TextInput
+          value={code}
+          onChangeText={setCode}
+          placeholder="Code, e.g. K7QF-2M9X"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          style={styles.input}
+        />
+        {isConnecting ? <ActivityIndicator size="small" color="#111827" /> : null}
+        {error ? <Text style={styles.error}>{error.message}</Text> : null}
+        <Button
+          title="Pair"
+          disabled={isConnecting}
+          onPress={() => pairWithCode({ host, port: Number(port), code })}
+        />
+        <Button title="Scan QR Instead" onPress={() => setIsManualEntry(false)} />
+      </View>
+    );
+  }
+
+  if (isLinkPairing) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Pair With This Desktop?</Text>
+        {linkTarget ? (
+          <>
+            <Text style={styles.linkTarget}>{linkTarget.name ?? "Unnamed desktop"}</Text>
+            <Text style={styles.linkTarget}>{linkTarget.address}</Text>
+            <Text style={styles.validity}>
+              Only pair if this is your desktop. It will receive everything you send.
+            </Text>
+          </>
+        ) : null}
+        {linkError ? <Text style={styles.error}>{linkError}</Text> : null}
+        {linkTarget && !hasScanned ? (
+          <Button title="Pair" disabled={isPairing} onPress={handleConfirmLink} />
+        ) : null}
+        {isPairing ? <ActivityIndicator size="small" color="#111827" /> : null}
+        {remainingMs !== null && remainingMs > 0 ? (
+          <Text style={styles.validity}>Pairing code valid for {formatRemaining(remainingMs)}</Text>
+        ) : null}
+        {remainingMs === 0 ? (
+          <Text style={styles.error}>Pairing code expired. Scan a new QR code.</Text>
+        ) : null}
+        {error ? <Text style={styles.error}>{error.message}</Text> : null}
+        <Button
+          title="Scan QR Instead"
+          onPress={() => {
+            setIsLinkPairing(false);
+            setHasScanned(false);
+          }}
+        />
+        <Button
+          title="Enter Code Instead"
+          onPress={() => {
+            setIsLinkPairing(false);
+            setIsManualEntry(true);
+          }}
+        />
+      </View>
+    );
+  }
+
   if (!permission) {
     return (
       <View style={styles.container}>
@@ -68,6 +217,7 @@ export const PairScreen = ({ navigation }: Props) => {
             navigation.goBack();
           }}
         />
+        <Button title="Enter Code Instead" onPress={() => setIsManualEntry(true)} />
       </View>
     );
   }
@@ -85,7 +235,14 @@ export const PairScreen = ({ navigation }: Props) => {
         />
       </View>
       {isPairing ? <ActivityIndicator size="small" color="#111827" /> : null}
+      {remainingMs !== null && remainingMs > 0 ? (
+        <Text style={styles.validity}>Pairing code valid for {formatRemaining(remainingMs)}</Text>
+      ) : null}
+      {remainingMs === 0 ? (
+        <Text style={styles.error}>Pairing code expired. Scan a new QR code.</Text>
+      ) : null}
       {error ? <Text style={styles.error}>{error.message}</Text> : null}
+      <Button title="Enter Code Instead" onPress={() => setIsManualEntry(true)} />
       <Button
         title={hasScanned ? "Scan Again" : "Cancel"}
         onPress={() => {
@@ -122,6 +279,24 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     overflow: "hidden",
   },
+  input: {
+    width: "100%",
+    maxWidth: 320,
+    borderWidth: 1,
+    borderColor: "#b0b0b0",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  linkTarget: {
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  validity: {
+    color: "#4b5563",
+    textAlign: "center",
+  },
   error: {
     color: "#b00020",
     textAlign: "center",
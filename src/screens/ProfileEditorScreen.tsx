@@ -0,0 +1,312 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useEffect, useState } from "react";
+import {
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { useConnectionStore } from "../store/connectionStore";
+import { serializeProfileDocument } from "../utils/profileDocument";
+
+type Props = NativeStackScreenProps<RootStackParamList, "ProfileEditor">;
+
+type RowControlProps = {
+  label: string;
+  disabled?: boolean;
+  onPress: () => void;
+};
+
+const RowControl = ({ label, disabled = false, onPress }: RowControlProps) => (
+  <Pressable
+    disabled={disabled}
+    onPress={onPress}
+    style={[styles.control, disabled && styles.disabled]}
+  >
+    <Text style={styles.controlText}>{label}</Text>
+  </Pressable>
+);
+
+export const ProfileEditorScreen = ({ navigation }: Props) => {
+  const profiles = useConnectionStore((state) => state.profiles);
+  const activeProfileId = useConnectionStore((state) => state.activeProfileId);
+  const createProfile = useConnectionStore((state) => state.createProfile);
+  const renameProfile = useConnectionStore((state) => state.renameProfile);
+  const moveProfile = useConnectionStore((state) => state.moveProfile);
+  const deleteProfile = useConnectionStore((state) => state.deleteProfile);
+  const resetProfiles = useConnectionStore((state) => state.resetProfiles);
+  const moveProfileAction = useConnectionStore((state) => state.moveProfileAction);
+  const [selectedProfileId, setSelectedProfileId] = useState(activeProfileId);
+  const [newProfileName, setNewProfileName] = useState("");
+  const selectedProfile =
+    profiles.find((profile) => profile.id === selectedProfileId) ?? profiles[0];
+  const [profileName, setProfileName] = useState(selectedProfile.name);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProfileName(selectedProfile.name);
+  }, [selectedProfile.id, selectedProfile.name]);
+
+  const handleExportProfile = () => {
+    setExportError(null);
+    Share.share({
+      title: `TapVolt profile: ${selectedProfile.name}`,
+      message: serializeProfileDocument(selectedProfile),
+    }).catch((shareError: unknown) => {
+      setExportError(
+        shareError instanceof Error ? shareError.message : "Could not share the profile.",
+      );
+    });
+  };
+
+  const handleCreateProfile = () => {
+    const profileId = createProfile(newProfileName);
+    if (!profileId) {
+      return;
+    }
+    setNewProfileName("");
+    setSelectedProfileId(profileId);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.header}>PROFILES</Text>
+      {profiles.map((profile, index) => {
+        const isSelected = profile.id === selectedProfile.id;
+        return (
+          <View key={profile.id} style={[styles.row, isSelected && styles.rowSelected]}>
+            <Pressable style={styles.rowLabel} onPress={() => setSelectedProfileId(profile.id)}>
+              <Text style={[styles.rowText, isSelected && styles.rowTextSelected]}>
+                {profile.name.toUpperCase()}
+              </Text>
+            </Pressable>
+            <RowControl
+              label="UP"
+              disabled={index === 0}
+              onPress={() => moveProfile(profile.id, -1)}
+            />
+            <RowControl
+              label="DOWN"
+              disabled={index === profiles.length - 1}
+              onPress={() => moveProfile(profile.id, 1)}
+            />
+            <RowControl
+              label="DELETE"
+              disabled={profiles.length <= 1}
+              onPress={() => deleteProfile(profile.id)}
+            />
+          </View>
+        );
+      })}
+      <View style={styles.inlineForm}>
+        <TextInput
+          value={newProfileName}
+          onChangeText={setNewProfileName}
+          placeholder="New profile name"
+          style={[styles.input, styles.inlineInput]}
+        />
+        <RowControl
+          label="ADD"
+          disabled={newProfileName.trim().length === 0}
+          onPress={handleCreateProfile}
+        />
+      </View>
+
+      <Text style={styles.header}>EDIT {selectedProfile.name.toUpperCase()}</Text>
+      <View style={styles.inlineForm}>
+        <TextInput
+          value={profileName}
+          onChangeText={setProfileName}
+          placeholder="Profile name"
+          style={[styles.input, styles.inlineInput]}
+        />
+        <RowControl
+          label="RENAME"
+          disabled={
+            profileName.trim().length === 0 || profileName.trim() === selectedProfile.name
+          }
+          onPress={() => renameProfile(selectedProfile.id, profileName)}
+        />
+        <RowControl label="EXPORT" onPress={handleExportProfile} />
+      </View>
+      {exportError ? <Text style={styles.error}>{exportError.toUpperCase()}</Text> : null}
+      {selectedProfile.actions.length === 0 ? (
+        <Text style={styles.emptyText}>NO ACTIONS YET</Text>
+      ) : null}
+      {selectedProfile.actions.map((action, index) => (
+        <View key={action.id} style={styles.row}>
+          <View style={styles.rowLabel}>
+            <Text style={styles.rowText}>{action.label.toUpperCase()}</Text>
+            <Text style={styles.rowMeta}>
+              {action.steps.length} {action.steps.length === 1 ? "STEP" : "STEPS"}
+            </Text>
+          </View>
+          <RowControl
+            label="UP"
+            disabled={index === 0}
+            onPress={() => moveProfileAction(selectedProfile.id, action.id, -1)}
+          />
+          <RowControl
+            label="DOWN"
+            disabled={index === selectedProfile.actions.length - 1}
+            onPress={() => moveProfileAction(selectedProfile.id, action.id, 1)}
+          />
+          <RowControl
+            label="EDIT"
+            onPress={() =>
+              navigation.navigate("ActionEditor", {
+                profileId: selectedProfile.id,
+                actionId: action.id,
+              })
+            }
+          />
+        </View>
+      ))}
+      <Pressable
+        onPress={() => navigation.navigate("ActionEditor", { profileId: selectedProfile.id })}
+        style={styles.primaryButton}
+      >
+        <Text style={styles.primaryButtonText}>ADD ACTION</Text>
+      </Pressable>
+      <Pressable
+        onPress={() => navigation.navigate("ProfileImport")}
+        style={styles.secondaryButton}
+      >
+        <Text style={styles.secondaryButtonText}>IMPORT PROFILE</Text>
+      </Pressable>
+      <Pressable
+        onPress={() => navigation.navigate("TemplateVariables")}
+        style={styles.secondaryButton}
+      >
+        <Text style={styles.secondaryButtonText}>TEMPLATE VARIABLES</Text>
+      </Pressable>
+      <Pressable onPress={resetProfiles} style={styles.secondaryButton}>
+        <Text style={styles.secondaryButtonText}>RESTORE DEFAULT PROFILES</Text>
+      </Pressable>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+  },
+  content: {
+    padding: 20,
+    gap: 10,
+  },
+  header: {
+    color: "#111111",
+    fontSize: 14,
+    fontWeight: "800",
+    letterSpacing: 1.5,
+    textAlign: "center",
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 3,
+    borderColor: "#111111",
+    padding: 8,
+  },
+  rowSelected: {
+    backgroundColor: "#111111",
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  rowText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.8,
+  },
+  rowTextSelected: {
+    color: "#00FF88",
+  },
+  rowMeta: {
+    color: "#111111",
+    fontSize: 10,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  control: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    backgroundColor: "#F2F2F2",
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  controlText: {
+    color: "#111111",
+    fontSize: 10,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  disabled: {
+    opacity: 0.35,
+  },
+  error: {
+    color: "#b00020",
+    fontWeight: "800",
+    fontSize: 12,
+    letterSpacing: 0.5,
+    textAlign: "center",
+  },
+  inlineForm: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: "#111111",
+    backgroundColor: "#FFFFFF",
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  emptyText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+    textAlign: "center",
+  },
+  primaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  secondaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+});
@@ -0,0 +1,272 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { getDocumentAsync } from "expo-document-picker";
+import { File } from "expo-file-system";
+import { useCallback, useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { useConnectionStore } from "../store/connectionStore";
+import type {
+  ProfileCommandStep,
+  ProfileDocument,
+  ProfileDocumentIssue,
+} from "../types/profileDocument";
+import { listCommandSteps, parseProfileDocument } from "../utils/profileDocument";
+
+type Props = NativeStackScreenProps<RootStackParamList, "ProfileImport">;
+
+type PendingImport = {
+  profile: ProfileDocument["profile"];
+  commands: ProfileCommandStep[];
+};
+
+export const ProfileImportScreen = ({ navigation }: Props) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  const importProfile = useConnectionStore((state) => state.importProfile);
+  const [rawDocument, setRawDocument] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
+  // CameraView keeps reporting the same code until the screen re-renders.
+  const [hasScanned, setHasScanned] = useState(false);
+  const [issues, setIssues] = useState<ProfileDocumentIssue[]>([]);
+  // Profiles with shell commands wait here until the user has read them.
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+
+  const saveProfile = useCallback(
+    (profile: ProfileDocument["profile"]) => {
+      importProfile(profile);
+      navigation.goBack();
+    },
+    [importProfile, navigation],
+  );
+
+  const importDocument = useCallback(
+    (raw: string) => {
+      setPendingImport(null);
+      const result = parseProfileDocument(raw);
+      if (!result.ok) {
+        setIssues(result.issues);
+        return;
+      }
+
+      setIssues([]);
+      const commands = listCommandSteps(result.profile);
+      if (commands.length > 0) {
+        setPendingImport({ profile: result.profile, commands });
+        return;
+      }
+      saveProfile(result.profile);
+    },
+    [saveProfile],
+  );
+
+  const handlePickFile = async () => {
+    try {
+      const result = await getDocumentAsync({
+        type: ["application/json", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || result.assets.length === 0) {
+        return;
+      }
+
+      const contents = await new File(result.assets[0].uri).text();
+      setRawDocument(contents);
+      importDocument(contents);
+    } catch {
+      setIssues([{ actionIndex: null, message: "Failed to read the selected file." }]);
+    }
+  };
+
+  const handleStartScan = async () => {
+    if (!permission?.granted) {
+      const response = await requestPermission();
+      if (!response.granted) {
+        setIssues([{ actionIndex: null, message: "Camera access denied." }]);
+        return;
+      }
+    }
+    setIssues([]);
+    setHasScanned(false);
+    setIsScanning(true);
+  };
+
+  const handleBarcodeScanned = ({ data }: { data: string }) => {
+    if (hasScanned) {
+      return;
+    }
+
+    setHasScanned(true);
+    setIsScanning(false);
+    setRawDocument(data);
+    importDocument(data);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.header}>IMPORT PROFILE</Text>
+      <TextInput
+        value={rawDocument}
+        onChangeText={(text) => {
+          setRawDocument(text);
+          setPendingImport(null);
+        }}
+        placeholder="Paste profile JSON"
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+        style={styles.input}
+      />
+      <Pressable
+        disabled={rawDocument.trim().length === 0}
+        onPress={() => importDocument(rawDocument)}
+        style={[styles.primaryButton, rawDocument.trim().length === 0 && styles.disabled]}
+      >
+        <Text style={styles.primaryButtonText}>IMPORT PASTED JSON</Text>
+      </Pressable>
+      <Pressable onPress={() => void handlePickFile()} style={styles.secondaryButton}>
+        <Text style={styles.secondaryButtonText}>CHOOSE FILE</Text>
+      </Pressable>
+      <Pressable
+        onPress={() => (isScanning ? setIsScanning(false) : void handleStartScan())}
+        style={styles.secondaryButton}
+      >
+        <Text style={styles.secondaryButtonText}>{isScanning ? "STOP SCANNING" : "SCAN QR"}</Text>
+      </Pressable>
+      {isScanning ? (
+        <View style={styles.scannerFrame}>
+          <CameraView
+            style={StyleSheet.absoluteFillObject}
+            onBarcodeScanned={hasScanned ? undefined : handleBarcodeScanned}
+            barcodeScannerSettings={{
+              barcodeTypes: ["qr"],
+            }}
+          />
+        </View>
+      ) : null}
+      {pendingImport ? (
+        <View style={styles.commandPreview}>
+          <Text style={styles.warning}>
+            &quot;{pendingImport.profile.name}&quot; runs these commands on your desktop. Only
+            import it if you trust where it came from.
+          </Text>
+          {pendingImport.commands.map((step, index) => (
+            <View key={`${step.actionIndex}-${index}`}>
+              <Text style={styles.commandLabel}>{step.actionLabel}</Text>
+              <Text style={styles.command}>{step.command}</Text>
+            </View>
+          ))}
+          <Pressable
+            onPress={() => saveProfile(pendingImport.profile)}
+            style={styles.primaryButton}
+          >
+            <Text style={styles.primaryButtonText}>
+              IMPORT WITH {pendingImport.commands.length} COMMAND
+              {pendingImport.commands.length === 1 ? "" : "S"}
+            </Text>
+          </Pressable>
+          <Pressable onPress={() => setPendingImport(null)} style={styles.secondaryButton}>
+            <Text style={styles.secondaryButtonText}>CANCEL</Text>
+          </Pressable>
+        </View>
+      ) : null}
+      {issues.map((issue, index) => (
+        <Text key={`${issue.actionIndex ?? "document"}-${index}`} style={styles.error}>
+          {issue.message}
+        </Text>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  header: {
+    color: "#111111",
+    fontSize: 20,
+    fontWeight: "800",
+    letterSpacing: 1.5,
+    textAlign: "center",
+  },
+  input: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    minHeight: 140,
+    textAlignVertical: "top",
+    color: "#111111",
+    backgroundColor: "#FFFFFF",
+  },
+  primaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  secondaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  scannerFrame: {
+    width: "100%",
+    aspectRatio: 1,
+    borderWidth: 3,
+    borderColor: "#111111",
+    overflow: "hidden",
+  },
+  commandPreview: {
+    borderWidth: 3,
+    borderColor: "#b00020",
+    padding: 12,
+    gap: 10,
+    backgroundColor: "#FFFFFF",
+  },
+  warning: {
+    color: "#b00020",
+    fontWeight: "800",
+    fontSize: 12,
+    letterSpacing: 0.5,
+  },
+  commandLabel: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  command: {
+    color: "#111111",
+    fontSize: 12,
+  },
+  error: {
+    color: "#b00020",
+    fontWeight: "800",
+    fontSize: 12,
+    letterSpacing: 0.5,
+  },
+});
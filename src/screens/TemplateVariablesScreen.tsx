@@ -0,0 +1,170 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { useConnectionStore } from "../store/connectionStore";
+
+type Props = NativeStackScreenProps<RootStackParamList, "TemplateVariables">;
+
+export const TemplateVariablesScreen = (_props: Props) => {
+  const templateVariables = useConnectionStore((state) => state.templateVariables);
+  const setTemplateVariable = useConnectionStore((state) => state.setTemplateVariable);
+  const removeTemplateVariable = useConnectionStore((state) => state.removeTemplateVariable);
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const entries = Object.entries(templateVariables).sort(([left], [right]) =>
+    left.localeCompare(right),
+  );
+
+  const handleSave = () => {
+    const saveError = setTemplateVariable(name, value);
+    setError(saveError);
+    if (!saveError) {
+      setName("");
+      setValue("");
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {entries.length === 0 ? <Text style={styles.hint}>NO VARIABLES YET</Text> : null}
+      {entries.map(([variableName, variableValue]) => (
+        <View key={variableName} style={styles.row}>
+          <Pressable
+            onPress={() => {
+              setName(variableName);
+              setValue(variableValue);
+            }}
+            style={styles.rowText}
+          >
+            <Text style={styles.variableName}>{`{{${variableName}}}`}</Text>
+            <Text style={styles.variableValue} numberOfLines={2}>
+              {variableValue}
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() => removeTemplateVariable(variableName)}
+            style={styles.control}
+          >
+            <Text style={styles.controlText}>DELETE</Text>
+          </Pressable>
+        </View>
+      ))}
+
+      <Text style={styles.label}>NAME</Text>
+      <TextInput
+        value={name}
+        onChangeText={setName}
+        placeholder="email"
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={styles.input}
+      />
+      <Text style={styles.label}>VALUE</Text>
+      <TextInput
+        value={value}
+        onChangeText={setValue}
+        placeholder="name@example.com"
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+        style={styles.input}
+      />
+      {error ? <Text style={styles.error}>{error.toUpperCase()}</Text> : null}
+      <Pressable onPress={handleSave} style={styles.primaryButton}>
+        <Text style={styles.primaryButtonText}>SAVE VARIABLE</Text>
+      </Pressable>
+      <Text style={styles.hint}>
+        Saved values are typed wherever an action uses {"{{name}}"}. Tap a variable to edit it.
+      </Text>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+  },
+  content: {
+    padding: 20,
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 3,
+    borderColor: "#111111",
+    padding: 10,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  variableName: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  variableValue: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  control: {
+    borderWidth: 2,
+    borderColor: "#111111",
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  controlText: {
+    color: "#111111",
+    fontSize: 10,
+    fontWeight: "800",
+    letterSpacing: 0.5,
+  },
+  label: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  input: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: "#111111",
+    backgroundColor: "#FFFFFF",
+  },
+  primaryButton: {
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+  hint: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "600",
+    letterSpacing: 0.5,
+  },
+  error: {
+    color: "#b00020",
+    fontWeight: "800",
+    fontSize: 12,
+    letterSpacing: 0.5,
+    textAlign: "center",
+  },
+});
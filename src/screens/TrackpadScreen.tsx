@@ -0,0 +1,216 @@
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { PanResponder, Pressable, StyleSheet, Text, View } from "react-native";
+
+import type { RootStackParamList } from "../app/AppNavigator";
+import { useConnectionStore } from "../store/connectionStore";
+import type { MouseButton, PointerStep } from "../types/protocol";
+import { MAX_POINTER_DELTA } from "../utils/validateStep";
+
+type Props = NativeStackScreenProps<RootStackParamList, "Trackpad">;
+
+const FLUSH_INTERVAL_MS = 16;
+const POINTER_SENSITIVITY = 1.5;
+const SCROLL_PIXELS_PER_LINE = 20;
+const TAP_MAX_DURATION_MS = 200;
+const TAP_SLOP_PX = 6;
+
+type Delta = { dx: number; dy: number };
+
+const clampDelta = (value: number): number =>
+  Math.max(-MAX_POINTER_DELTA, Math.min(MAX_POINTER_DELTA, value));
+
+/** Moves the whole-number part out of `delta`, keeping the remainder for the next flush. */
+const takeWholeDelta = (delta: Delta): Delta => {
+  const dx = Math.trunc(delta.dx);
+  const dy = Math.trunc(delta.dy);
+  delta.dx -= dx;
+  delta.dy -= dy;
+  return { dx: clampDelta(dx), dy: clampDelta(dy) };
+};
+
+export const TrackpadScreen = (_props: Props) => {
+  const isAuthenticated = useConnectionStore((state) => state.isAuthenticated);
+  const sendPointerInput = useConnectionStore((state) => state.sendPointerInput);
+  const pendingMove = useRef<Delta>({ dx: 0, dy: 0 });
+  const pendingScroll = useRef<Delta>({ dx: 0, dy: 0 });
+  const lastGesture = useRef<Delta>({ dx: 0, dy: 0 });
+  const gestureStartedAt = useRef(0);
+  const maxTouches = useRef(0);
+  const flushTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const flush = useCallback(() => {
+    const steps: PointerStep[] = [];
+    const move = takeWholeDelta(pendingMove.current);
+    if (move.dx !== 0 || move.dy !== 0) {
+      steps.push({ type: "mouseMove", ...move });
+    }
+    const scroll = takeWholeDelta(pendingScroll.current);
+    if (scroll.dx !== 0 || scroll.dy !== 0) {
+      steps.push({ type: "scroll", ...scroll });
+    }
+    if (steps.length > 0) {
+      sendPointerInput(steps);
+    }
+  }, [sendPointerInput]);
+
+  const stopFlushing = useCallback(() => {
+    if (flushTimer.current) {
+      clearInterval(flushTimer.current);
+      flushTimer.current = null;
+    }
+  }, []);
+
+  useEffect(() => stopFlushing, [stopFlushing]);
+
+  const click = (button: MouseButton, count: 1 | 2 = 1) => {
+    sendPointerInput([
+      count === 2 ? { type: "mouseClick", button, count } : { type: "mouseClick", button },
+    ]);
+  };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: () => {
+          lastGesture.current = { dx: 0, dy: 0 };
+          pendingMove.current = { dx: 0, dy: 0 };
+          pendingScroll.current = { dx: 0, dy: 0 };
+          gestureStartedAt.current = Date.now();
+          maxTouches.current = 1;
+          stopFlushing();
+          flushTimer.current = setInterval(flush, FLUSH_INTERVAL_MS);
+        },
+        onPanResponderMove: (_event, gesture) => {
+          const stepX = gesture.dx - lastGesture.current.dx;
+          const stepY = gesture.dy - lastGesture.current.dy;
+          lastGesture.current = { dx: gesture.dx, dy: gesture.dy };
+          maxTouches.current = Math.max(maxTouches.current, gesture.numberActiveTouches);
+
+          // Two fingers scroll like a laptop trackpad; one finger moves the pointer.
+          if (gesture.numberActiveTouches >= 2) {
+            pendingScroll.current.dx += stepX / SCROLL_PIXELS_PER_LINE;
+            pendingScroll.current.dy += stepY / SCROLL_PIXELS_PER_LINE;
+            return;
+          }
+
+          pendingMove.current.dx += stepX * POINTER_SENSITIVITY;
+          pendingMove.current.dy += stepY * POINTER_SENSITIVITY;
+        },
+        onPanResponderRelease: (_event, gesture) => {
+          stopFlushing();
+          flush();
+
+          const isTap =
+            Date.now() - gestureStartedAt.current <= TAP_MAX_DURATION_MS &&
+            Math.abs(gesture.dx) <= TAP_SLOP_PX &&
+            Math.abs(gesture.dy) <= TAP_SLOP_PX;
+          if (isTap) {
+            sendPointerInput([
+              { type: "mouseClick", button: maxTouches.current >= 2 ? "right" : "left" },
+            ]);
+          }
+        },
+        onPanResponderTerminate: () => {
+          stopFlushing();
+          flush();
+        },
+      }),
+    [flush, sendPointerInput, stopFlushing],
+  );
+
+  return (
+    <View style={styles.container}>
+      {!isAuthenticated ? <Text style={styles.authPrompt}>PAIRING REQUIRED</Text> : null}
+      <View
+        {...panResponder.panHandlers}
+        style={[styles.pad, !isAuthenticated && styles.disabled]}
+        pointerEvents={isAuthenticated ? "auto" : "none"}
+      >
+        <Text style={styles.padHint}>DRAG TO MOVE · TAP TO CLICK</Text>
+        <Text style={styles.padHint}>TWO FINGERS TO SCROLL</Text>
+      </View>
+      <View style={styles.buttonRow}>
+        <Pressable
+          disabled={!isAuthenticated}
+          onPress={() => click("left")}
+          style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+        >
+          <Text style={styles.buttonText}>LEFT</Text>
+        </Pressable>
+        <Pressable
+          disabled={!isAuthenticated}
+          onPress={() => click("left", 2)}
+          style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+        >
+          <Text style={styles.buttonText}>DOUBLE</Text>
+        </Pressable>
+        <Pressable
+          disabled={!isAuthenticated}
+          onPress={() => click("right")}
+          style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+        >
+          <Text style={styles.buttonText}>RIGHT</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F2F2F2",
+    padding: 20,
+    gap: 12,
+  },
+  authPrompt: {
+    color: "#b00020",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+    textAlign: "center",
+  },
+  pad: {
+    flex: 1,
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  padHint: {
+    color: "#111111",
+    fontSize: 11,
+    fontWeight: "800",
+    letterSpacing: 1,
+    opacity: 0.45,
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    borderWidth: 3,
+    borderColor: "#111111",
+    backgroundColor: "#111111",
+    paddingVertical: 18,
+    alignItems: "center",
+  },
+  buttonPressed: {
+    backgroundColor: "#333333",
+  },
+  buttonText: {
+    color: "#00FF88",
+    fontSize: 12,
+    fontWeight: "800",
+    letterSpacing: 1,
+  },
+});
@@ -0,0 +1,253 @@
+import { x25519 } from "@noble/curves/ed25519";
+import { hkdf } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha2";
+import forge from "node-forge";
+
+import { CRYPTO_ERRORS, CryptoService, ENVELOPE_VERSION } from "./cryptoService";
+
+const mockRandomRequests: number[] = [];
+let mockRandomUnavailable = false;
+
+jest.mock("expo-crypto", () => {
+  const { randomFillSync } = jest.requireActual<typeof import("crypto")>("crypto");
+  return {
+    getRandomBytes: (byteCount: number) => {
+      if (mockRandomUnavailable) {
+        throw new Error("Cannot find native module 'ExpoCrypto'");
+      }
+      mockRandomRequests.push(byteCount);
+      return randomFillSync(new Uint8Array(byteCount));
+    },
+  };
+});
+
+const SESSION_KEY = "a".repeat(64);
+
+describe("cryptoService", () => {
+  const crypto = new CryptoService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockRandomRequests.length = 0;
+    mockRandomUnavailable = false;
+  });
+
+  it("draws keys and IVs from expo-crypto, never from node-forge's PRNG", () => {
+    jest.spyOn(forge.random, "getBytesSync").mockImplementation(() => {
+      throw new Error("node-forge PRNG used");
+    });
+
+    crypto.generateKeyPair();
+    crypto.encryptJson({ type: "PONG" }, SESSION_KEY);
+    expect(mockRandomRequests).toEqual([32, 12]);
+
+    mockRandomUnavailable = true;
+    expect(() => crypto.generateKeyPair()).toThrow(CRYPTO_ERRORS.RANDOM_UNAVAILABLE);
+    expect(() => crypto.encryptJson({ type: "PONG" }, SESSION_KEY)).toThrow(
+      CRYPTO_ERRORS.RANDOM_UNAVAILABLE,
+    );
+  });
+
+  it("round-trips JSON through a versioned envelope", () => {
+    const envelope = crypto.encryptJson({ type: "PONG", text: "héllo" }, SESSION_KEY);
+
+    expect(envelope.version).toBe(ENVELOPE_VERSION);
+    expect(crypto.decryptJson(envelope, SESSION_KEY)).toEqual({
+      type: "PONG",
+      text: "héllo",
+    });
+  });
+
+  it("rejects a flipped ciphertext bit as tampered", () => {
+    const envelope = crypto.encryptJson({ type: "PONG" }, SESSION_KEY);
+    const bytes = Buffer.from(envelope.encryptedPayload, "base64");
+    bytes[0] ^= 0x01;
+
+    expect(() =>
+      crypto.decryptJson({ ...envelope, encryptedPayload: bytes.toString("base64") }, SESSION_KEY),
+    ).toThrow(CRYPTO_ERRORS.TAMPERED_ENVELOPE);
+  });
+
+  it("rejects an envelope sealed with a different key", () => {
+    const envelope = crypto.encryptJson({ type: "PONG" }, SESSION_KEY);
+
+    expect(() => crypto.decryptJson(envelope, "b".repeat(64))).toThrow(
+      CRYPTO_ERRORS.TAMPERED_ENVELOPE,
+    );
+  });
+
+  it("derives the same session key as a desktop mirroring the handshake", () => {
+    const device = crypto.generateKeyPair();
+    const deviceEphemeral = crypto.generateKeyPair();
+    const desktop = crypto.generateKeyPair();
+    const desktopEphemeral = crypto.generateKeyPair();
+    const fromBase64 = (value: string) => new Uint8Array(Buffer.from(value, "base64"));
+
+    const phoneKey = crypto.deriveSessionKey({
+      deviceId: "device-a",
+      sessionNonce: "nonce-1",
+      deviceStaticPrivateKey: device.privateKey,
+      deviceEphemeralPrivateKey: deviceEphemeral.privateKey,
+      desktopStaticPublicKey: desktop.publicKey,
+      desktopEphemeralPublicKey: desktopEphemeral.publicKey,
+      pairingToken: "token-value-12345",
+    });
+
+    const desktopSecret = Buffer.concat([
+      x25519.getSharedSecret(
+        fromBase64(desktopEphemeral.privateKey),
+        fromBase64(deviceEphemeral.publicKey),
+      ),
+      x25519.getSharedSecret(fromBase64(desktopEphemeral.privateKey), fromBase64(device.publicKey)),
+      x25519.getSharedSecret(fromBase64(desktop.privateKey), fromBase64(deviceEphemeral.publicKey)),
+    ]);
+    const desktopKey = hkdf(
+      sha256,
+      desktopSecret,
+      "token-value-12345",
+      "tapvolt-session-v3|device-a|nonce-1",
+      32,
+    );
+
+    expect(phoneKey).toBe(Buffer.from(desktopKey).toString("hex"));
+  });
+
+  it("derives pairing proofs a desktop can mirror and that differ by token", () => {
+    const device = crypto.generateKeyPair();
+    const deviceEphemeral = crypto.generateKeyPair();
+    const desktop = crypto.generateKeyPair();
+    const desktopEphemeral = crypto.generateKeyPair();
+    const fromBase64 = (value: string) => new Uint8Array(Buffer.from(value, "base64"));
+    const input = {
+      deviceId: "device-a",
+      sessionNonce: "nonce-1",
+      deviceStaticPrivateKey: device.privateKey,
+      deviceEphemeralPrivateKey: deviceEphemeral.privateKey,
+      desktopStaticPublicKey: desktop.publicKey,
+      desktopEphemeralPublicKey: desktopEphemeral.publicKey,
+      pairingToken: "token-value-12345",
+    };
+
+    const proofs = crypto.derivePairingProofs(input);
+
+    const desktopSecret = Buffer.concat([
+      x25519.getSharedSecret(
+        fromBase64(desktopEphemeral.privateKey),
+        fromBase64(deviceEphemeral.publicKey),
+      ),
+      x25519.getSharedSecret(fromBase64(desktopEphemeral.privateKey), fromBase64(device.publicKey)),
+      x25519.getSharedSecret(fromBase64(desktop.privateKey), fromBase64(deviceEphemeral.publicKey)),
+    ]);
+    const proofKey = hkdf(
+      sha256,
+      desktopSecret,
+      "token-value-12345",
+      "tapvolt-pair-proof-v3|device-a|nonce-1",
+      32,
+    );
+    const transcript = [
+      "tapvolt-pair-proof-v3",
+      "device-a",
+      "nonce-1",
+      device.publicKey,
+      deviceEphemeral.publicKey,
+      desktop.publicKey,
+      desktopEphemeral.publicKey,
+    ].join("|");
+    const mirrored = (role: string) =>
+      Buffer.from(hmac(sha256, proofKey, `${role}|${transcript}`)).toString("base64");
+
+    expect(proofs).toEqual({ device: mirrored("device"), desktop: mirrored("desktop") });
+    expect(crypto.matchesProof(proofs.desktop, mirrored("desktop"))).toBe(true);
+    const otherToken = crypto.derivePairingProofs({ ...input, pairingToken: "token-value-54321" });
+    expect(crypto.matchesProof(proofs.device, otherToken.device)).toBe(false);
+    expect(crypto.matchesProof(proofs.device, "")).toBe(false);
+  });
+
+  it("derives a reconnect proof only the pinned desktop key can mirror", () => {
+    const device = crypto.generateKeyPair();
+    const deviceEphemeral = crypto.generateKeyPair();
+    const desktop = crypto.generateKeyPair();
+    const desktopEphemeral = crypto.generateKeyPair();
+    const fromBase64 = (value: string) => new Uint8Array(Buffer.from(value, "base64"));
+    const input = {
+      deviceId: "device-a",
+      sessionNonce: "nonce-1",
+      deviceStaticPrivateKey: device.privateKey,
+      deviceEphemeralPrivateKey: deviceEphemeral.privateKey,
+      desktopStaticPublicKey: desktop.publicKey,
+      desktopEphemeralPublicKey: desktopEphemeral.publicKey,
+    };
+
+    const proof = crypto.deriveReconnectProof(input);
+
+    const desktopSecret = Buffer.concat([
+      x25519.getSharedSecret(
+        fromBase64(desktopEphemeral.privateKey),
+        fromBase64(deviceEphemeral.publicKey),
+      ),
+      x25519.getSharedSecret(fromBase64(desktopEphemeral.privateKey), fromBase64(device.publicKey)),
+      x25519.getSharedSecret(fromBase64(desktop.privateKey), fromBase64(deviceEphemeral.publicKey)),
+    ]);
+    const proofKey = hkdf(
+      sha256,
+      desktopSecret,
+      "",
+      "tapvolt-reconnect-proof-v3|device-a|nonce-1",
+      32,
+    );
+    const transcript = [
+      "tapvolt-reconnect-proof-v3",
+      "device-a",
+      "nonce-1",
+      device.publicKey,
+      deviceEphemeral.publicKey,
+      desktop.publicKey,
+      desktopEphemeral.publicKey,
+    ].join("|");
+
+    expect(proof).toBe(
+      Buffer.from(hmac(sha256, proofKey, `desktop|${transcript}`)).toString("base64"),
+    );
+    const impostor = crypto.deriveReconnectProof({
+      ...input,
+      desktopStaticPublicKey: crypto.generateKeyPair().publicKey,
+    });
+    expect(crypto.matchesProof(proof, impostor)).toBe(false);
+  });
+
+  it("derives a different key when the desktop static key does not match", () => {
+    const device = crypto.generateKeyPair();
+    const deviceEphemeral = crypto.generateKeyPair();
+    const desktopEphemeral = crypto.generateKeyPair();
+    const input = {
+      deviceId: "device-a",
+      sessionNonce: "nonce-1",
+      deviceStaticPrivateKey: device.privateKey,
+      deviceEphemeralPrivateKey: deviceEphemeral.privateKey,
+      desktopEphemeralPublicKey: desktopEphemeral.publicKey,
+    };
+
+    expect(
+      crypto.deriveSessionKey({ ...input, desktopStaticPublicKey: crypto.generateKeyPair().publicKey }),
+    ).not.toBe(
+      crypto.deriveSessionKey({ ...input, desktopStaticPublicKey: crypto.generateKeyPair().publicKey }),
+    );
+  });
+
+  it("rejects malformed public keys", () => {
+    const device = crypto.generateKeyPair();
+
+    expect(() =>
+      crypto.deriveSessionKey({
+        deviceId: "device-a",
+        sessionNonce: "nonce-1",
+        deviceStaticPrivateKey: device.privateKey,
+        deviceEphemeralPrivateKey: device.privateKey,
+        desktopStaticPublicKey: "c2hvcnQ=",
+        desktopEphemeralPublicKey: device.publicKey,
+      }),
+    ).toThrow(CRYPTO_ERRORS.INVALID_PUBLIC_KEY);
+  });
+});
@@ -1,63 +1,293 @@
+import { x25519 } from "@noble/curves/ed25519";
+import { hkdf } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha2";
+import { getRandomBytes } from "expo-crypto";
 import forge from "node-forge";
 
-const IV_LENGTH_BYTES = 16;
+const IV_LENGTH_BYTES = 12;
+const TAG_LENGTH_BITS = 128;
+const X25519_KEY_LENGTH_BYTES = 32;
+const SESSION_KEY_LENGTH_BYTES = 32;
+const SESSION_KEY_INFO = "tapvolt-session-v3";
+const PAIRING_PROOF_INFO = "tapvolt-pair-proof-v3";
+const RECONNECT_PROOF_INFO = "tapvolt-reconnect-proof-v3";
+
+export const ENVELOPE_VERSION = 2;
+
+// Binds the envelope version into the GCM tag so a frame cannot be relabelled.
+const ENVELOPE_AAD = `tapvolt-envelope-v${ENVELOPE_VERSION}`;
+
+export const CRYPTO_ERRORS = {
+  ENCRYPTION_FAILED: "Failed to encrypt payload.",
+  DECRYPTION_FAILED: "Failed to decrypt payload.",
+  TAMPERED_ENVELOPE: "Envelope authentication tag mismatch.",
+  INVALID_PUBLIC_KEY: "Peer public key is not a valid X25519 key.",
+  KEY_AGREEMENT_FAILED: "Failed to derive session key.",
+  RANDOM_UNAVAILABLE: "No secure random number generator is available.",
+} as const;
+
+/** Base64-encoded X25519 key pair. */
+export type KeyPair = {
+  publicKey: string;
+  privateKey: string;
+};
+
+export type SessionKeyInput = {
+  deviceId: string;
+  sessionNonce: string;
+  deviceStaticPrivateKey: string;
+  deviceEphemeralPrivateKey: string;
+  desktopStaticPublicKey: string;
+  desktopEphemeralPublicKey: string;
+  /** Present only for first-time pairing; binds the QR token into the key. */
+  pairingToken?: string;
+};
+
+/** Pairing derives its proofs from the same agreements; the token is required. */
+export type PairingProofInput = SessionKeyInput & {
+  pairingToken: string;
+};
+
+/** Base64 HMAC-SHA256 tags over the pairing transcript, one per side. */
+export type PairingProofs = {
+  device: string;
+  desktop: string;
+};
 
 export type EncryptedBlob = {
+  version: typeof ENVELOPE_VERSION;
   iv: string;
   encryptedPayload: string;
+  tag: string;
+};
+
+const binaryToBytes = (binary: string): Uint8Array => {
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+const bytesToBinary = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return binary;
+};
+
+const decodeKey = (base64Key: string): Uint8Array => {
+  const bytes = binaryToBytes(forge.util.decode64(base64Key));
+  if (bytes.length !== X25519_KEY_LENGTH_BYTES) {
+    throw new Error(CRYPTO_ERRORS.INVALID_PUBLIC_KEY);
+  }
+  return bytes;
 };
 
-const hashToHex = (value: string): string => {
-  const digest = forge.md.sha256.create();
-  digest.update(value, "utf8");
-  return digest.digest().toHex();
+const toBase64 = (bytes: Uint8Array): string => forge.util.encode64(bytesToBinary(bytes));
+
+const concatBytes = (...chunks: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+/**
+ * Keys and IVs come from the platform CSPRNG via expo-crypto. node-forge's own
+ * PRNG is never used: without `crypto.getRandomValues` (as on React Native) it
+ * seeds itself from `Math.random`, so a missing native module must throw.
+ */
+const secureRandomBytes = (length: number): Uint8Array => {
+  let bytes: Uint8Array;
+  try {
+    bytes = getRandomBytes(length);
+  } catch {
+    throw new Error(CRYPTO_ERRORS.RANDOM_UNAVAILABLE);
+  }
+  if (!(bytes instanceof Uint8Array) || bytes.length !== length) {
+    throw new Error(CRYPTO_ERRORS.RANDOM_UNAVAILABLE);
+  }
+  return bytes;
 };
 
+const utf8Bytes = (value: string): Uint8Array => binaryToBytes(forge.util.encodeUtf8(value));
+
+const DESKTOP_FINGERPRINT_LENGTH = 16;
+
 export class CryptoService {
-  deriveSessionKey(input: {
-    pairingToken: string;
-    sessionNonce: string;
-  }): string {
-    const base = `${input.pairingToken}${input.sessionNonce}`;
-    return hashToHex(base);
+  fingerprintPublicKey(publicKey: string): string {
+    const digest = forge.md.sha256.create();
+    digest.update(publicKey.trim(), "utf8");
+    return digest.digest().toHex().slice(0, DESKTOP_FINGERPRINT_LENGTH);
+  }
+
+  generateKeyPair(): KeyPair {
+    const privateKey = secureRandomBytes(X25519_KEY_LENGTH_BYTES);
+    return {
+      publicKey: forge.util.encode64(bytesToBinary(x25519.getPublicKey(privateKey))),
+      privateKey: forge.util.encode64(bytesToBinary(privateKey)),
+    };
+  }
+
+  /**
+   * Derives the hex AES-256 session key from three X25519 agreements:
+   * ephemeral/ephemeral, device static/desktop ephemeral and device
+   * ephemeral/desktop static. The desktop mirrors the same three agreements, so
+   * only the holders of both long-term keys end up with the same session key.
+   */
+  deriveSessionKey(input: SessionKeyInput): string {
+    const sessionKey = hkdf(
+      sha256,
+      this.agreeSharedSecret(input),
+      utf8Bytes(input.pairingToken ?? ""),
+      utf8Bytes(`${SESSION_KEY_INFO}|${input.deviceId}|${input.sessionNonce}`),
+      SESSION_KEY_LENGTH_BYTES,
+    );
+    return forge.util.bytesToHex(bytesToBinary(sessionKey));
+  }
+
+  /**
+   * Proves possession of the pairing token without sending it. The HMAC key is
+   * HKDF over the same three agreements with the token as salt, so a passive
+   * observer cannot test token guesses against it offline. Each side tags its
+   * role and the transcript: deviceId, session nonce, both static and both
+   * ephemeral public keys.
+   */
+  derivePairingProofs(input: PairingProofInput): PairingProofs {
+    const tag = this.createTranscriptTagger(PAIRING_PROOF_INFO, input.pairingToken, input);
+    return { device: tag("device"), desktop: tag("desktop") };
+  }
+
+  /**
+   * Key confirmation for a trusted reconnect. Same construction as the pairing
+   * proofs without a token, so only a desktop holding the pinned static key
+   * can produce the tag; the phone checks it before trusting the session.
+   */
+  deriveReconnectProof(input: SessionKeyInput): string {
+    return this.createTranscriptTagger(RECONNECT_PROOF_INFO, "", input)("desktop");
+  }
+
+  /** Compares base64 proofs without returning early on the first differing byte. */
+  matchesProof(expected: string, received: string): boolean {
+    if (expected.length !== received.length) {
+      return false;
+    }
+    let difference = 0;
+    for (let index = 0; index < expected.length; index += 1) {
+      difference |= expected.charCodeAt(index) ^ received.charCodeAt(index);
+    }
+    return difference === 0;
   }
 
   encryptJson(payload: unknown, sessionKeyHex: string): EncryptedBlob {
     const jsonPayload = JSON.stringify(payload);
     const keyBytes = forge.util.hexToBytes(sessionKeyHex);
-    const ivBytes = forge.random.getBytesSync(IV_LENGTH_BYTES);
-    const cipher = forge.cipher.createCipher("AES-CBC", keyBytes);
+    const ivBytes = bytesToBinary(secureRandomBytes(IV_LENGTH_BYTES));
+    const cipher = forge.cipher.createCipher("AES-GCM", keyBytes);
 
-    cipher.start({ iv: ivBytes });
+    cipher.start({
+      iv: ivBytes,
+      additionalData: ENVELOPE_AAD,
+      tagLength: TAG_LENGTH_BITS,
+    });
     cipher.update(forge.util.createBuffer(jsonPayload, "utf8"));
     const success = cipher.finish();
 
     if (!success) {
-      throw new Error("Failed to encrypt payload.");
+      throw new Error(CRYPTO_ERRORS.ENCRYPTION_FAILED);
     }
 
     return {
+      version: ENVELOPE_VERSION,
       iv: forge.util.encode64(ivBytes),
       encryptedPayload: forge.util.encode64(cipher.output.bytes()),
+      tag: forge.util.encode64(cipher.mode.tag.bytes()),
     };
   }
 
+  /**
+   * Throws `CRYPTO_ERRORS.TAMPERED_ENVELOPE` when the GCM tag does not verify and
+   * `CRYPTO_ERRORS.DECRYPTION_FAILED` for anything else that prevents decoding.
+   */
   decryptJson<T>(blob: EncryptedBlob, sessionKeyHex: string): T {
     const keyBytes = forge.util.hexToBytes(sessionKeyHex);
     const ivBytes = forge.util.decode64(blob.iv);
     const encryptedBytes = forge.util.decode64(blob.encryptedPayload);
-    const decipher = forge.cipher.createDecipher("AES-CBC", keyBytes);
+    const tagBytes = forge.util.decode64(blob.tag);
 
-    decipher.start({ iv: ivBytes });
+    if (ivBytes.length !== IV_LENGTH_BYTES || tagBytes.length !== TAG_LENGTH_BITS / 8) {
+      throw new Error(CRYPTO_ERRORS.TAMPERED_ENVELOPE);
+    }
+
+    const decipher = forge.cipher.createDecipher("AES-GCM", keyBytes);
+
+    decipher.start({
+      iv: ivBytes,
+      additionalData: ENVELOPE_AAD,
+      tagLength: TAG_LENGTH_BITS,
+      tag: forge.util.createBuffer(tagBytes),
+    });
     decipher.update(forge.util.createBuffer(encryptedBytes));
     const success = decipher.finish();
 
     if (!success) {
-      throw new Error("Failed to decrypt payload.");
+      throw new Error(CRYPTO_ERRORS.TAMPERED_ENVELOPE);
     }
 
-    const rawJson = decipher.output.bytes();
-    return JSON.parse(rawJson) as T;
+    try {
+      const rawJson = forge.util.decodeUtf8(decipher.output.bytes());
+      return JSON.parse(rawJson) as T;
+    } catch {
+      throw new Error(CRYPTO_ERRORS.DECRYPTION_FAILED);
+    }
+  }
+
+  /** HMAC-SHA256 over `role|transcript`, keyed by HKDF over the three agreements. */
+  private createTranscriptTagger(
+    info: string,
+    salt: string,
+    input: SessionKeyInput,
+  ): (role: keyof PairingProofs) => string {
+    const proofKey = hkdf(
+      sha256,
+      this.agreeSharedSecret(input),
+      utf8Bytes(salt),
+      utf8Bytes(`${info}|${input.deviceId}|${input.sessionNonce}`),
+      SESSION_KEY_LENGTH_BYTES,
+    );
+    const transcript = [
+      info,
+      input.deviceId,
+      input.sessionNonce,
+      toBase64(x25519.getPublicKey(decodeKey(input.deviceStaticPrivateKey))),
+      toBase64(x25519.getPublicKey(decodeKey(input.deviceEphemeralPrivateKey))),
+      input.desktopStaticPublicKey,
+      input.desktopEphemeralPublicKey,
+    ].join("|");
+    return (role) => toBase64(hmac(sha256, proofKey, utf8Bytes(`${role}|${transcript}`)));
+  }
+
+  private agreeSharedSecret(input: SessionKeyInput): Uint8Array {
+    const deviceStatic = decodeKey(input.deviceStaticPrivateKey);
+    const deviceEphemeral = decodeKey(input.deviceEphemeralPrivateKey);
+    const desktopStatic = decodeKey(input.desktopStaticPublicKey);
+    const desktopEphemeral = decodeKey(input.desktopEphemeralPublicKey);
+
+    try {
+      return concatBytes(
+        x25519.getSharedSecret(deviceEphemeral, desktopEphemeral),
+        x25519.getSharedSecret(deviceStatic, desktopEphemeral),
+        x25519.getSharedSecret(deviceEphemeral, desktopStatic),
+      );
+    } catch {
+      throw new Error(CRYPTO_ERRORS.KEY_AGREEMENT_FAILED);
+    }
   }
 }
 
@@ -0,0 +1,41 @@
+import * as SecureStore from "expo-secure-store";
+
+import { cryptoService, type KeyPair } from "./cryptoService";
+
+const DEVICE_KEY_PAIR_KEY = "tapvolt_device_key_pair";
+
+const parseKeyPair = (raw: string | null): KeyPair | null => {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      typeof (parsed as KeyPair).publicKey === "string" &&
+      typeof (parsed as KeyPair).privateKey === "string"
+    ) {
+      return parsed as KeyPair;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Long-term X25519 identity of this phone. It is created on first pairing and
+ * kept in the platform keystore; desktops pin its public key per device id.
+ */
+export async function getOrCreateDeviceKeyPair(): Promise<KeyPair> {
+  const existing = parseKeyPair(await SecureStore.getItemAsync(DEVICE_KEY_PAIR_KEY));
+  if (existing) {
+    return existing;
+  }
+
+  const created = cryptoService.generateKeyPair();
+  await SecureStore.setItemAsync(DEVICE_KEY_PAIR_KEY, JSON.stringify(created));
+  return created;
+}
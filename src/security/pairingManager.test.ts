@@ -1,7 +1,18 @@
+import { PAIRING_TOKEN_TTL_MS } from "../types/pairing";
 import {
+  PAIRING_ERRORS,
+  buildManualPairingPayload,
+  buildServerUrl,
   buildTrustedReconnectPayload,
+  ensurePinnedPairingSupported,
+  getPairingTokenRemainingMs,
+  describePairingLink,
+  parsePairingLink,
+  parsePairingPayload,
   parsePairingQrPayload,
+  setServerUrlScheme,
   validateTrustedDevice,
+  validateTrustedDevices,
 } from "./pairingManager";
 
 describe("pairingManager", () => {
@@ -15,12 +26,44 @@ describe("pairingManager", () => {
     );
 
     expect(parsed).toEqual({
+      version: 1,
       ip: "192.168.1.20",
       port: 8080,
       pairingToken: "abcdef1234567890",
+      issuedAt: null,
+      expiresAt: null,
+      certFingerprint: null,
     });
   });
 
+  it("enforces the pairing token TTL for versioned QR payloads", () => {
+    const issuedAt = 1_700_000_000_000;
+    const raw = JSON.stringify({
+      version: 2,
+      ip: "192.168.1.20",
+      port: 8080,
+      pairingToken: "abcdef1234567890",
+      issuedAt,
+    });
+
+    const parsed = parsePairingQrPayload(raw, issuedAt + 60_000);
+    expect(parsed.expiresAt).toBe(issuedAt + 5 * 60 * 1000);
+    expect(getPairingTokenRemainingMs(parsed.expiresAt, issuedAt + 60_000)).toBe(4 * 60 * 1000);
+
+    expect(() => parsePairingQrPayload(raw, issuedAt + 5 * 60 * 1000)).toThrow(
+      PAIRING_ERRORS.EXPIRED_QR,
+    );
+    expect(() =>
+      parsePairingQrPayload(
+        JSON.stringify({ ...JSON.parse(raw), expiresAt: issuedAt + 60 * 60 * 1000 }),
+        issuedAt,
+      ),
+    ).toThrow(PAIRING_ERRORS.INVALID_QR_TIMESTAMPS);
+    expect(() =>
+      parsePairingQrPayload(JSON.stringify({ ...JSON.parse(raw), version: 3 }), issuedAt),
+    ).toThrow(PAIRING_ERRORS.UNSUPPORTED_QR_VERSION);
+  });
+
   it("rejects expired-like or short token payload", () => {
     expect(() =>
       parsePairingQrPayload(
@@ -53,12 +96,134 @@ describe("pairingManager", () => {
     expect(first.pairingToken).not.toBe(second.pairingToken);
   });
 
+  it("builds pairing payloads from typed codes with QR validation rules", () => {
+    const now = 1_700_000_000_000;
+    const payload = buildManualPairingPayload(
+      { host: " 192.168.1.20 ", port: 8080, code: "k7qf-2m9o" },
+      now,
+    );
+    expect(payload).toEqual({
+      version: 2,
+      ip: "192.168.1.20",
+      port: 8080,
+      pairingToken: "K7QF2M90",
+      issuedAt: now,
+      expiresAt: now + PAIRING_TOKEN_TTL_MS,
+      certFingerprint: null,
+    });
+    // The typed code expires on the phone too, however long the desktop keeps it.
+    expect(getPairingTokenRemainingMs(payload.expiresAt, now + PAIRING_TOKEN_TTL_MS)).toBe(0);
+
+    expect(() =>
+      buildManualPairingPayload({ host: "192.168.1.20", port: 8080, code: "K7QF" }),
+    ).toThrow(PAIRING_ERRORS.INVALID_CODE);
+    expect(() =>
+      buildManualPairingPayload({ host: "192.168.1.20", port: 8080, code: "K7QF-2M9U" }),
+    ).toThrow(PAIRING_ERRORS.INVALID_CODE);
+    expect(() =>
+      buildManualPairingPayload({ host: "192.168.1.20", port: Number(""), code: "K7QF2M9X" }),
+    ).toThrow(PAIRING_ERRORS.INVALID_PORT);
+    expect(() =>
+      buildManualPairingPayload({ host: " ", port: 8080, code: "K7QF2M9X" }),
+    ).toThrow(PAIRING_ERRORS.INVALID_IP);
+  });
+
+  it("parses tapvolt://pair links with the QR validation rules", () => {
+    const issuedAt = 1_700_000_000_000;
+    const link = `tapvolt://pair?ip=192.168.1.20&port=8080&token=abcdef1234567890%3D&v=2&issuedAt=${issuedAt}`;
+
+    expect(parsePairingLink(link, issuedAt)).toEqual({
+      version: 2,
+      ip: "192.168.1.20",
+      port: 8080,
+      pairingToken: "abcdef1234567890=",
+      issuedAt,
+      expiresAt: issuedAt + 5 * 60 * 1000,
+      certFingerprint: null,
+    });
+    expect(parsePairingPayload(link, issuedAt).pairingToken).toBe("abcdef1234567890=");
+
+    expect(() => parsePairingLink(link, issuedAt + 10 * 60 * 1000)).toThrow(
+      PAIRING_ERRORS.EXPIRED_QR,
+    );
+    expect(() =>
+      parsePairingLink("tapvolt://pair?ip=192.168.1.20&port=80a&token=abcdef1234567890"),
+    ).toThrow(PAIRING_ERRORS.INVALID_PORT);
+    expect(() => parsePairingLink("tapvolt://pair?ip=192.168.1.20&port=8080")).toThrow(
+      PAIRING_ERRORS.INVALID_QR_SHAPE,
+    );
+    expect(() => parsePairingLink("tapvolt://settings?ip=192.168.1.20")).toThrow(
+      PAIRING_ERRORS.INVALID_LINK,
+    );
+  });
+
+  it("describes a pairing link's target before it is used", () => {
+    const link = "tapvolt://pair?ip=192.168.1.20&port=8080&token=abcdef1234567890";
+
+    expect(describePairingLink(`${link}&name=Studio%20PC`)).toEqual({
+      address: "192.168.1.20:8080",
+      name: "Studio PC",
+    });
+    expect(describePairingLink(`${link}&name=%20`)).toEqual({
+      address: "192.168.1.20:8080",
+      name: null,
+    });
+    expect(() => describePairingLink("tapvolt://pair?ip=192.168.1.20&port=8080")).toThrow(
+      PAIRING_ERRORS.INVALID_QR_SHAPE,
+    );
+  });
+
+  it("normalizes a pinned certificate fingerprint and pairs over wss", () => {
+    const hex = "ab".repeat(32);
+    const colons = hex.toUpperCase().match(/../g)?.join(":") ?? "";
+    const parsed = parsePairingQrPayload(
+      JSON.stringify({
+        ip: "192.168.1.20",
+        port: 8080,
+        pairingToken: "abcdef1234567890",
+        certFingerprint: colons,
+      }),
+    );
+
+    expect(parsed.certFingerprint).toBe(hex);
+    expect(buildServerUrl(parsed.ip, parsed.port, true)).toBe("wss://192.168.1.20:8080");
+    expect(setServerUrlScheme("ws://192.168.1.21:8080", true)).toBe("wss://192.168.1.21:8080");
+    expect(
+      parsePairingLink(
+        `tapvolt://pair?ip=192.168.1.20&port=8080&token=abcdef1234567890&cert=${hex}`,
+      ).certFingerprint,
+    ).toBe(hex);
+    expect(() =>
+      parsePairingQrPayload(
+        JSON.stringify({
+          ip: "192.168.1.20",
+          port: 8080,
+          pairingToken: "abcdef1234567890",
+          certFingerprint: "ab:cd",
+        }),
+      ),
+    ).toThrow(PAIRING_ERRORS.INVALID_CERT_FINGERPRINT);
+  });
+
+  it("refuses pinned pairing while the transport cannot pin", () => {
+    const link = "tapvolt://pair?ip=192.168.1.20&port=8080&token=abcdef1234567890";
+    const pinned = parsePairingLink(`${link}&cert=${"ab".repeat(32)}`);
+    const unpinned = parsePairingLink(link);
+
+    expect(() => ensurePinnedPairingSupported(pinned, false)).toThrow(
+      PAIRING_ERRORS.PINNED_PAIRING_UNAVAILABLE,
+    );
+    expect(ensurePinnedPairingSupported(pinned, true)).toBe(pinned);
+    expect(ensurePinnedPairingSupported(unpinned, false)).toBe(unpinned);
+  });
+
   it("rejects untrusted device records", () => {
     const trusted = validateTrustedDevice({
       deviceId: "device-a",
       serverUrl: "ws://127.0.0.1:8080",
       trusted: true,
       pairedAt: Date.now(),
+      desktopPublicKey: "desktop-public-key",
     });
 
     const untrusted = validateTrustedDevice({
@@ -66,17 +231,50 @@ describe("pairingManager", () => {
       serverUrl: "ws://127.0.0.1:8080",
       trusted: false,
       pairedAt: Date.now(),
+      desktopPublicKey: "desktop-public-key",
+    });
+
+    const unpinned = validateTrustedDevice({
+      deviceId: "device-a",
+      serverUrl: "ws://127.0.0.1:8080",
+      trusted: true,
+      pairedAt: Date.now(),
     });
 
     expect(trusted).not.toBeNull();
     expect(untrusted).toBeNull();
+    expect(unpinned).toBeNull();
+  });
+
+  it("keeps one entry per desktop when loading trusted device lists", () => {
+    const record = {
+      deviceId: "device-a",
+      serverUrl: "192.168.1.20:8080",
+      trusted: true,
+      pairedAt: 1,
+      desktopPublicKey: "desktop-public-key",
+    };
+
+    const devices = validateTrustedDevices([
+      record,
+      { ...record, serverUrl: "192.168.1.21:8080" },
+      { ...record, desktopPublicKey: "other-desktop-key", name: "Home" },
+      { ...record, trusted: false },
+    ]);
+
+    expect(devices.length).toBe(2);
+    expect(devices[0].name).toBe("192.168.1.20");
+    expect(devices[0].serverUrl).toBe("ws://192.168.1.20:8080");
+    expect(devices[0].lastConnectedAt).toBeNull();
+    expect(devices[1].name).toBe("Home");
   });
 
   it("builds trusted reconnect payload", () => {
-    const payload = buildTrustedReconnectPayload("device-x");
+    const payload = buildTrustedReconnectPayload("device-x", "ephemeral-key");
     expect(payload).toEqual({
       deviceId: "device-x",
-      protocolVersion: "2.0",
+      ephemeralPublicKey: "ephemeral-key",
+      protocolVersion: "3.2",
     });
   });
 });
@@ -1,11 +1,25 @@
-import type {
-  PairingQrPayload,
-  StoredTrustedDevice,
-  TrustedReconnectPayload,
+import {
+  PAIRING_QR_VERSION,
+  PAIRING_TOKEN_TTL_MS,
+  type PairingQrPayload,
+  type StoredTrustedDevice,
+  type TrustedReconnectPayload,
 } from "../types/pairing";
+import { PROTOCOL_VERSION } from "../types/protocol";
+import { cryptoService } from "./cryptoService";
 
 const WS_PROTOCOL_PREFIX = "ws://";
 const WSS_PROTOCOL_PREFIX = "wss://";
+export const PAIRING_LINK_PREFIX = "tapvolt://pair";
+const LEGACY_QR_VERSION = 1;
+const MIN_PAIRING_TOKEN_LENGTH = 16;
+const PAIRING_CODE_LENGTH = 8;
+// Crockford base32: no I, L, O or U, so codes survive being read aloud.
+const PAIRING_CODE_PATTERN = /^[0-9A-HJKMNP-TV-Z]+$/;
+// Tolerates small clock drift between phone and desktop for `issuedAt`.
+const MAX_CLOCK_SKEW_MS = 30_000;
+const CERT_FINGERPRINT_PATTERN = /^[0-9a-f]{64}$/;
+const MAX_LINK_NAME_LENGTH = 64;
 
 export const PAIRING_ERRORS = {
   INVALID_QR_JSON: "Invalid QR payload JSON.",
@@ -13,6 +27,15 @@ export const PAIRING_ERRORS = {
   INVALID_IP: "QR payload has invalid IP or host.",
   INVALID_PORT: "QR payload has invalid port.",
   INVALID_TOKEN: "QR payload has invalid pairing token.",
+  INVALID_CERT_FINGERPRINT: "QR payload has an invalid certificate fingerprint.",
+  PINNED_PAIRING_UNAVAILABLE:
+    "This desktop requires a pinned TLS certificate, which this device cannot verify. " +
+    "Pair with a QR code or link without a certificate fingerprint.",
+  UNSUPPORTED_QR_VERSION: "QR payload version is not supported. Update TapVolt.",
+  INVALID_QR_TIMESTAMPS: "QR payload has invalid issuedAt or expiresAt.",
+  EXPIRED_QR: "Pairing QR code has expired. Generate a new one on the desktop.",
+  INVALID_CODE: "Pairing code must be 8 letters or digits as shown on the desktop.",
+  INVALID_LINK: "Pairing link must look like tapvolt://pair?ip=…&port=…&token=….",
   TRUSTED_DEVICE_MISSING: "Trusted device record is missing required fields.",
   TRUSTED_DEVICE_UNTRUSTED: "Trusted device record is not marked as trusted.",
 } as const;
@@ -25,6 +48,9 @@ const isValidHost = (value: string): boolean => {
   return trimmed.length > 0 && !trimmed.includes(" ");
 };
 
+const isOptionalString = (value: unknown): value is string | undefined =>
+  value === undefined || typeof value === "string";
+
 const normalizeUrl = (value: string): string => {
   const trimmed = value.trim();
   if (trimmed.startsWith(WS_PROTOCOL_PREFIX) || trimmed.startsWith(WSS_PROTOCOL_PREFIX)) {
@@ -34,32 +60,98 @@ const normalizeUrl = (value: string): string => {
   return `${WS_PROTOCOL_PREFIX}${trimmed}`;
 };
 
-export const buildServerUrl = (ip: string, port: number): string => {
+export const buildServerUrl = (ip: string, port: number, secure = false): string => {
   const normalizedIp = ip.trim();
-  return `${WS_PROTOCOL_PREFIX}${normalizedIp}:${port}`;
+  return `${secure ? WSS_PROTOCOL_PREFIX : WS_PROTOCOL_PREFIX}${normalizedIp}:${port}`;
 };
 
-export const parsePairingQrPayload = (raw: string): PairingQrPayload => {
-  let parsed: unknown;
+/** Rewrites the scheme, e.g. to keep a pinned desktop on `wss://` after discovery saw a new address. */
+export const setServerUrlScheme = (serverUrl: string, secure: boolean): string => {
+  const address = normalizeUrl(serverUrl).replace(/^wss?:\/\//, "");
+  return `${secure ? WSS_PROTOCOL_PREFIX : WS_PROTOCOL_PREFIX}${address}`;
+};
 
-  try {
-    parsed = JSON.parse(raw) as unknown;
-  } catch {
-    throw new Error(PAIRING_ERRORS.INVALID_QR_JSON);
+export const isSecureServerUrl = (serverUrl: string): boolean =>
+  serverUrl.trim().startsWith(WSS_PROTOCOL_PREFIX);
+
+/**
+ * Accepts the hex SHA-256 fingerprint with or without `:` separators (as
+ * `openssl x509 -fingerprint` prints it) and returns it lowercase without
+ * separators, or null if it is not 32 bytes of hex.
+ */
+export const normalizeCertFingerprint = (value: string): string | null => {
+  const normalized = value.replace(/[\s:]/g, "").toLowerCase();
+  return CERT_FINGERPRINT_PATTERN.test(normalized) ? normalized : null;
+};
+
+const parseCertFingerprint = (value: unknown): string | null => {
+  if (value === undefined || value === null) {
+    return null;
   }
 
-  if (!isRecord(parsed)) {
-    throw new Error(PAIRING_ERRORS.INVALID_QR_SHAPE);
+  const fingerprint = typeof value === "string" ? normalizeCertFingerprint(value) : null;
+  if (!fingerprint) {
+    throw new Error(PAIRING_ERRORS.INVALID_CERT_FINGERPRINT);
   }
+  return fingerprint;
+};
+
+export const buildTrustedDeviceName = (serverUrl: string): string => {
+  const host = serverUrl.replace(/^wss?:\/\//, "").split(":")[0];
+  return host.length > 0 ? host : "Desktop";
+};
 
-  const ip = parsed.ip;
-  const port = parsed.port;
-  const pairingToken = parsed.pairingToken;
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
 
-  if (typeof ip !== "string" || typeof port !== "number" || typeof pairingToken !== "string") {
-    throw new Error(PAIRING_ERRORS.INVALID_QR_SHAPE);
+const parseQrValidity = (
+  record: Record<string, unknown>,
+  now: number,
+): Pick<PairingQrPayload, "version" | "issuedAt" | "expiresAt"> => {
+  const version = record.version ?? LEGACY_QR_VERSION;
+
+  if (version === LEGACY_QR_VERSION) {
+    return { version: LEGACY_QR_VERSION, issuedAt: null, expiresAt: null };
+  }
+
+  if (version !== PAIRING_QR_VERSION) {
+    throw new Error(PAIRING_ERRORS.UNSUPPORTED_QR_VERSION);
+  }
+
+  const issuedAt = record.issuedAt;
+  const expiresAt =
+    record.expiresAt ?? (isTimestamp(issuedAt) ? issuedAt + PAIRING_TOKEN_TTL_MS : null);
+
+  if (
+    !isTimestamp(issuedAt) ||
+    !isTimestamp(expiresAt) ||
+    expiresAt <= issuedAt ||
+    expiresAt - issuedAt > PAIRING_TOKEN_TTL_MS ||
+    issuedAt > now + MAX_CLOCK_SKEW_MS
+  ) {
+    throw new Error(PAIRING_ERRORS.INVALID_QR_TIMESTAMPS);
+  }
+
+  if (expiresAt <= now) {
+    throw new Error(PAIRING_ERRORS.EXPIRED_QR);
+  }
+
+  return { version: PAIRING_QR_VERSION, issuedAt, expiresAt };
+};
+
+/** Milliseconds until the QR token expires, or null for unversioned QR codes. */
+export const getPairingTokenRemainingMs = (
+  expiresAt: number | null,
+  now: number = Date.now(),
+): number | null => {
+  if (expiresAt === null) {
+    return null;
   }
 
+  return Math.max(0, expiresAt - now);
+};
+
+const assertValidPairingTarget = (ip: string, port: number): void => {
   if (!isValidHost(ip)) {
     throw new Error(PAIRING_ERRORS.INVALID_IP);
   }
@@ -67,15 +159,194 @@ export const parsePairingQrPayload = (raw: string): PairingQrPayload => {
   if (!Number.isInteger(port) || port < 1 || port > 65535) {
     throw new Error(PAIRING_ERRORS.INVALID_PORT);
   }
+};
+
+/** Uppercases and strips separators; maps look-alike letters to their digits. */
+export const normalizePairingCode = (code: string): string =>
+  code
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+
+const parsePairingRecord = (
+  record: Record<string, unknown>,
+  now: number,
+): PairingQrPayload => {
+  const ip = record.ip;
+  const port = record.port;
+  const pairingToken = record.pairingToken;
+
+  if (typeof ip !== "string" || typeof port !== "number" || typeof pairingToken !== "string") {
+    throw new Error(PAIRING_ERRORS.INVALID_QR_SHAPE);
+  }
 
-  if (pairingToken.trim().length < 16) {
+  assertValidPairingTarget(ip, port);
+
+  if (pairingToken.trim().length < MIN_PAIRING_TOKEN_LENGTH) {
     throw new Error(PAIRING_ERRORS.INVALID_TOKEN);
   }
 
+  const validity = parseQrValidity(record, now);
+  const certFingerprint = parseCertFingerprint(record.certFingerprint);
+
   return {
+    version: validity.version,
     ip: ip.trim(),
     port,
     pairingToken: pairingToken.trim(),
+    issuedAt: validity.issuedAt,
+    expiresAt: validity.expiresAt,
+    certFingerprint,
+  };
+};
+
+export const parsePairingQrPayload = (
+  raw: string,
+  now: number = Date.now(),
+): PairingQrPayload => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch {
+    throw new Error(PAIRING_ERRORS.INVALID_QR_JSON);
+  }
+
+  if (!isRecord(parsed)) {
+    throw new Error(PAIRING_ERRORS.INVALID_QR_SHAPE);
+  }
+
+  return parsePairingRecord(parsed, now);
+};
+
+const toLinkNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return /^\d+$/.test(value) ? Number(value) : Number.NaN;
+};
+
+const readPairingLinkParams = (url: string): Record<string, string> => {
+  const trimmed = url.trim();
+  const queryStart = trimmed.indexOf("?");
+  const path = queryStart === -1 ? trimmed : trimmed.slice(0, queryStart);
+  const query = queryStart === -1 ? "" : trimmed.slice(queryStart + 1);
+  if (path.replace(/\/+$/, "").toLowerCase() !== PAIRING_LINK_PREFIX) {
+    throw new Error(PAIRING_ERRORS.INVALID_LINK);
+  }
+
+  // React Native's URLSearchParams lacks lookups, so the query is split by hand.
+  const params: Record<string, string> = {};
+  try {
+    for (const pair of query.split("&")) {
+      const separator = pair.indexOf("=");
+      const key = separator === -1 ? pair : pair.slice(0, separator);
+      const value = separator === -1 ? "" : pair.slice(separator + 1);
+      if (key.length > 0) {
+        params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, " "));
+      }
+    }
+  } catch {
+    throw new Error(PAIRING_ERRORS.INVALID_LINK);
+  }
+  return params;
+};
+
+/**
+ * Parses `tapvolt://pair?ip=…&port=…&token=…[&v=2&issuedAt=…&expiresAt=…][&cert=…]`
+ * with the same rules as `parsePairingQrPayload`.
+ */
+export const parsePairingLink = (url: string, now: number = Date.now()): PairingQrPayload => {
+  const params = readPairingLinkParams(url);
+  return parsePairingRecord(
+    {
+      ip: params.ip,
+      port: toLinkNumber(params.port),
+      pairingToken: params.token,
+      version: toLinkNumber(params.v),
+      issuedAt: toLinkNumber(params.issuedAt),
+      expiresAt: toLinkNumber(params.expiresAt),
+      certFingerprint: params.cert,
+    },
+    now,
+  );
+};
+
+/**
+ * What the Pair screen shows before pairing from a link: any page or app can
+ * open one, so the user confirms the target first. `name` is the optional
+ * `name=` parameter; the desktop chose it and nothing verifies it.
+ */
+export const describePairingLink = (
+  url: string,
+  now: number = Date.now(),
+): { address: string; name: string | null } => {
+  const payload = parsePairingLink(url, now);
+  const name = (readPairingLinkParams(url).name ?? "").trim().slice(0, MAX_LINK_NAME_LENGTH);
+  return {
+    address: `${payload.ip}:${payload.port}`,
+    name: name.length > 0 ? name : null,
+  };
+};
+
+/** Accepts either a JSON QR payload or a `tapvolt://pair` link (QR codes may carry either). */
+export const parsePairingPayload = (raw: string, now: number = Date.now()): PairingQrPayload =>
+  raw.trim().toLowerCase().startsWith(PAIRING_LINK_PREFIX)
+    ? parsePairingLink(raw, now)
+    : parsePairingQrPayload(raw, now);
+
+/**
+ * Pinned pairing is refused where the transport cannot check the certificate:
+ * otherwise the pin is accepted and every connection then fails closed.
+ */
+export const ensurePinnedPairingSupported = (
+  payload: PairingQrPayload,
+  canPinCertificates: boolean,
+): PairingQrPayload => {
+  if (payload.certFingerprint !== null && !canPinCertificates) {
+    throw new Error(PAIRING_ERRORS.PINNED_PAIRING_UNAVAILABLE);
+  }
+  return payload;
+};
+
+/**
+ * Builds the payload `connectWithPairingQr` expects from a code typed off the
+ * desktop screen. A code is only about 40 bits, used as the pairing token
+ * unstretched. The desktop's attempt limit (`PAIRING_CODE_MAX_ATTEMPTS`) only
+ * stops online guessing. The phone proves first, so a fake desktop at the
+ * typed host:port gets one `PAIR_CONFIRM` proof and can brute-force the code
+ * offline well within its lifetime, then pair its own device with the real
+ * desktop. Closing that needs a PAKE (SPAKE2 or CPace) in the protocol; until
+ * then, a typed code is only as safe as the network it is typed on, and QR
+ * or link pairing should be preferred. The phone cannot tell when the code
+ * was shown, so it starts the `PAIRING_TOKEN_TTL_MS` window at entry and
+ * stops retrying once it ends.
+ */
+export const buildManualPairingPayload = (
+  input: {
+    host: string;
+    port: number;
+    code: string;
+  },
+  now: number = Date.now(),
+): PairingQrPayload => {
+  assertValidPairingTarget(input.host, input.port);
+
+  const pairingToken = normalizePairingCode(input.code);
+  if (pairingToken.length !== PAIRING_CODE_LENGTH || !PAIRING_CODE_PATTERN.test(pairingToken)) {
+    throw new Error(PAIRING_ERRORS.INVALID_CODE);
+  }
+
+  return {
+    version: PAIRING_QR_VERSION,
+    ip: input.host.trim(),
+    port: input.port,
+    pairingToken,
+    issuedAt: now,
+    expiresAt: now + PAIRING_TOKEN_TTL_MS,
+    certFingerprint: null,
   };
 };
 
@@ -90,25 +361,65 @@ export const validateTrustedDevice = (raw: unknown): StoredTrustedDevice | null
     typeof raw.serverUrl !== "string" ||
     raw.serverUrl.trim().length === 0 ||
     raw.trusted !== true ||
-    typeof raw.pairedAt !== "number"
+    typeof raw.pairedAt !== "number" ||
+    typeof raw.desktopPublicKey !== "string" ||
+    raw.desktopPublicKey.trim().length === 0 ||
+    !isOptionalString(raw.id) ||
+    !isOptionalString(raw.name) ||
+    !isOptionalString(raw.certFingerprint ?? undefined)
   ) {
     return null;
   }
 
+  // A corrupted pin must not silently downgrade the desktop to an unpinned one.
+  const certFingerprint =
+    typeof raw.certFingerprint === "string" ? normalizeCertFingerprint(raw.certFingerprint) : null;
+  if (typeof raw.certFingerprint === "string" && !certFingerprint) {
+    return null;
+  }
+
+  const serverUrl = normalizeUrl(raw.serverUrl);
+  const desktopPublicKey = raw.desktopPublicKey.trim();
+  const id = raw.id?.trim() || cryptoService.fingerprintPublicKey(desktopPublicKey);
+  const name = raw.name?.trim() || buildTrustedDeviceName(serverUrl);
+
   return {
+    id,
+    name,
     deviceId: raw.deviceId.trim(),
-    serverUrl: normalizeUrl(raw.serverUrl),
+    serverUrl,
     trusted: true,
     pairedAt: raw.pairedAt,
+    lastConnectedAt: typeof raw.lastConnectedAt === "number" ? raw.lastConnectedAt : null,
+    desktopPublicKey,
+    certFingerprint,
   };
 };
 
+export const validateTrustedDevices = (raw: unknown): StoredTrustedDevice[] => {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const devices: StoredTrustedDevice[] = [];
+  for (const entry of raw) {
+    const device = validateTrustedDevice(entry);
+    if (device && !devices.some((item) => item.id === device.id)) {
+      devices.push(device);
+    }
+  }
+
+  return devices;
+};
+
 export const buildTrustedReconnectPayload = (
   deviceId: string,
+  ephemeralPublicKey: string,
 ): TrustedReconnectPayload => {
   return {
     deviceId,
-    protocolVersion: "2.0",
+    ephemeralPublicKey,
+    protocolVersion: PROTOCOL_VERSION,
   };
 };
 
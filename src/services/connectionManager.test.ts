@@ -0,0 +1,557 @@
+import { CRYPTO_ERRORS, cryptoService, type KeyPair } from "../security/cryptoService";
+import { getOrCreateDeviceKeyPair } from "../security/deviceKeyPair";
+import type { ConnectionPolicy } from "../types/connectionPolicy";
+import type { LinkQuality } from "../types/linkQuality";
+import type { PointerStep } from "../types/protocol";
+import { DEFAULT_DESKTOP_CAPABILITIES } from "../utils/desktopCapabilities";
+import { LATENCY_PROBE_INTERVAL_MS } from "../utils/linkQuality";
+import {
+  ConnectionManager,
+  ConnectionState,
+  DROPPED_ACTION_ERRORS,
+  type AuthenticatedSession,
+  type ExecutionResult,
+} from "./connectionManager";
+import { FakeDesktop } from "./fakeDesktop";
+import { logger } from "./logger";
+
+const mockAppStateListeners: ((state: string) => void)[] = [];
+
+jest.mock("react-native", () => ({
+  AppState: {
+    currentState: "active",
+    addEventListener: (_event: string, listener: (state: string) => void) => {
+      mockAppStateListeners.push(listener);
+      return { remove: () => {} };
+    },
+  },
+}));
+
+jest.mock("../utils/deviceId", () => ({
+  getOrCreateDeviceId: async () => "device-test",
+}));
+
+jest.mock("../security/deviceKeyPair", () => {
+  const { cryptoService } = jest.requireActual<{
+    cryptoService: { generateKeyPair: () => KeyPair };
+  }>("../security/cryptoService");
+  const keyPair = cryptoService.generateKeyPair();
+  return { getOrCreateDeviceKeyPair: async () => keyPair };
+});
+
+const DEVICE_ID = "device-test";
+const PAIRING_TOKEN = "token-value-12345";
+
+const TEST_POLICY: ConnectionPolicy = {
+  maxReconnectAttempts: 3,
+  maxReconnectDelayMs: 4_000,
+  heartbeatTimeoutMs: 5_000,
+  actionTimeoutMs: 2_000,
+  requireTlsForPinned: true,
+};
+
+const createHarness = (desktop = new FakeDesktop({ pairingToken: PAIRING_TOKEN })) => {
+  const manager = new ConnectionManager(desktop, TEST_POLICY);
+  const states: ConnectionState[] = [];
+  const errors: { code: string; message: string }[] = [];
+  const sessions: AuthenticatedSession[] = [];
+  const results: ExecutionResult[] = [];
+  const authFailures: (string | null)[] = [];
+  const linkQualities: LinkQuality[] = [];
+
+  manager.setCallbacks({
+    onStateChange: (state) => states.push(state),
+    onError: (error) => errors.push(error),
+    onAuthSuccess: (session) => sessions.push(session),
+    onAuthFailure: (desktopPublicKey) => authFailures.push(desktopPublicKey),
+    onActionResult: (result) => results.push(result),
+    onLinkQuality: (quality) => linkQualities.push(quality),
+  });
+
+  return { desktop, manager, states, errors, sessions, results, authFailures, linkQualities };
+};
+
+/** Lets queued frames and the async handshake run without moving the clock far. */
+const settle = () => jest.advanceTimersByTimeAsync(1);
+
+const connectTrusted = async (harness: ReturnType<typeof createHarness>) => {
+  const devicePublicKey = (await getOrCreateDeviceKeyPair()).publicKey;
+  harness.desktop.trustDevice(DEVICE_ID, devicePublicKey);
+  harness.manager.connect("192.168.1.20:8080", harness.desktop.keyPair.publicKey);
+  await settle();
+};
+
+describe("connectionManager over a fake desktop", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    logger.setConsoleLevel(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    logger.setConsoleLevel("debug");
+  });
+
+  it("pairs from a QR code and round-trips an encrypted action", async () => {
+    const harness = createHarness();
+
+    harness.manager.connectWithPairingQr({
+      version: 2,
+      ip: "192.168.1.20",
+      port: 8080,
+      pairingToken: PAIRING_TOKEN,
+      issuedAt: null,
+      expiresAt: null,
+      certFingerprint: null,
+    });
+    await settle();
+
+    expect(harness.sessions.map((session) => session.mode)).toEqual(["pairing"]);
+    expect(harness.manager.isSecureSessionActive()).toBe(true);
+
+    const actionId = harness.manager.sendMacro([{ type: "key", key: "enter" }]);
+    await settle();
+
+    expect(harness.desktop.received.map((frame) => [frame.type, frame.seq])).toEqual([
+      ["PAIR_REQUEST", undefined],
+      ["PAIR_CONFIRM", undefined],
+      ["EXECUTE_ACTION", 1],
+    ]);
+    expect(JSON.stringify(harness.desktop.plaintext).includes(PAIRING_TOKEN)).toBe(false);
+    expect(harness.results).toEqual([{ id: actionId, status: "success", executionTime: 5 }]);
+    expect(harness.errors).toEqual([]);
+  });
+
+  it("pairs only when both sides prove the token and stops on a forged desktop proof", async () => {
+    const harness = createHarness();
+
+    harness.manager.connectWithPairingQr({
+      version: 2,
+      ip: "192.168.1.20",
+      port: 8080,
+      pairingToken: "token-value-wrong",
+      issuedAt: null,
+      expiresAt: null,
+      certFingerprint: null,
+    });
+    await settle();
+
+    // The desktop rejects the device's proof and keeps its token unused.
+    expect(harness.errors.map((error) => error.code)).toEqual(["PAIRING_PROOF_INVALID"]);
+    expect(harness.sessions).toEqual([]);
+
+    // A PAIR_SUCCESS that cannot prove the token is refused for good.
+    harness.desktop.sendPlaintext({ type: "PAIR_SUCCESS", payload: { pairingProof: "forged" } });
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    expect(harness.errors.map((error) => error.code)).toEqual([
+      "PAIRING_PROOF_INVALID",
+      "PAIRING_PROOF_MISMATCH",
+    ]);
+    expect(harness.sessions).toEqual([]);
+    expect(harness.manager.getState()).toBe(ConnectionState.ERROR);
+    expect(harness.desktop.connectAttempts.length).toBe(1);
+  });
+
+  it("reports a trusted reconnect from an unknown device as an auth failure", async () => {
+    const harness = createHarness();
+
+    harness.manager.connect("192.168.1.20:8080", harness.desktop.keyPair.publicKey);
+    await settle();
+
+    expect(harness.authFailures).toEqual([harness.desktop.keyPair.publicKey]);
+    expect(harness.manager.isSecureSessionActive()).toBe(false);
+  });
+
+  it("fails closed when the desktop cannot prove the pinned key on reconnect", async () => {
+    const harness = createHarness();
+    harness.desktop.trustDevice(DEVICE_ID, (await getOrCreateDeviceKeyPair()).publicKey);
+
+    // The host answers and trusts the device, but holds a different static key.
+    harness.manager.connect("192.168.1.20:8080", cryptoService.generateKeyPair().publicKey);
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    expect(harness.errors.map((error) => error.code)).toEqual(["RECONNECT_PROOF_MISMATCH"]);
+    expect(harness.sessions).toEqual([]);
+    expect(harness.manager.isSecureSessionActive()).toBe(false);
+    expect(harness.manager.getState()).toBe(ConnectionState.ERROR);
+    expect(harness.desktop.connectAttempts.length).toBe(1);
+  });
+
+  it("fails closed when no secure random source can generate handshake keys", async () => {
+    const harness = createHarness();
+    jest.spyOn(cryptoService, "generateKeyPair").mockImplementation(() => {
+      throw new Error(CRYPTO_ERRORS.RANDOM_UNAVAILABLE);
+    });
+
+    await connectTrusted(harness);
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    expect(harness.errors.map((error) => error.code)).toEqual(["RANDOM_UNAVAILABLE"]);
+    expect(harness.manager.getState()).toBe(ConnectionState.ERROR);
+    expect(harness.desktop.connectAttempts.length).toBe(1);
+    expect(harness.desktop.received).toEqual([]);
+  });
+
+  it("backs off between reconnect attempts and gives up at the policy limit", async () => {
+    const harness = createHarness();
+    await connectTrusted(harness);
+
+    harness.desktop.reachable = false;
+    harness.desktop.drop();
+    const droppedAt = Date.now();
+    await settle();
+
+    await jest.advanceTimersByTimeAsync(998);
+    expect(harness.desktop.connectAttempts.length).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(7_000);
+    expect(harness.desktop.connectAttempts.slice(1).map((at) => at - droppedAt)).toEqual([
+      1_000, 3_000, 7_000,
+    ]);
+    expect(harness.manager.getState()).toBe(ConnectionState.ERROR);
+    expect(harness.errors[harness.errors.length - 1].message).toBe(
+      "Reconnect failed after 3 attempts.",
+    );
+  });
+
+  it("reconnects after a heartbeat timeout but stays up while pings arrive", async () => {
+    const harness = createHarness();
+    await connectTrusted(harness);
+
+    for (let second = 0; second < 8; second += 1) {
+      harness.desktop.ping();
+      await jest.advanceTimersByTimeAsync(1_000);
+    }
+    expect(harness.manager.getState()).toBe(ConnectionState.CONNECTED);
+    expect(harness.desktop.received.filter((frame) => frame.type === "PONG").length).toBe(8);
+
+    // Silence long enough for the check to fire, then one backoff step to reconnect.
+    await jest.advanceTimersByTimeAsync(TEST_POLICY.heartbeatTimeoutMs + 2_000);
+    expect(harness.errors.map((error) => error.message)).toEqual([
+      "Heartbeat timeout. Reconnecting.",
+    ]);
+    expect(harness.states.slice(2)).toEqual([
+      ConnectionState.RECONNECTING,
+      ConnectionState.RECONNECTING,
+      ConnectionState.CONNECTED,
+    ]);
+    expect(harness.sessions.map((session) => session.mode)).toEqual(["trusted", "trusted"]);
+  });
+
+  it("records state reasons, heartbeat gaps and errors for diagnostics", async () => {
+    const harness = createHarness();
+    await connectTrusted(harness);
+
+    harness.desktop.ping();
+    await jest.advanceTimersByTimeAsync(2_000);
+    harness.desktop.ping();
+    await settle();
+    harness.desktop.drop();
+    await settle();
+
+    const diagnostics = harness.manager.getDiagnostics();
+    // The first gap runs from socket open to the first PING.
+    expect(diagnostics.heartbeatGapsMs.slice(1)).toEqual([2_000]);
+    expect(diagnostics.transitions.map(({ to, reason }) => [to, reason])).toEqual([
+      [ConnectionState.CONNECTING, "Trusted reconnect requested"],
+      [ConnectionState.CONNECTED, "Socket open"],
+      [ConnectionState.RECONNECTING, "Socket closed; retrying in 1000 ms"],
+    ]);
+    expect(diagnostics.transitions[2].reconnectAttempt).toBe(1);
+
+    harness.desktop.sendError("COMMAND_EXECUTION_DISABLED");
+    await jest.advanceTimersByTimeAsync(1_000);
+    harness.desktop.sendError("COMMAND_EXECUTION_DISABLED");
+    await settle();
+    expect(harness.manager.getDiagnostics().errors.map((error) => error.code)).toEqual([
+      "COMMAND_EXECUTION_DISABLED",
+    ]);
+  });
+
+  it("follows a trusted desktop to a new address and ignores other desktops", async () => {
+    const harness = createHarness();
+    await connectTrusted(harness);
+    const desktopPublicKey = harness.desktop.keyPair.publicKey;
+    harness.desktop.reachable = false;
+    harness.desktop.drop();
+    await settle();
+
+    harness.manager.updateTrustedAddress("someone-else", "ws://10.0.0.9:8080");
+    expect(harness.manager.getDiagnostics().targetUrl).toBe("ws://192.168.1.20:8080");
+
+    harness.desktop.reachable = true;
+    harness.manager.updateTrustedAddress(desktopPublicKey, "ws://192.168.1.30:8080");
+    await settle();
+
+    // The pending backoff is skipped: the new address is tried right away.
+    expect(harness.desktop.connectAttempts.length).toBe(2);
+    expect(harness.manager.getDiagnostics().targetUrl).toBe("ws://192.168.1.30:8080");
+    expect(harness.manager.isSecureSessionActive()).toBe(true);
+    expect(harness.sessions[1].serverUrl).toBe("ws://192.168.1.30:8080");
+  });
+
+  it("rejects plaintext frames and surfaces mapped desktop errors once secured", async () => {
+    const harness = createHarness();
+    await connectTrusted(harness);
+
+    harness.desktop.sendPlaintext({ type: "PING" });
+    harness.desktop.sendError("COMMAND_EXECUTION_DISABLED");
+    await settle();
+
+    expect(harness.errors).toEqual([
+      {
+        code: "PLAINTEXT_MESSAGE_REJECTED",
+        message: "Plaintext messages are rejected after secure pairing.",
+      },
+      {
+        code: "COMMAND_EXECUTION_DISABLED",
+        message: "Terminal commands are disabled on the desktop.",
+      },
+    ]);
+    expect(harness.desktop.received.map((frame) => frame.type)).toEqual(["TRUSTED_RECONNECT"]);
+  });
+
+  it("drops replayed, reordered and unsequenced frames from the desktop", async () => {
+    const harness = createHarness();
+    await connectTrusted(harness);
+    const pongCount = () =>
+      harness.desktop.received.filter((frame) => frame.type === "PONG").length;
+
+    harness.desktop.ping();
+    await settle();
+    harness.desktop.replayLastFrame();
+    harness.desktop.sendWithSequence({ type: "PING", timestamp: Date.now() }, 1);
+    harness.desktop.sendWithSequence({ type: "PING", timestamp: Date.now() }, undefined);
+    await settle();
+
+    expect(pongCount()).toBe(1);
+    expect(harness.errors.map((error) => error.code)).toEqual([
+      "REPLAYED_MESSAGE",
+      "REPLAYED_MESSAGE",
+      "INVALID_SEQUENCE",
+    ]);
+
+    harness.desktop.ping();
+    await settle();
+    expect(pongCount()).toBe(2);
+    expect(harness.manager.isSecureSessionActive()).toBe(true);
+  });
+
+  it("cancels an in-flight macro once the desktop confirms it", async () => {
+    const harness = createHarness(
+      new FakeDesktop({ pairingToken: PAIRING_TOKEN, autoCompleteActions: false }),
+    );
+    await connectTrusted(harness);
+
+    const actionId = harness.manager.sendMacro([{ type: "delay", duration: 1_000 }]) ?? "";
+    await settle();
+    expect(harness.manager.cancelAction(actionId)).toBe(true);
+    expect(harness.manager.cancelAction(actionId)).toBe(false);
+    await settle();
+
+    expect(harness.desktop.received.map((frame) => frame.type).slice(1)).toEqual([
+      "EXECUTE_ACTION",
+      "CANCEL_ACTION",
+    ]);
+    expect(harness.results).toEqual([{ id: actionId, status: "cancelled", executionTime: 5 }]);
+    expect(harness.errors).toEqual([]);
+  });
+
+  it("fails a cancel the desktop never confirms after the cancel timeout", async () => {
+    const harness = createHarness(
+      new FakeDesktop({ pairingToken: PAIRING_TOKEN, autoCompleteActions: false }),
+    );
+    await connectTrusted(harness);
+    harness.desktop.answerCancels = false;
+
+    const actionId = harness.manager.sendMacro([{ type: "delay", duration: 1_000 }]) ?? "";
+    await settle();
+    harness.manager.cancelAction(actionId);
+    // The cancel window replaces the action timeout rather than adding to it.
+    await jest.advanceTimersByTimeAsync(2_999);
+    expect(harness.results).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(harness.results).toEqual([
+      {
+        id: actionId,
+        status: "error",
+        executionTime: 3_000,
+        error: "Desktop did not confirm the cancellation.",
+      },
+    ]);
+    expect(harness.errors.map((error) => error.message)).toEqual([
+      `Action ${actionId} did not confirm cancellation.`,
+    ]);
+  });
+
+  it("restarts the action timeout on progress and times out once progress stops", async () => {
+    const harness = createHarness(
+      new FakeDesktop({ pairingToken: PAIRING_TOKEN, autoCompleteActions: false }),
+    );
+    await connectTrusted(harness);
+
+    const actionId = harness.manager.sendMacro([{ type: "delay", duration: 5_000 }]) ?? "";
+    await jest.advanceTimersByTimeAsync(TEST_POLICY.actionTimeoutMs - 100);
+    harness.desktop.reportProgress(actionId, 0, 2);
+    await settle();
+
+    // Past the original deadline, but within a fresh window from the progress frame.
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(harness.results).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(TEST_POLICY.actionTimeoutMs - 1_000);
+    expect(harness.results.map(({ id, status }) => [id, status])).toEqual([[actionId, "error"]]);
+    expect(harness.errors[0].message.endsWith("without progress.")).toBe(true);
+  });
+
+  it("fails pending actions when the app moves to the background", async () => {
+    const harness = createHarness(new FakeDesktop({ autoCompleteActions: false }));
+    harness.manager.initializeLifecycleHandling();
+    await connectTrusted(harness);
+    const actionId = harness.manager.sendMacro([{ type: "key", key: "enter" }]) ?? "";
+    await settle();
+
+    mockAppStateListeners[mockAppStateListeners.length - 1]("background");
+    harness.desktop.completeAction(actionId);
+    await jest.advanceTimersByTimeAsync(5_000);
+
+    expect(harness.results).toEqual([
+      {
+        id: actionId,
+        status: "error",
+        executionTime: 0,
+        error: DROPPED_ACTION_ERRORS.BACKGROUNDED,
+      },
+    ]);
+    expect(harness.manager.cancelAction(actionId)).toBe(false);
+    expect(harness.manager.getState()).toBe(ConnectionState.DISCONNECTED);
+  });
+
+  it("connects over wss when the pin matches and fails closed when it does not", async () => {
+    const pin = "ab".repeat(32);
+    const devicePublicKey = (await getOrCreateDeviceKeyPair()).publicKey;
+    const pinned = createHarness(new FakeDesktop({ certificateFingerprint: pin }));
+    pinned.desktop.trustDevice(DEVICE_ID, devicePublicKey);
+    pinned.manager.connect("192.168.1.20:8080", pinned.desktop.keyPair.publicKey, pin);
+    await settle();
+
+    expect(pinned.manager.isSecureSessionActive()).toBe(true);
+    expect(pinned.sessions[0].serverUrl).toBe("wss://192.168.1.20:8080");
+    expect(pinned.sessions[0].certFingerprint).toBe(pin);
+    pinned.desktop.drop();
+    await settle();
+    pinned.manager.updateTrustedAddress(pinned.desktop.keyPair.publicKey, "ws://192.168.1.21:8080");
+    expect(pinned.manager.getDiagnostics().targetUrl).toBe("wss://192.168.1.21:8080");
+    await settle();
+    expect(pinned.sessions[1].serverUrl).toBe("wss://192.168.1.21:8080");
+
+    const swapped = createHarness(new FakeDesktop({ certificateFingerprint: "cd".repeat(32) }));
+    swapped.desktop.trustDevice(DEVICE_ID, devicePublicKey);
+    swapped.manager.connect("192.168.1.20:8080", swapped.desktop.keyPair.publicKey, pin);
+    await settle();
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(swapped.desktop.received).toEqual([]);
+    expect(swapped.desktop.connectAttempts.length).toBe(1);
+    expect(swapped.errors.map((error) => error.code)).toEqual(["CERTIFICATE_PIN_MISMATCH"]);
+    expect(swapped.manager.getState()).toBe(ConnectionState.ERROR);
+  });
+
+  it("fails closed on a pinned wss:// target when the transport cannot pin", async () => {
+    const pin = "ab".repeat(32);
+    const harness = createHarness(
+      new FakeDesktop({ certificateFingerprint: pin, supportsCertificatePinning: false }),
+    );
+    expect(harness.manager.canPinCertificates()).toBe(false);
+
+    harness.manager.connect("192.168.1.20:8080", harness.desktop.keyPair.publicKey, pin);
+    await settle();
+
+    expect(harness.desktop.connectAttempts).toEqual([]);
+    expect(harness.errors.map((error) => error.code)).toEqual([
+      "CERTIFICATE_PINNING_UNAVAILABLE",
+    ]);
+  });
+
+  it("refuses ws:// for a pinned desktop unless the policy allows it", async () => {
+    const pin = "ab".repeat(32);
+    const refused = createHarness();
+    refused.manager.connect("ws://192.168.1.20:8080", refused.desktop.keyPair.publicKey, pin);
+    await settle();
+
+    expect(refused.desktop.connectAttempts).toEqual([]);
+    expect(refused.errors.map((error) => error.code)).toEqual(["PLAINTEXT_TRANSPORT_REFUSED"]);
+    expect(refused.manager.getState()).toBe(ConnectionState.ERROR);
+
+    const desktop = new FakeDesktop();
+    desktop.trustDevice(DEVICE_ID, (await getOrCreateDeviceKeyPair()).publicKey);
+    const allowed = new ConnectionManager(desktop, { ...TEST_POLICY, requireTlsForPinned: false });
+    allowed.connect("ws://192.168.1.20:8080", desktop.keyPair.publicKey, pin);
+    await settle();
+
+    expect(allowed.isSecureSessionActive()).toBe(true);
+  });
+
+  it("sends pointer input sealed and only to desktops that accept pointer steps", async () => {
+    const harness = createHarness();
+    const steps: PointerStep[] = [
+      { type: "mouseMove", dx: 12, dy: -4 },
+      { type: "mouseClick", button: "left" },
+    ];
+    await connectTrusted(harness);
+
+    expect(harness.manager.sendPointerInput(steps)).toBe(true);
+    await settle();
+
+    const pointerFrames = harness.desktop.received.filter(
+      (frame) => frame.type === "POINTER_INPUT",
+    );
+    expect(pointerFrames.map((frame) => frame.payload)).toEqual([{ steps }]);
+    expect(harness.desktop.plaintext.map((frame) => frame.type)).toEqual(["TRUSTED_RECONNECT"]);
+
+    const keysOnly = createHarness(
+      new FakeDesktop({
+        capabilities: { ...DEFAULT_DESKTOP_CAPABILITIES, stepTypes: ["shortcut", "text", "key"] },
+      }),
+    );
+    await connectTrusted(keysOnly);
+
+    expect(keysOnly.manager.isSecureSessionActive()).toBe(true);
+    expect(keysOnly.manager.sendPointerInput(steps)).toBe(false);
+    await settle();
+    expect(keysOnly.desktop.received.map((frame) => frame.type)).toEqual(["TRUSTED_RECONNECT"]);
+  });
+
+  it("grades the link from answered and lost latency probes", async () => {
+    const harness = createHarness(
+      new FakeDesktop({ capabilities: { ...DEFAULT_DESKTOP_CAPABILITIES, latencyProbe: true } }),
+    );
+    await connectTrusted(harness);
+
+    for (let probe = 0; probe < 3; probe += 1) {
+      harness.desktop.ping();
+      await jest.advanceTimersByTimeAsync(LATENCY_PROBE_INTERVAL_MS);
+    }
+    expect(harness.manager.getLinkQuality()).toEqual({
+      grade: "good",
+      averageRttMs: 0,
+      jitterMs: 0,
+      lossRatio: 0,
+      sampleCount: 3,
+    });
+
+    harness.desktop.answerProbes = false;
+    for (let probe = 0; probe < 3; probe += 1) {
+      harness.desktop.ping();
+      await jest.advanceTimersByTimeAsync(LATENCY_PROBE_INTERVAL_MS);
+    }
+    expect(harness.manager.getLinkQuality().lossRatio).toBe(0.5);
+    expect(harness.linkQualities[harness.linkQualities.length - 1].grade).toBe("poor");
+    const probes = harness.desktop.received.filter((frame) => frame.type === "LATENCY_PROBE");
+    expect(probes.length).toBe(6);
+  });
+});
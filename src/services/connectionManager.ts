@@ -1,12 +1,60 @@
 import { AppState, type AppStateStatus, type NativeEventSubscription } from "react-native";
 
-import { cryptoService, type EncryptedBlob } from "../security/cryptoService";
-import { buildServerUrl } from "../security/pairingManager";
+import {
+  CRYPTO_ERRORS,
+  ENVELOPE_VERSION,
+  cryptoService,
+  type EncryptedBlob,
+  type KeyPair,
+  type PairingProofs,
+} from "../security/cryptoService";
+import { getOrCreateDeviceKeyPair } from "../security/deviceKeyPair";
+import {
+  buildServerUrl,
+  buildTrustedReconnectPayload,
+  getPairingTokenRemainingMs,
+  isSecureServerUrl,
+  normalizeCertFingerprint,
+  setServerUrlScheme,
+} from "../security/pairingManager";
+import type { ConnectionPolicy } from "../types/connectionPolicy";
+import type { LinkQuality } from "../types/linkQuality";
 import type { PairingQrPayload } from "../types/pairing";
-import type { Step } from "../types/protocol";
+import {
+  PROTOCOL_VERSION,
+  type ActionStepStatus,
+  type DesktopCapabilities,
+  type PointerStep,
+  type Sequenced,
+  type Step,
+} from "../types/protocol";
+import {
+  DEFAULT_DESKTOP_CAPABILITIES,
+  checkStepsAgainstCapabilities,
+  parseDesktopCapabilities,
+} from "../utils/desktopCapabilities";
+import {
+  DEFAULT_CONNECTION_POLICY,
+  formatPolicyDuration,
+  getReconnectDelayMs,
+} from "../utils/connectionPolicy";
+import {
+  LATENCY_PROBE_INTERVAL_MS,
+  LATENCY_PROBE_TIMEOUT_MS,
+  UNKNOWN_LINK_QUALITY,
+  appendLinkSample,
+  summarizeLinkQuality,
+  type LinkSample,
+} from "../utils/linkQuality";
 import { mapServerError } from "../utils/mapServerError";
 import { getOrCreateDeviceId } from "../utils/deviceId";
+import { validatePointerSteps, validateSteps } from "../utils/validateStep";
+import { logger } from "./logger";
+import { PinnedSocketService } from "./pinnedSocketService";
+import { RoutedTransport } from "./routedTransport";
 import { SocketService } from "./socketService";
+import { createTcpTlsConnector } from "./tcpTlsConnector";
+import type { Transport, TransportPeer } from "./transport";
 
 export enum ConnectionState {
   CONNECTING = "CONNECTING",
@@ -20,8 +68,17 @@ type PairRequestClientMessage = {
   type: "PAIR_REQUEST";
   payload: {
     deviceId: string;
-    pairingToken: string;
-    protocolVersion: "2.0";
+    devicePublicKey: string;
+    ephemeralPublicKey: string;
+    protocolVersion: typeof PROTOCOL_VERSION;
+  };
+};
+
+type PairConfirmClientMessage = {
+  type: "PAIR_CONFIRM";
+  payload: {
+    deviceId: string;
+    pairingProof: string;
   };
 };
 
@@ -29,7 +86,8 @@ type TrustedReconnectClientMessage = {
   type: "TRUSTED_RECONNECT";
   payload: {
     deviceId: string;
-    protocolVersion: "2.0";
+    ephemeralPublicKey: string;
+    protocolVersion: typeof PROTOCOL_VERSION;
   };
 };
 
@@ -42,113 +100,127 @@ type ExecuteActionClientMessage = {
   };
 };
 
+type PointerInputClientMessage = {
+  type: "POINTER_INPUT";
+  timestamp: number;
+  payload: {
+    steps: PointerStep[];
+  };
+};
+
+type CancelActionClientMessage = {
+  type: "CANCEL_ACTION";
+  timestamp: number;
+  payload: {
+    id: string;
+  };
+};
+
 type PongClientMessage = {
   type: "PONG";
   timestamp: number;
 };
 
+type LatencyProbeClientMessage = {
+  type: "LATENCY_PROBE";
+  timestamp: number;
+  payload: {
+    id: string;
+  };
+};
+
 type ClientEnvelopeMessage =
   | PairRequestClientMessage
+  | PairConfirmClientMessage
   | TrustedReconnectClientMessage
   | ExecuteActionClientMessage
-  | PongClientMessage;
+  | PointerInputClientMessage
+  | CancelActionClientMessage
+  | PongClientMessage
+  | LatencyProbeClientMessage;
+
+type SequencedClientMessage = Sequenced<ClientEnvelopeMessage>;
 
 export type ExecutionResult = {
   id: string;
-  status: "success" | "error";
+  status: "success" | "error" | "cancelled";
   executionTime: number;
   error?: string;
 };
 
+export type ActionProgress = {
+  id: string;
+  stepIndex: number;
+  totalSteps: number;
+  status: ActionStepStatus;
+};
+
+export type AuthenticatedSession = {
+  mode: "pairing" | "trusted";
+  deviceId: string;
+  serverUrl: string;
+  desktopPublicKey: string;
+  capabilities: DesktopCapabilities;
+  certFingerprint: string | null;
+};
+
 type ConnectionErrorPayload = {
   code: string;
   message: string;
 };
 
+export type StateTransition = {
+  at: number;
+  from: ConnectionState;
+  to: ConnectionState;
+  reason: string;
+  reconnectAttempt: number;
+};
+
+/** Recent connection history, for the Diagnostics screen and exported reports. */
+export type ConnectionDiagnostics = {
+  state: ConnectionState;
+  targetUrl: string | null;
+  secureSession: boolean;
+  reconnectAttempt: number;
+  maxReconnectAttempts: number;
+  lastHeartbeatAt: number | null;
+  transitions: StateTransition[];
+  /** Milliseconds between consecutive heartbeats on one connection. */
+  heartbeatGapsMs: number[];
+  errors: (ConnectionErrorPayload & { at: number })[];
+};
+
 type ConnectionManagerCallbacks = {
   onStateChange?: (state: ConnectionState, reconnectAttempt: number) => void;
   onConnected?: () => void;
   onDisconnected?: () => void;
-  onAuthSuccess?: () => void;
-  onAuthFailure?: () => void;
+  onAuthSuccess?: (session: AuthenticatedSession) => void;
+  onAuthFailure?: (desktopPublicKey: string | null) => void;
   onActionResult?: (result: ExecutionResult) => void;
+  onActionProgress?: (progress: ActionProgress) => void;
   onActionTimeout?: (actionId: string) => void;
   onError?: (error: ConnectionErrorPayload) => void;
   onWarning?: (message: string | null) => void;
   onHeartbeat?: (timestamp: number) => void;
+  onLinkQuality?: (quality: LinkQuality) => void;
+  onDiagnostics?: (diagnostics: ConnectionDiagnostics) => void;
 };
 
-const MAX_RECONNECT_ATTEMPTS = 10;
-const MAX_RECONNECT_DELAY_MS = 10_000;
-const HEARTBEAT_TIMEOUT_MS = 15_000;
 const HEARTBEAT_CHECK_INTERVAL_MS = 1_000;
-const ACTION_TIMEOUT_MS = 8_000;
-const MAX_ACTION_STEPS = 50;
-const MAX_TEXT_STEP_LENGTH = 1_000;
-
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
+const CANCEL_TIMEOUT_MS = 3_000;
+const DIAGNOSTIC_HISTORY_LIMIT = 30;
 
-const SUPPORTED_STEP_TYPES = new Set<Step["type"]>([
-  "shortcut",
-  "text",
-  "delay",
-  "key",
-  "command",
-]);
+export const DROPPED_ACTION_ERRORS = {
+  SESSION_RESET: "Connection reset before a result arrived.",
+  BACKGROUNDED: "App moved to the background before a result arrived.",
+} as const;
 
-const validateStep = (step: unknown, index: number): string | null => {
-  if (!isRecord(step)) {
-    return `Step ${index} must be an object.`;
-  }
+const appendRecent = <T>(items: T[], item: T): T[] =>
+  [...items, item].slice(-DIAGNOSTIC_HISTORY_LIMIT);
 
-  if (typeof step.type !== "string") {
-    return `Step ${index} is missing string field "type".`;
-  }
-
-  if (!SUPPORTED_STEP_TYPES.has(step.type as Step["type"])) {
-    return `Step ${index} has unsupported type "${step.type}".`;
-  }
-
-  switch (step.type) {
-    case "shortcut": {
-      if (!Array.isArray(step.keys) || step.keys.length === 0) {
-        return `Step ${index} (shortcut) must include non-empty "keys" array.`;
-      }
-      const hasNonStringKey = step.keys.some((key) => typeof key !== "string");
-      if (hasNonStringKey) {
-        return `Step ${index} (shortcut) has non-string key entries.`;
-      }
-      return null;
-    }
-    case "text":
-      if (typeof step.value !== "string") {
-        return `Step ${index} (text) must include string field "value".`;
-      }
-      return null;
-    case "delay":
-      if (
-        typeof step.duration !== "number" ||
-        !Number.isFinite(step.duration) ||
-        step.duration < 0
-      ) {
-        return `Step ${index} (delay) must include non-negative numeric field "duration".`;
-      }
-      return null;
-    case "key":
-      if (typeof step.key !== "string") {
-        return `Step ${index} (key) must include string field "key".`;
-      }
-      return null;
-    case "command":
-      if (typeof step.command !== "string") {
-        return `Step ${index} (command) must include string field "command".`;
-      }
-      return null;
-    default:
-      return `Step ${index} has unsupported type "${String(step.type)}".`;
-  }
-};
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
 
 const validateExecuteActionPayload = (payload: unknown): string | null => {
   if (!isRecord(payload)) {
@@ -159,48 +231,48 @@ const validateExecuteActionPayload = (payload: unknown): string | null => {
     return 'Payload must include non-empty string field "id".';
   }
 
-  if (!Array.isArray(payload.steps) || payload.steps.length === 0) {
-    return 'Payload must include non-empty "steps" array.';
-  }
-
-  for (let index = 0; index < payload.steps.length; index += 1) {
-    const error = validateStep(payload.steps[index], index);
-    if (error) {
-      return error;
-    }
-  }
-
-  return null;
+  return validateSteps(payload.steps);
 };
 
-const validateLocalActionConstraints = (steps: Step[]): ConnectionErrorPayload | null => {
-  if (steps.length > MAX_ACTION_STEPS) {
-    return mapServerError("MAX_STEPS_EXCEEDED");
-  }
-
-  for (const step of steps) {
-    if (step.type === "text" && step.value.length > MAX_TEXT_STEP_LENGTH) {
-      return mapServerError("MAX_TEXT_LENGTH_EXCEEDED");
-    }
-  }
-
-  return null;
-};
+const validateLocalActionConstraints = (
+  steps: Step[],
+  capabilities: DesktopCapabilities,
+): ConnectionErrorPayload | null => checkStepsAgainstCapabilities(steps, capabilities);
 
-const toWsUrl = (raw: string): string => {
+/** Bare addresses get `wss://` when a certificate is pinned; explicit schemes are kept. */
+const toWsUrl = (raw: string, secure = false): string => {
   const trimmed = raw.trim();
   if (trimmed.startsWith("ws://") || trimmed.startsWith("wss://")) {
     return trimmed;
   }
-  return `ws://${trimmed}`;
+  return `${secure ? "wss" : "ws"}://${trimmed}`;
 };
 
-const buildActionTimeoutResult = (actionId: string): ExecutionResult => {
+const buildActionTimeoutResult = (actionId: string, timeoutMs: number): ExecutionResult => {
   return {
     id: actionId,
     status: "error",
-    executionTime: ACTION_TIMEOUT_MS,
-    error: "Action timed out after 8 seconds.",
+    executionTime: timeoutMs,
+    error: `Action timed out after ${formatPolicyDuration(timeoutMs)}.`,
+  };
+};
+
+const buildCancelTimeoutResult = (actionId: string): ExecutionResult => {
+  return {
+    id: actionId,
+    status: "error",
+    executionTime: CANCEL_TIMEOUT_MS,
+    error: "Desktop did not confirm the cancellation.",
+  };
+};
+
+/** Reported for actions still pending when the session they were sent on goes away. */
+const buildDroppedActionResult = (actionId: string, reason: string): ExecutionResult => {
+  return {
+    id: actionId,
+    status: "error",
+    executionTime: 0,
+    error: reason,
   };
 };
 
@@ -209,15 +281,33 @@ type PairingContext =
       mode: "pairing";
       pairingToken: string;
       serverUrl: string;
+      expiresAt: number | null;
+      certFingerprint: string | null;
     }
   | {
       mode: "trusted";
       serverUrl: string;
+      desktopPublicKey: string;
+      certFingerprint: string | null;
     }
   | null;
 
+/** What PAIR_CHALLENGE offered, kept until PAIR_SUCCESS proves the desktop holds the token. */
+type PairingChallenge = {
+  sessionNonce: string;
+  desktopPublicKey: string;
+  ephemeralPublicKey: string;
+  desktopProof: string;
+};
+
+type HandshakeKeys = {
+  device: KeyPair;
+  ephemeral: KeyPair;
+  challenge?: PairingChallenge;
+};
+
 export class ConnectionManager {
-  private readonly socketService = new SocketService();
+  private readonly transport: Transport;
   private callbacks: ConnectionManagerCallbacks = {};
   private state: ConnectionState = ConnectionState.DISCONNECTED;
   private reconnectAttempt = 0;
@@ -225,6 +315,7 @@ export class ConnectionManager {
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private lastHeartbeat: number | null = null;
   private pendingActions = new Map<string, ReturnType<typeof setTimeout>>();
+  private cancellingActionIds = new Set<string>();
   private completedActionIds = new Set<string>();
   private completedActionOrder: string[] = [];
   private targetUrl: string | null = null;
@@ -236,10 +327,31 @@ export class ConnectionManager {
   private pairingContext: PairingContext = null;
   private secureSessionKey: string | null = null;
   private secureSessionEnabled = false;
-
-  constructor() {
-    this.socketService.setCallbacks({
-      onConnected: () => this.handleSocketConnected(),
+  private handshakeKeys: HandshakeKeys | null = null;
+  private outboundSequence = 0;
+  private inboundSequence = 0;
+  private capabilities: DesktopCapabilities = DEFAULT_DESKTOP_CAPABILITIES;
+  private policy: ConnectionPolicy;
+  private linkSamples: LinkSample[] = [];
+  /** Unanswered LATENCY_PROBE send times keyed by probe id. */
+  private outstandingProbes = new Map<string, number>();
+  private lastProbeAt: number | null = null;
+  private probeNonce = 0;
+  private transitions: StateTransition[] = [];
+  private heartbeatGapsMs: number[] = [];
+  private recentErrors: ConnectionDiagnostics["errors"] = [];
+
+  constructor(
+    transport: Transport = new RoutedTransport(
+      new SocketService(),
+      new PinnedSocketService(createTcpTlsConnector()),
+    ),
+    policy: ConnectionPolicy = DEFAULT_CONNECTION_POLICY,
+  ) {
+    this.transport = transport;
+    this.policy = policy;
+    this.transport.setCallbacks({
+      onConnected: (peer) => this.handleSocketConnected(peer),
       onDisconnected: () => this.handleSocketDisconnected(),
       onError: () => this.handleSocketError("WebSocket connection error."),
       onMessage: (data) => this.handleSocketMessage(data),
@@ -261,56 +373,126 @@ export class ConnectionManager {
     );
   }
 
-  connect(rawUrl: string): void {
+  connect(rawUrl: string, desktopPublicKey: string, certFingerprint: string | null = null): void {
     const trimmed = rawUrl.trim();
     if (trimmed.length === 0) {
       this.emitError("IP address is required.");
-      this.setState(ConnectionState.ERROR);
+      this.setState(ConnectionState.ERROR, "No address to connect to");
       return;
     }
 
-    this.targetUrl = toWsUrl(trimmed);
-    this.pairingContext = { mode: "trusted", serverUrl: this.targetUrl };
+    this.targetUrl = toWsUrl(trimmed, certFingerprint !== null);
+    this.pairingContext = {
+      mode: "trusted",
+      serverUrl: this.targetUrl,
+      desktopPublicKey,
+      certFingerprint,
+    };
     this.secureSessionEnabled = false;
     this.secureSessionKey = null;
+    this.handshakeKeys = null;
     this.reconnectAttempt = 0;
     this.reconnectSuspended = false;
     this.clearReconnectTimer();
-    this.clearPendingActions();
-    this.openSocket(ConnectionState.CONNECTING);
+    this.clearPendingActions(DROPPED_ACTION_ERRORS.SESSION_RESET);
+    this.openSocket(ConnectionState.CONNECTING, "Trusted reconnect requested");
+  }
+
+  /**
+   * Tries a candidate address for a trusted desktop, e.g. one reported by an
+   * (unauthenticated) LAN discovery beacon. Only a reconnect loop in progress
+   * is retargeted, restarted immediately against the candidate; an open or
+   * opening session is left alone. The confirmed address in the pairing
+   * context changes only after the trusted handshake succeeds there, and the
+   * next retry falls back to it. Beacons advertise `ws://`; pinned desktops
+   * stay on `wss://`.
+   */
+  updateTrustedAddress(desktopPublicKey: string, rawUrl: string): void {
+    if (
+      this.pairingContext?.mode !== "trusted" ||
+      this.pairingContext.desktopPublicKey !== desktopPublicKey
+    ) {
+      return;
+    }
+
+    const serverUrl = setServerUrlScheme(rawUrl, this.pairingContext.certFingerprint !== null);
+    const isRetrying =
+      this.state === ConnectionState.RECONNECTING || this.state === ConnectionState.ERROR;
+    if (serverUrl === this.targetUrl || !isRetrying || this.reconnectSuspended) {
+      return;
+    }
+
+    this.targetUrl = serverUrl;
+    this.secureSessionEnabled = false;
+    this.secureSessionKey = null;
+    this.handshakeKeys = null;
+    this.reconnectAttempt = 0;
+    this.clearReconnectTimer();
+    this.openSocket(ConnectionState.RECONNECTING, "Trying the address a beacon reported");
+  }
+
+  /**
+   * True while the reconnect loop is still going: RECONNECTING, or the ERROR a
+   * failed attempt reports before its close schedules the next one. False once
+   * attempts are exhausted, reconnecting is suspended or there is no target.
+   */
+  isRetrying(): boolean {
+    if (this.state === ConnectionState.RECONNECTING) {
+      return true;
+    }
+    return (
+      this.state === ConnectionState.ERROR &&
+      this.targetUrl !== null &&
+      !this.reconnectSuspended &&
+      this.reconnectAttempt < this.policy.maxReconnectAttempts
+    );
+  }
+
+  /** False where the TLS socket cannot report the certificate (iOS); pinned pairing is refused. */
+  canPinCertificates(): boolean {
+    return this.transport.supportsCertificatePinning;
   }
 
   connectWithPairingQr(payload: PairingQrPayload): void {
-    const serverUrl = buildServerUrl(payload.ip, payload.port);
+    const serverUrl = buildServerUrl(payload.ip, payload.port, payload.certFingerprint !== null);
     this.targetUrl = serverUrl;
     this.pairingContext = {
       mode: "pairing",
       pairingToken: payload.pairingToken,
       serverUrl,
+      expiresAt: payload.expiresAt,
+      certFingerprint: payload.certFingerprint,
     };
     this.secureSessionEnabled = false;
     this.secureSessionKey = null;
+    this.handshakeKeys = null;
     this.reconnectAttempt = 0;
     this.reconnectSuspended = false;
     this.clearReconnectTimer();
-    this.clearPendingActions();
-    this.openSocket(ConnectionState.CONNECTING);
+    this.clearPendingActions(DROPPED_ACTION_ERRORS.SESSION_RESET);
+    this.openSocket(ConnectionState.CONNECTING, "Pairing requested");
   }
 
   disconnect(): void {
     this.reconnectSuspended = true;
     this.clearReconnectTimer();
     this.clearHeartbeatTimer();
-    this.clearPendingActions();
+    this.clearPendingActions(DROPPED_ACTION_ERRORS.SESSION_RESET);
     this.targetUrl = null;
     this.secureSessionEnabled = false;
     this.secureSessionKey = null;
+    this.handshakeKeys = null;
     this.pairingContext = null;
-    this.socketService.disconnect();
-    this.setState(ConnectionState.DISCONNECTED);
+    this.resetLinkQuality();
+    this.transport.disconnect();
+    this.setState(ConnectionState.DISCONNECTED, "Disconnected by the app");
   }
 
   sendAction(action: Step): string | null {
+    return this.sendMacro([action]);
+  }
+
+  sendMacro(steps: Step[]): string | null {
     if (!this.secureSessionEnabled) {
       this.emitError({
         code: "DEVICE_NOT_AUTHORIZED",
@@ -320,17 +502,11 @@ export class ConnectionManager {
     }
 
     const actionId = this.buildActionId();
-    const steps: Step[] = [action];
-    const localConstraintError = validateLocalActionConstraints(steps);
+    const localConstraintError = validateLocalActionConstraints(steps, this.capabilities);
     if (localConstraintError) {
       this.emitError(localConstraintError);
       return null;
     }
-    if (action.type === "command") {
-      this.emitWarning("Command execution may be disabled on desktop.");
-    } else {
-      this.emitWarning(null);
-    }
     const payload = {
       id: actionId,
       steps,
@@ -351,21 +527,74 @@ export class ConnectionManager {
       return null;
     }
 
-    const timeout = setTimeout(() => {
-      if (!this.removePendingAction(actionId)) {
-        return;
-      }
-      this.markActionCompleted(actionId);
-      this.callbacks.onActionTimeout?.(actionId);
-      this.callbacks.onActionResult?.(buildActionTimeoutResult(actionId));
-      this.emitError(`Action ${actionId} timed out after 8 seconds.`);
-    }, ACTION_TIMEOUT_MS);
-
-    this.pendingActions.set(actionId, timeout);
+    logger.info("actions", `Action ${actionId} sent`, { stepCount: steps.length });
+    this.trackPendingAction(
+      actionId,
+      this.policy.actionTimeoutMs,
+      buildActionTimeoutResult(actionId, this.policy.actionTimeoutMs),
+      `Action ${actionId} timed out after ${formatPolicyDuration(this.policy.actionTimeoutMs)}.`,
+    );
 
     return actionId;
   }
 
+  /**
+   * Sends CANCEL_ACTION for a pending action. It stays pending until the
+   * desktop's ACTION_RESULT arrives, but now fails after `CANCEL_TIMEOUT_MS`
+   * instead of waiting out the full action timeout.
+   */
+  cancelAction(actionId: string): boolean {
+    if (!this.pendingActions.has(actionId) || this.cancellingActionIds.has(actionId)) {
+      return false;
+    }
+
+    const sent = this.send({
+      type: "CANCEL_ACTION",
+      timestamp: Date.now(),
+      payload: { id: actionId },
+    });
+    if (!sent) {
+      return false;
+    }
+
+    this.cancellingActionIds.add(actionId);
+    this.trackPendingAction(
+      actionId,
+      CANCEL_TIMEOUT_MS,
+      buildCancelTimeoutResult(actionId),
+      `Action ${actionId} did not confirm cancellation.`,
+    );
+
+    return true;
+  }
+
+  /**
+   * Streams trackpad input without an action id or timeout: pointer batches are
+   * fire-and-forget, and are dropped silently while no secure session is open
+   * so a finger still on the pad does not flood the error banner.
+   */
+  sendPointerInput(steps: PointerStep[]): boolean {
+    if (
+      !this.secureSessionEnabled ||
+      this.state !== ConnectionState.CONNECTED ||
+      checkStepsAgainstCapabilities(steps, this.capabilities)
+    ) {
+      return false;
+    }
+
+    const validationError = validatePointerSteps(steps);
+    if (validationError) {
+      this.emitError(`Invalid POINTER_INPUT payload: ${validationError}`);
+      return false;
+    }
+
+    return this.send({
+      type: "POINTER_INPUT",
+      timestamp: Date.now(),
+      payload: { steps },
+    });
+  }
+
   getLastHeartbeat(): number | null {
     return this.lastHeartbeat;
   }
@@ -378,6 +607,26 @@ export class ConnectionManager {
     return this.reconnectAttempt;
   }
 
+  /**
+   * Applies to timers armed from now on; running action timeouts and a
+   * scheduled reconnect keep the delay they were started with.
+   */
+  setPolicy(policy: ConnectionPolicy): void {
+    this.policy = policy;
+  }
+
+  getPolicy(): ConnectionPolicy {
+    return this.policy;
+  }
+
+  getLinkQuality(): LinkQuality {
+    return summarizeLinkQuality(this.linkSamples);
+  }
+
+  getCapabilities(): DesktopCapabilities {
+    return this.capabilities;
+  }
+
   isSecureSessionActive(): boolean {
     return this.secureSessionEnabled;
   }
@@ -386,21 +635,83 @@ export class ConnectionManager {
     return this.targetUrl;
   }
 
-  private openSocket(nextState: ConnectionState): void {
+  /** The trusted desktop this manager connects or reconnects to, if any. */
+  getTrustedDesktopPublicKey(): string | null {
+    return this.pairingContext?.mode === "trusted" ? this.pairingContext.desktopPublicKey : null;
+  }
+
+  getDiagnostics(): ConnectionDiagnostics {
+    return {
+      state: this.state,
+      targetUrl: this.targetUrl,
+      secureSession: this.secureSessionEnabled,
+      reconnectAttempt: this.reconnectAttempt,
+      maxReconnectAttempts: this.policy.maxReconnectAttempts,
+      lastHeartbeatAt: this.lastHeartbeat,
+      transitions: this.transitions,
+      heartbeatGapsMs: this.heartbeatGapsMs,
+      errors: this.recentErrors,
+    };
+  }
+
+  private openSocket(nextState: ConnectionState, reason: string): void {
     if (!this.targetUrl) {
       this.emitError("Missing target WebSocket URL.");
-      this.setState(ConnectionState.ERROR);
+      this.setState(ConnectionState.ERROR, "No target URL");
+      return;
+    }
+
+    if (
+      this.pairingContext?.mode === "pairing" &&
+      getPairingTokenRemainingMs(this.pairingContext.expiresAt) === 0
+    ) {
+      this.reconnectSuspended = true;
+      this.emitError(mapServerError("PAIRING_TOKEN_EXPIRED"));
+      this.setState(ConnectionState.ERROR, "PAIRING_TOKEN_EXPIRED");
+      return;
+    }
+
+    const certFingerprint = this.pairingContext?.certFingerprint ?? null;
+    const isSecure = isSecureServerUrl(this.targetUrl);
+    if (certFingerprint && !isSecure && this.policy.requireTlsForPinned) {
+      this.failClosed("PLAINTEXT_TRANSPORT_REFUSED");
+      return;
+    }
+    if (certFingerprint && isSecure && !this.transport.supportsCertificatePinning) {
+      this.failClosed("CERTIFICATE_PINNING_UNAVAILABLE");
       return;
     }
 
-    console.log("[TapVolt] Connection state:", nextState);
-    this.setState(nextState);
-    this.socketService.connect(this.targetUrl);
+    logger.info("transport", `Connection state: ${nextState}`);
+    this.setState(nextState, reason);
+    this.transport.connect(
+      this.targetUrl,
+      certFingerprint && isSecure ? { certificateFingerprint: certFingerprint } : undefined,
+    );
+  }
+
+  /**
+   * Certificate, transport-security, pairing-proof and missing-CSPRNG refusals
+   * stop the reconnect loop: every retry would meet the same certificate, the
+   * same `ws://` address, the same impostor or the same device without secure
+   * randomness.
+   */
+  private failClosed(code: string): void {
+    logger.error("transport", `Connection refused: ${code}`);
+    this.reconnectSuspended = true;
+    this.clearReconnectTimer();
+    this.clearHeartbeatTimer();
+    this.transport.disconnect();
+    this.emitError(mapServerError(code));
+    this.setState(ConnectionState.ERROR, code);
   }
 
   private send(message: ClientEnvelopeMessage): boolean {
     if (message.type === "EXECUTE_ACTION") {
-      const localConstraintError = validateLocalActionConstraints(message.payload.steps);
+      const localConstraintError = validateLocalActionConstraints(
+        message.payload.steps,
+        this.capabilities,
+      );
       if (localConstraintError) {
         this.emitError(localConstraintError);
         return false;
@@ -416,21 +727,22 @@ export class ConnectionManager {
       this.secureSessionEnabled &&
       this.secureSessionKey &&
       message.type !== "PAIR_REQUEST" &&
+      message.type !== "PAIR_CONFIRM" &&
       message.type !== "TRUSTED_RECONNECT"
     ) {
       const encrypted = this.encryptClientEnvelope(message);
       if (!encrypted) {
         return false;
       }
-      console.log("[TapVolt] Sending encrypted message:", encrypted);
-      const sentEncrypted = this.socketService.send(encrypted);
+      logger.debug("crypto", "Sending encrypted message", message);
+      const sentEncrypted = this.transport.send(encrypted);
       if (!sentEncrypted) {
         this.emitError("WebSocket is not connected.");
       }
       return sentEncrypted;
     }
 
-    const sent = this.socketService.send(message);
+    const sent = this.transport.send(message);
     if (!sent) {
       this.emitError("WebSocket is not connected.");
     }
@@ -443,17 +755,36 @@ export class ConnectionManager {
       return null;
     }
 
+    this.outboundSequence += 1;
+    const sequenced: SequencedClientMessage = {
+      ...message,
+      seq: this.outboundSequence,
+    };
+
     try {
-      return cryptoService.encryptJson(message, this.secureSessionKey);
+      return cryptoService.encryptJson(sequenced, this.secureSessionKey);
     } catch {
       this.emitError("Failed to encrypt outgoing payload.");
       return null;
     }
   }
 
-  private handleSocketConnected(): void {
+  private handleSocketConnected(peer?: TransportPeer): void {
+    const certFingerprint = this.pairingContext?.certFingerprint ?? null;
+    if (certFingerprint && this.targetUrl && isSecureServerUrl(this.targetUrl)) {
+      const presented = peer?.certificateFingerprint ?? null;
+      if (presented === null) {
+        this.failClosed("CERTIFICATE_UNVERIFIED");
+        return;
+      }
+      if (normalizeCertFingerprint(presented) !== certFingerprint) {
+        this.failClosed("CERTIFICATE_PIN_MISMATCH");
+        return;
+      }
+    }
+
     this.reconnectAttempt = 0;
-    this.setState(ConnectionState.CONNECTED);
+    this.setState(ConnectionState.CONNECTED, "Socket open");
     this.callbacks.onConnected?.();
     this.markHeartbeatNow();
     this.startHeartbeatTimer();
@@ -472,7 +803,15 @@ export class ConnectionManager {
 
     try {
       this.deviceId = await getOrCreateDeviceId();
-    } catch {
+      this.handshakeKeys = {
+        device: await getOrCreateDeviceKeyPair(),
+        ephemeral: cryptoService.generateKeyPair(),
+      };
+    } catch (error: unknown) {
+      if (error instanceof Error && error.message === CRYPTO_ERRORS.RANDOM_UNAVAILABLE) {
+        this.failClosed("RANDOM_UNAVAILABLE");
+        return;
+      }
       this.emitError("Failed to load device identity.");
       return;
     }
@@ -482,8 +821,9 @@ export class ConnectionManager {
         type: "PAIR_REQUEST",
         payload: {
           deviceId: this.deviceId,
-          pairingToken: this.pairingContext.pairingToken,
-          protocolVersion: "2.0",
+          devicePublicKey: this.handshakeKeys.device.publicKey,
+          ephemeralPublicKey: this.handshakeKeys.ephemeral.publicKey,
+          protocolVersion: PROTOCOL_VERSION,
         },
       });
       return;
@@ -491,10 +831,10 @@ export class ConnectionManager {
 
     this.send({
       type: "TRUSTED_RECONNECT",
-      payload: {
-        deviceId: this.deviceId,
-        protocolVersion: "2.0",
-      },
+      payload: buildTrustedReconnectPayload(
+        this.deviceId,
+        this.handshakeKeys.ephemeral.publicKey,
+      ),
     });
   }
 
@@ -503,16 +843,16 @@ export class ConnectionManager {
     this.clearHeartbeatTimer();
 
     if (this.reconnectSuspended) {
-      this.setState(ConnectionState.DISCONNECTED);
+      this.setState(ConnectionState.DISCONNECTED, "Socket closed");
       return;
     }
 
-    this.scheduleReconnect();
+    this.scheduleReconnect("Socket closed");
   }
 
   private handleSocketError(message: string): void {
     this.emitError({ code: "SOCKET_ERROR", message });
-    this.setState(ConnectionState.ERROR);
+    this.setState(ConnectionState.ERROR, "SOCKET_ERROR");
   }
 
   private handleSocketMessage(data: unknown): void {
@@ -530,7 +870,15 @@ export class ConnectionManager {
     }
 
     if (this.isEncryptedEnvelope(parsed)) {
-      console.log("[TapVolt] Received encrypted message:", parsed);
+      logger.debug("crypto", "Received encrypted envelope", parsed);
+      if (!this.isSupportedEnvelope(parsed)) {
+        this.emitError({
+          code: "UNSUPPORTED_ENVELOPE_VERSION",
+          message: "Encrypted envelope version is not supported.",
+        });
+        return;
+      }
+
       if (!this.secureSessionKey) {
         this.emitError({
           code: "UNAUTHORIZED_PLAINTEXT",
@@ -539,19 +887,34 @@ export class ConnectionManager {
         return;
       }
 
+      let decrypted: Record<string, unknown>;
       try {
-        const decrypted = cryptoService.decryptJson<Record<string, unknown>>(
+        decrypted = cryptoService.decryptJson<Record<string, unknown>>(
           parsed,
           this.secureSessionKey,
         );
-        console.log("[TapVolt] Decrypted payload:", decrypted);
-        this.handleParsedServerMessage(decrypted, true);
-      } catch {
-        this.emitError({
-          code: "DECRYPTION_FAILED",
-          message: "Failed to decrypt server payload.",
-        });
+      } catch (error: unknown) {
+        const isTampered =
+          error instanceof Error && error.message === CRYPTO_ERRORS.TAMPERED_ENVELOPE;
+        this.emitError(
+          isTampered
+            ? {
+                code: "TAMPERED_ENVELOPE",
+                message: "Server payload failed integrity check.",
+              }
+            : {
+                code: "DECRYPTION_FAILED",
+                message: "Failed to decrypt server payload.",
+              },
+        );
+        return;
+      }
+
+      logger.debug("crypto", "Decrypted payload", decrypted);
+      if (!this.acceptInboundSequence(decrypted)) {
+        return;
       }
+      this.handleParsedServerMessage(decrypted, true);
       return;
     }
 
@@ -576,6 +939,10 @@ export class ConnectionManager {
 
   private handleParsedServerMessage(parsed: Record<string, unknown>, encrypted: boolean): void {
     if (parsed.type === "PING") {
+      if (this.lastHeartbeat !== null && this.state === ConnectionState.CONNECTED) {
+        this.heartbeatGapsMs = appendRecent(this.heartbeatGapsMs, Date.now() - this.lastHeartbeat);
+        this.emitDiagnostics();
+      }
       this.markHeartbeatNow();
       if (this.secureSessionEnabled && !encrypted) {
         this.emitError({
@@ -591,6 +958,11 @@ export class ConnectionManager {
       return;
     }
 
+    if (parsed.type === "PAIR_CHALLENGE") {
+      this.handlePairChallenge(parsed);
+      return;
+    }
+
     if (parsed.type === "PAIR_SUCCESS") {
       this.handlePairSuccess(parsed);
       return;
@@ -615,8 +987,17 @@ export class ConnectionManager {
         typeof parsed.message === "string" ? parsed.message : null;
       const rawServerCode = payloadCode ?? directCode ?? payloadMessage ?? directMessage ?? "";
       const mappedServerError = mapServerError(rawServerCode);
+      if (this.isAuthError(mappedServerError.code) && this.isTryingCandidateAddress()) {
+        // Anyone can answer at a beacon's address; only the confirmed one may revoke trust.
+        logger.warn("handshake", "Candidate address rejected the trusted reconnect.");
+        this.transport.disconnect();
+        this.handleSocketDisconnected();
+        return;
+      }
       if (this.isAuthError(mappedServerError.code)) {
-        this.callbacks.onAuthFailure?.();
+        this.callbacks.onAuthFailure?.(
+          this.pairingContext?.mode === "trusted" ? this.pairingContext.desktopPublicKey : null,
+        );
         return;
       }
       this.emitError(mappedServerError);
@@ -643,58 +1024,320 @@ export class ConnectionManager {
         return;
       }
       this.markActionCompleted(result.id);
+      logger.info("actions", `Action ${result.id} finished: ${result.status}`, {
+        executionTime: result.executionTime,
+      });
       this.callbacks.onActionResult?.(result);
       return;
     }
 
+    if (parsed.type === "LATENCY_PROBE_ACK") {
+      const probeId =
+        isRecord(parsed.payload) && typeof parsed.payload.id === "string"
+          ? parsed.payload.id
+          : null;
+      const sentAt = probeId ? this.outstandingProbes.get(probeId) : undefined;
+      // An ack for a probe that already expired was counted as lost; ignore it.
+      if (!probeId || sentAt === undefined) {
+        return;
+      }
+      this.outstandingProbes.delete(probeId);
+      this.recordLinkSample(Date.now() - sentAt);
+      return;
+    }
+
+    if (parsed.type === "ACTION_PROGRESS") {
+      const payload = isRecord(parsed.payload) ? parsed.payload : null;
+      const progress = payload ? this.extractActionProgress(payload) : null;
+      if (!progress) {
+        this.emitError("Invalid ACTION_PROGRESS payload.");
+        return;
+      }
+      // Late progress for a finished (or timed-out) action is harmless.
+      if (!this.pendingActions.has(progress.id)) {
+        return;
+      }
+      if (!this.cancellingActionIds.has(progress.id)) {
+        const { actionTimeoutMs } = this.policy;
+        const timeoutText = formatPolicyDuration(actionTimeoutMs);
+        this.trackPendingAction(
+          progress.id,
+          actionTimeoutMs,
+          buildActionTimeoutResult(progress.id, actionTimeoutMs),
+          `Action ${progress.id} timed out after ${timeoutText} without progress.`,
+        );
+      }
+      this.callbacks.onActionProgress?.(progress);
+      return;
+    }
+
     this.emitError({
       code: "INVALID_SERVER_MESSAGE",
       message: "Invalid server message shape.",
     });
   }
 
-  private handlePairSuccess(parsed: Record<string, unknown>): void {
+  private handlePairChallenge(parsed: Record<string, unknown>): void {
     const payload = isRecord(parsed.payload) ? parsed.payload : null;
     const sessionNonce = payload && typeof payload.sessionNonce === "string" ? payload.sessionNonce : null;
+    const desktopPublicKey =
+      payload && typeof payload.desktopPublicKey === "string" ? payload.desktopPublicKey : null;
+    const ephemeralPublicKey =
+      payload && typeof payload.ephemeralPublicKey === "string" ? payload.ephemeralPublicKey : null;
+    const handshakeKeys = this.handshakeKeys;
 
-    if (!sessionNonce || !this.deviceId || !this.pairingContext || this.pairingContext.mode !== "pairing") {
+    if (
+      !sessionNonce ||
+      !desktopPublicKey ||
+      !ephemeralPublicKey ||
+      !this.pairingContext ||
+      this.pairingContext.mode !== "pairing"
+    ) {
+      this.emitError({
+        code: "INVALID_PAIR_CHALLENGE",
+        message: "PAIR_CHALLENGE payload missing sessionNonce or public keys.",
+      });
+      return;
+    }
+
+    if (!handshakeKeys || handshakeKeys.challenge || !this.deviceId) {
+      this.emitError({
+        code: "KEY_AGREEMENT_FAILED",
+        message: "Handshake keys are missing for this session.",
+      });
+      return;
+    }
+
+    let proofs: PairingProofs;
+    try {
+      proofs = cryptoService.derivePairingProofs({
+        deviceId: this.deviceId,
+        sessionNonce,
+        deviceStaticPrivateKey: handshakeKeys.device.privateKey,
+        deviceEphemeralPrivateKey: handshakeKeys.ephemeral.privateKey,
+        desktopStaticPublicKey: desktopPublicKey,
+        desktopEphemeralPublicKey: ephemeralPublicKey,
+        pairingToken: this.pairingContext.pairingToken,
+      });
+    } catch {
+      this.emitError({
+        code: "KEY_AGREEMENT_FAILED",
+        message: "Failed to derive pairing proof from desktop public keys.",
+      });
+      return;
+    }
+
+    handshakeKeys.challenge = {
+      sessionNonce,
+      desktopPublicKey,
+      ephemeralPublicKey,
+      desktopProof: proofs.desktop,
+    };
+    this.send({
+      type: "PAIR_CONFIRM",
+      payload: { deviceId: this.deviceId, pairingProof: proofs.device },
+    });
+  }
+
+  private handlePairSuccess(parsed: Record<string, unknown>): void {
+    const payload = isRecord(parsed.payload) ? parsed.payload : null;
+    const pairingProof =
+      payload && typeof payload.pairingProof === "string" ? payload.pairingProof : null;
+    const challenge = this.handshakeKeys?.challenge;
+
+    if (
+      !pairingProof ||
+      !challenge ||
+      !this.pairingContext ||
+      this.pairingContext.mode !== "pairing"
+    ) {
       this.emitError({
         code: "INVALID_PAIR_SUCCESS",
-        message: "PAIR_SUCCESS payload missing sessionNonce.",
+        message: "PAIR_SUCCESS arrived without a pairing proof or before PAIR_CHALLENGE.",
       });
       return;
     }
 
-    console.log("[TapVolt] Pairing successful", sessionNonce);
-    this.secureSessionKey = cryptoService.deriveSessionKey({
+    // Only a desktop that holds the token (and its static key) can produce this.
+    if (!cryptoService.matchesProof(challenge.desktopProof, pairingProof)) {
+      this.failClosed("PAIRING_PROOF_MISMATCH");
+      return;
+    }
+
+    logger.info("handshake", "Pairing successful");
+    this.establishSession({
+      mode: "pairing",
+      sessionNonce: challenge.sessionNonce,
+      desktopPublicKey: challenge.desktopPublicKey,
+      ephemeralPublicKey: challenge.ephemeralPublicKey,
       pairingToken: this.pairingContext.pairingToken,
-      sessionNonce,
+      serverUrl: this.pairingContext.serverUrl,
+      capabilities: payload?.capabilities,
     });
-    this.secureSessionEnabled = true;
-    this.callbacks.onAuthSuccess?.();
   }
 
   private handleTrustedReconnectSuccess(parsed: Record<string, unknown>): void {
     const payload = isRecord(parsed.payload) ? parsed.payload : null;
     const sessionNonce = payload && typeof payload.sessionNonce === "string" ? payload.sessionNonce : null;
+    const ephemeralPublicKey =
+      payload && typeof payload.ephemeralPublicKey === "string" ? payload.ephemeralPublicKey : null;
+    const reconnectProof =
+      payload && typeof payload.reconnectProof === "string" ? payload.reconnectProof : null;
+    const handshakeKeys = this.handshakeKeys;
 
-    if (!sessionNonce || !this.deviceId || !this.pairingContext || this.pairingContext.mode !== "trusted") {
+    if (
+      !sessionNonce ||
+      !ephemeralPublicKey ||
+      !this.pairingContext ||
+      this.pairingContext.mode !== "trusted"
+    ) {
       this.emitError({
         code: "INVALID_TRUSTED_RECONNECT",
-        message: "TRUSTED_RECONNECT_SUCCESS payload missing sessionNonce.",
+        message: "TRUSTED_RECONNECT_SUCCESS payload missing sessionNonce or ephemeral key.",
+      });
+      return;
+    }
+
+    if (!handshakeKeys || !this.deviceId) {
+      this.emitError({
+        code: "KEY_AGREEMENT_FAILED",
+        message: "Handshake keys are missing for this session.",
+      });
+      return;
+    }
+
+    let expectedProof: string;
+    try {
+      expectedProof = cryptoService.deriveReconnectProof({
+        deviceId: this.deviceId,
+        sessionNonce,
+        deviceStaticPrivateKey: handshakeKeys.device.privateKey,
+        deviceEphemeralPrivateKey: handshakeKeys.ephemeral.privateKey,
+        desktopStaticPublicKey: this.pairingContext.desktopPublicKey,
+        desktopEphemeralPublicKey: ephemeralPublicKey,
+      });
+    } catch {
+      this.emitError({
+        code: "KEY_AGREEMENT_FAILED",
+        message: "Failed to derive reconnect proof from desktop public keys.",
       });
       return;
     }
 
-    this.secureSessionKey = cryptoService.deriveSessionKey({
-      pairingToken: this.deviceId,
+    // Only the desktop holding the pinned static key can produce this.
+    if (!reconnectProof || !cryptoService.matchesProof(expectedProof, reconnectProof)) {
+      if (this.isTryingCandidateAddress()) {
+        // Anyone can answer at a beacon's address; retries go back to the confirmed one.
+        logger.warn("handshake", "Candidate address could not prove the desktop key.");
+        this.handshakeKeys = null;
+        this.transport.disconnect();
+        this.handleSocketDisconnected();
+        return;
+      }
+      this.failClosed("RECONNECT_PROOF_MISMATCH");
+      return;
+    }
+
+    logger.info("handshake", "Trusted reconnect accepted");
+    // The reconnect proof matched the pinned key, so a candidate address is now confirmed.
+    const serverUrl = this.targetUrl ?? this.pairingContext.serverUrl;
+    this.pairingContext = { ...this.pairingContext, serverUrl };
+    this.establishSession({
+      mode: "trusted",
       sessionNonce,
+      desktopPublicKey: this.pairingContext.desktopPublicKey,
+      ephemeralPublicKey,
+      serverUrl,
+      capabilities: payload?.capabilities,
     });
+  }
+
+  private establishSession(input: {
+    mode: AuthenticatedSession["mode"];
+    sessionNonce: string;
+    desktopPublicKey: string;
+    ephemeralPublicKey: string;
+    serverUrl: string;
+    pairingToken?: string;
+    capabilities: unknown;
+  }): void {
+    const handshakeKeys = this.handshakeKeys;
+    const deviceId = this.deviceId;
+    this.handshakeKeys = null;
+
+    if (!handshakeKeys || !deviceId) {
+      this.emitError({
+        code: "KEY_AGREEMENT_FAILED",
+        message: "Handshake keys are missing for this session.",
+      });
+      return;
+    }
+
+    try {
+      this.secureSessionKey = cryptoService.deriveSessionKey({
+        deviceId,
+        sessionNonce: input.sessionNonce,
+        deviceStaticPrivateKey: handshakeKeys.device.privateKey,
+        deviceEphemeralPrivateKey: handshakeKeys.ephemeral.privateKey,
+        desktopStaticPublicKey: input.desktopPublicKey,
+        desktopEphemeralPublicKey: input.ephemeralPublicKey,
+        pairingToken: input.pairingToken,
+      });
+    } catch {
+      this.emitError({
+        code: "KEY_AGREEMENT_FAILED",
+        message: "Failed to derive session key from desktop public keys.",
+      });
+      return;
+    }
+
+    this.outboundSequence = 0;
+    this.inboundSequence = 0;
     this.secureSessionEnabled = true;
-    this.callbacks.onAuthSuccess?.();
+    this.capabilities = parseDesktopCapabilities(input.capabilities);
+    this.resetLinkQuality();
+    this.emitWarning(
+      input.capabilities === undefined
+        ? "Desktop did not report its capabilities. Some actions may be rejected."
+        : null,
+    );
+    this.callbacks.onAuthSuccess?.({
+      mode: input.mode,
+      deviceId,
+      serverUrl: input.serverUrl,
+      desktopPublicKey: input.desktopPublicKey,
+      capabilities: this.capabilities,
+      certFingerprint: this.pairingContext?.certFingerprint ?? null,
+    });
   }
 
-  private isEncryptedEnvelope(parsed: unknown): parsed is EncryptedBlob {
+  /**
+   * Encrypted frames must carry a strictly increasing `seq`. Anything at or
+   * below the last accepted value is a duplicate, reordered or replayed frame.
+   */
+  private acceptInboundSequence(message: Record<string, unknown>): boolean {
+    const seq = message.seq;
+    if (typeof seq !== "number" || !Number.isSafeInteger(seq) || seq < 1) {
+      this.emitError({
+        code: "INVALID_SEQUENCE",
+        message: "Encrypted server message is missing a valid sequence number.",
+      });
+      return false;
+    }
+
+    if (seq <= this.inboundSequence) {
+      this.emitError({
+        code: "REPLAYED_MESSAGE",
+        message: `Dropped server message with sequence ${seq}; last accepted was ${this.inboundSequence}.`,
+      });
+      return false;
+    }
+
+    this.inboundSequence = seq;
+    return true;
+  }
+
+  private isEncryptedEnvelope(parsed: unknown): parsed is Record<string, unknown> {
     if (!isRecord(parsed)) {
       return false;
     }
@@ -707,6 +1350,40 @@ export class ConnectionManager {
     );
   }
 
+  private isSupportedEnvelope(envelope: Record<string, unknown>): envelope is EncryptedBlob {
+    return (
+      envelope.version === ENVELOPE_VERSION &&
+      typeof envelope.tag === "string" &&
+      envelope.tag.length > 0
+    );
+  }
+
+  /** (Re)arms the timeout that reports `timeoutResult` if no ACTION_RESULT arrives. */
+  private trackPendingAction(
+    actionId: string,
+    timeoutMs: number,
+    timeoutResult: ExecutionResult,
+    timeoutMessage: string,
+  ): void {
+    const previous = this.pendingActions.get(actionId);
+    if (previous) {
+      clearTimeout(previous);
+    }
+
+    const timeout = setTimeout(() => {
+      if (!this.removePendingAction(actionId)) {
+        return;
+      }
+      this.markActionCompleted(actionId);
+      logger.warn("actions", timeoutMessage);
+      this.callbacks.onActionTimeout?.(actionId);
+      this.callbacks.onActionResult?.(timeoutResult);
+      this.emitError(timeoutMessage);
+    }, timeoutMs);
+
+    this.pendingActions.set(actionId, timeout);
+  }
+
   private removePendingAction(actionId: string): boolean {
     const timeout = this.pendingActions.get(actionId);
     if (!timeout) {
@@ -714,14 +1391,26 @@ export class ConnectionManager {
     }
     clearTimeout(timeout);
     this.pendingActions.delete(actionId);
+    this.cancellingActionIds.delete(actionId);
     return true;
   }
 
-  private clearPendingActions(): void {
+  /**
+   * Fails every pending action with `reason`: its result can no longer arrive,
+   * and an unanswered entry would keep blocking repeats and cancel strips.
+   */
+  private clearPendingActions(reason: string): void {
+    const dropped = [...this.pendingActions.keys()];
     for (const timeout of this.pendingActions.values()) {
       clearTimeout(timeout);
     }
     this.pendingActions.clear();
+    this.cancellingActionIds.clear();
+
+    for (const actionId of dropped) {
+      this.markActionCompleted(actionId);
+      this.callbacks.onActionResult?.(buildDroppedActionResult(actionId, reason));
+    }
   }
 
   private startHeartbeatTimer(): void {
@@ -732,15 +1421,16 @@ export class ConnectionManager {
         return;
       }
 
-      const isStale = Date.now() - this.lastHeartbeat > HEARTBEAT_TIMEOUT_MS;
+      const isStale = Date.now() - this.lastHeartbeat > this.policy.heartbeatTimeoutMs;
       if (!isStale) {
+        this.tickLatencyProbe();
         return;
       }
 
       this.emitError("Heartbeat timeout. Reconnecting.");
       this.clearHeartbeatTimer();
-      this.socketService.disconnect(4000, "Heartbeat timeout");
-      this.scheduleReconnect();
+      this.transport.disconnect(4000, "Heartbeat timeout");
+      this.scheduleReconnect("Heartbeat timeout");
     }, HEARTBEAT_CHECK_INTERVAL_MS);
   }
 
@@ -752,35 +1442,91 @@ export class ConnectionManager {
     this.heartbeatTimer = null;
   }
 
+  /**
+   * Runs on the heartbeat check interval: probes still unanswered after
+   * `LATENCY_PROBE_TIMEOUT_MS` count as lost, and a new probe goes out every
+   * `LATENCY_PROBE_INTERVAL_MS` to desktops that advertise `latencyProbe`.
+   */
+  private tickLatencyProbe(): void {
+    const now = Date.now();
+    for (const [probeId, sentAt] of this.outstandingProbes) {
+      if (now - sentAt >= LATENCY_PROBE_TIMEOUT_MS) {
+        this.outstandingProbes.delete(probeId);
+        this.recordLinkSample(null);
+      }
+    }
+
+    if (
+      !this.secureSessionEnabled ||
+      !this.capabilities.latencyProbe ||
+      this.state !== ConnectionState.CONNECTED ||
+      (this.lastProbeAt !== null && now - this.lastProbeAt < LATENCY_PROBE_INTERVAL_MS)
+    ) {
+      return;
+    }
+
+    this.probeNonce += 1;
+    const probeId = `probe-${this.probeNonce}`;
+    this.lastProbeAt = now;
+    const sent = this.send({
+      type: "LATENCY_PROBE",
+      timestamp: now,
+      payload: { id: probeId },
+    });
+    if (sent) {
+      this.outstandingProbes.set(probeId, now);
+    }
+  }
+
+  private recordLinkSample(sample: LinkSample): void {
+    this.linkSamples = appendLinkSample(this.linkSamples, sample);
+    this.callbacks.onLinkQuality?.(summarizeLinkQuality(this.linkSamples));
+  }
+
+  private resetLinkQuality(): void {
+    this.linkSamples = [];
+    this.outstandingProbes.clear();
+    this.lastProbeAt = null;
+    this.callbacks.onLinkQuality?.(UNKNOWN_LINK_QUALITY);
+  }
+
   private markHeartbeatNow(): void {
     this.lastHeartbeat = Date.now();
     this.callbacks.onHeartbeat?.(this.lastHeartbeat);
   }
 
-  private scheduleReconnect(): void {
+  private isTryingCandidateAddress(): boolean {
+    return (
+      this.pairingContext?.mode === "trusted" && this.targetUrl !== this.pairingContext.serverUrl
+    );
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (this.isTryingCandidateAddress() && this.pairingContext) {
+      this.targetUrl = this.pairingContext.serverUrl;
+    }
+
     if (!this.targetUrl || this.reconnectSuspended) {
-      this.setState(ConnectionState.DISCONNECTED);
+      this.setState(ConnectionState.DISCONNECTED, reason);
       return;
     }
 
-    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
-      this.emitError("Reconnect failed after 10 attempts.");
-      this.setState(ConnectionState.ERROR);
+    if (this.reconnectAttempt >= this.policy.maxReconnectAttempts) {
+      this.emitError(`Reconnect failed after ${this.policy.maxReconnectAttempts} attempts.`);
+      this.setState(ConnectionState.ERROR, `${reason}; reconnect attempts exhausted`);
       return;
     }
 
     this.reconnectAttempt += 1;
-    const delay = Math.min(
-      1_000 * 2 ** (this.reconnectAttempt - 1),
-      MAX_RECONNECT_DELAY_MS,
-    );
+    const delay = getReconnectDelayMs(this.reconnectAttempt, this.policy);
 
-    this.setState(ConnectionState.RECONNECTING);
+    this.setState(ConnectionState.RECONNECTING, `${reason}; retrying in ${delay} ms`);
     this.clearReconnectTimer();
     this.reconnectTimer = setTimeout(() => {
       this.secureSessionEnabled = false;
       this.secureSessionKey = null;
-      this.openSocket(ConnectionState.RECONNECTING);
+      this.handshakeKeys = null;
+      this.openSocket(ConnectionState.RECONNECTING, `Reconnect attempt ${this.reconnectAttempt}`);
     }, delay);
   }
 
@@ -792,13 +1538,21 @@ export class ConnectionManager {
     this.reconnectTimer = null;
   }
 
-  private setState(next: ConnectionState): void {
+  private setState(next: ConnectionState, reason: string): void {
     if (!this.isValidStateTransition(this.state, next)) {
       this.emitError(`Illegal state transition: ${this.state} -> ${next}`);
       return;
     }
+    this.transitions = appendRecent(this.transitions, {
+      at: Date.now(),
+      from: this.state,
+      to: next,
+      reason,
+      reconnectAttempt: this.reconnectAttempt,
+    });
     this.state = next;
     this.callbacks.onStateChange?.(next, this.reconnectAttempt);
+    this.emitDiagnostics();
   }
 
   private parseJson(raw: string): unknown | null {
@@ -813,7 +1567,9 @@ export class ConnectionManager {
   private extractActionResult(payload: Record<string, unknown>): ExecutionResult | null {
     if (
       typeof payload.id !== "string" ||
-      (payload.status !== "success" && payload.status !== "error") ||
+      (payload.status !== "success" &&
+        payload.status !== "error" &&
+        payload.status !== "cancelled") ||
       typeof payload.executionTime !== "number"
     ) {
       return null;
@@ -829,16 +1585,34 @@ export class ConnectionManager {
     };
   }
 
-  private emitError(error: string | ConnectionErrorPayload): void {
-    if (typeof error === "string") {
-      this.callbacks.onError?.({
-        code: "CLIENT_ERROR",
-        message: error,
-      });
-      return;
+  private extractActionProgress(payload: Record<string, unknown>): ActionProgress | null {
+    const { id, stepIndex, totalSteps, status } = payload;
+    if (
+      typeof id !== "string" ||
+      typeof totalSteps !== "number" ||
+      !Number.isInteger(totalSteps) ||
+      totalSteps < 1 ||
+      typeof stepIndex !== "number" ||
+      !Number.isInteger(stepIndex) ||
+      stepIndex < 0 ||
+      stepIndex >= totalSteps ||
+      (status !== "running" && status !== "completed")
+    ) {
+      return null;
     }
 
-    this.callbacks.onError?.(error);
+    return { id, stepIndex, totalSteps, status };
+  }
+
+  private emitError(error: string | ConnectionErrorPayload): void {
+    const payload = typeof error === "string" ? { code: "CLIENT_ERROR", message: error } : error;
+    this.recentErrors = appendRecent(this.recentErrors, { ...payload, at: Date.now() });
+    this.callbacks.onError?.(payload);
+    this.emitDiagnostics();
+  }
+
+  private emitDiagnostics(): void {
+    this.callbacks.onDiagnostics?.(this.getDiagnostics());
   }
 
   private emitWarning(message: string | null): void {
@@ -925,16 +1699,16 @@ export class ConnectionManager {
       this.reconnectSuspended = true;
       this.clearReconnectTimer();
       this.clearHeartbeatTimer();
-      this.clearPendingActions();
-      this.socketService.disconnect();
-      this.setState(ConnectionState.DISCONNECTED);
+      this.clearPendingActions(DROPPED_ACTION_ERRORS.BACKGROUNDED);
+      this.transport.disconnect();
+      this.setState(ConnectionState.DISCONNECTED, "App moved to the background");
       return;
     }
 
     if (!wasActive && isActive && this.targetUrl) {
       this.reconnectSuspended = false;
       this.reconnectAttempt = 0;
-      this.openSocket(ConnectionState.CONNECTING);
+      this.openSocket(ConnectionState.CONNECTING, "App returned to the foreground");
     }
   };
 }
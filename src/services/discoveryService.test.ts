@@ -0,0 +1,100 @@
+import { DISCOVERY_PORT } from "../types/discovery";
+import type { DiscoveredDesktop } from "../types/discovery";
+import { DiscoveryService, parseDiscoveryBeacon, type DiscoveryTransport } from "./discoveryService";
+
+const createFakeBeacon = () => {
+  let deliver: ((data: string, address: string) => void) | null = null;
+  let fail: ((message: string) => void) | null = null;
+  const sent: { data: string; port: number }[] = [];
+  const transport: DiscoveryTransport = {
+    open: (_port, onMessage, onError) => {
+      deliver = onMessage;
+      fail = onError;
+    },
+    broadcast: (data, port) => {
+      sent.push({ data, port });
+    },
+    close: () => {
+      deliver = null;
+    },
+  };
+
+  return {
+    transport,
+    sent,
+    announce: (beacon: Record<string, unknown>, address: string) =>
+      deliver?.(JSON.stringify(beacon), address),
+    failSocket: (message: string) => {
+      deliver = null;
+      fail?.(message);
+    },
+  };
+};
+
+const beacon = {
+  service: "tapvolt",
+  version: 1,
+  type: "ANNOUNCE",
+  desktopId: "desktop-fingerprint",
+  port: 8080,
+  name: "Studio",
+};
+
+describe("discoveryService", () => {
+  it("parses announce beacons into server URLs", () => {
+    expect(parseDiscoveryBeacon(JSON.stringify(beacon), "192.168.1.44", 5)).toEqual({
+      desktopId: "desktop-fingerprint",
+      serverUrl: "ws://192.168.1.44:8080",
+      name: "Studio",
+      seenAt: 5,
+    });
+    expect(parseDiscoveryBeacon(JSON.stringify({ ...beacon, port: 0 }), "192.168.1.44")).toBeNull();
+    expect(parseDiscoveryBeacon(JSON.stringify({ ...beacon, service: "other" }), "10.0.0.2")).toBeNull();
+    expect(parseDiscoveryBeacon("not json", "10.0.0.2")).toBeNull();
+  });
+
+  it("probes without a device id and reports desktops from a fake beacon", () => {
+    const fake = createFakeBeacon();
+    const service = new DiscoveryService(fake.transport);
+    const found: DiscoveredDesktop[] = [];
+    service.setCallbacks({ onDesktopFound: (desktop) => found.push(desktop) });
+
+    service.start();
+    fake.announce(beacon, "192.168.1.50");
+    fake.announce({ ...beacon, type: "DISCOVER" }, "192.168.1.51");
+    service.stop();
+    fake.announce(beacon, "192.168.1.52");
+
+    expect(fake.sent.length).toBe(1);
+    expect(fake.sent[0].port).toBe(DISCOVERY_PORT);
+    expect(JSON.parse(fake.sent[0].data)).toEqual({
+      service: "tapvolt",
+      version: 1,
+      type: "DISCOVER",
+    });
+    expect(found.length).toBe(1);
+    expect(found[0].serverUrl).toBe("ws://192.168.1.50:8080");
+  });
+
+  it("stops and reports a failed socket so discovery can be started again", async () => {
+    jest.useFakeTimers();
+    const fake = createFakeBeacon();
+    const service = new DiscoveryService(fake.transport);
+    const errors: string[] = [];
+    service.setCallbacks({ onError: (message) => errors.push(message) });
+
+    service.start();
+    fake.failSocket("LAN discovery socket failed.");
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(errors).toEqual(["LAN discovery socket failed."]);
+    expect(service.isRunning).toBe(false);
+    expect(fake.sent.length).toBe(1);
+
+    service.start();
+    expect(service.isRunning).toBe(true);
+    expect(fake.sent.length).toBe(2);
+    service.stop();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,148 @@
+import { buildServerUrl } from "../security/pairingManager";
+import {
+  DISCOVERY_PORT,
+  DISCOVERY_SERVICE,
+  DISCOVERY_VERSION,
+  type DiscoveredDesktop,
+  type DiscoveryQuery,
+} from "../types/discovery";
+
+/**
+ * Datagram I/O used by `DiscoveryService`; swapped for a fake beacon in tests.
+ * `onError` reports a socket that failed after `open` and is already closed.
+ */
+export type DiscoveryTransport = {
+  open: (
+    port: number,
+    onMessage: (data: string, address: string) => void,
+    onError: (message: string) => void,
+  ) => void;
+  broadcast: (data: string, port: number) => void;
+  close: () => void;
+};
+
+type DiscoveryServiceCallbacks = {
+  onDesktopFound?: (desktop: DiscoveredDesktop) => void;
+  onError?: (message: string) => void;
+};
+
+const PROBE_INTERVAL_MS = 5_000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+export const parseDiscoveryBeacon = (
+  data: string,
+  address: string,
+  now: number = Date.now(),
+): DiscoveredDesktop | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data) as unknown;
+  } catch {
+    return null;
+  }
+
+  if (
+    !isRecord(parsed) ||
+    parsed.service !== DISCOVERY_SERVICE ||
+    parsed.version !== DISCOVERY_VERSION ||
+    parsed.type !== "ANNOUNCE" ||
+    typeof parsed.desktopId !== "string" ||
+    parsed.desktopId.trim().length === 0 ||
+    typeof parsed.port !== "number" ||
+    !Number.isInteger(parsed.port) ||
+    parsed.port < 1 ||
+    parsed.port > 65535 ||
+    address.trim().length === 0
+  ) {
+    return null;
+  }
+
+  const name = typeof parsed.name === "string" ? parsed.name.trim() : "";
+
+  return {
+    desktopId: parsed.desktopId.trim(),
+    serverUrl: buildServerUrl(address, parsed.port),
+    name: name.length > 0 ? name : null,
+    seenAt: now,
+  };
+};
+
+export class DiscoveryService {
+  private callbacks: DiscoveryServiceCallbacks = {};
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(private readonly transport: DiscoveryTransport) {}
+
+  setCallbacks(callbacks: DiscoveryServiceCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+
+    try {
+      this.transport.open(DISCOVERY_PORT, this.handleMessage, this.handleTransportError);
+    } catch {
+      this.callbacks.onError?.("LAN discovery is unavailable on this device.");
+      return;
+    }
+
+    this.running = true;
+    this.probe();
+    this.probeTimer = setInterval(() => this.probe(), PROBE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.running = false;
+    this.transport.close();
+  }
+
+  probe(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const query: DiscoveryQuery = {
+      service: DISCOVERY_SERVICE,
+      version: DISCOVERY_VERSION,
+      type: "DISCOVER",
+    };
+
+    try {
+      this.transport.broadcast(JSON.stringify(query), DISCOVERY_PORT);
+    } catch {
+      this.callbacks.onError?.("Failed to send LAN discovery probe.");
+    }
+  }
+
+  /** The socket is gone, so discovery stops and can be started again. */
+  private handleTransportError = (message: string): void => {
+    this.stop();
+    this.callbacks.onError?.(message);
+  };
+
+  private handleMessage = (data: string, address: string): void => {
+    const desktop = parseDiscoveryBeacon(data, address);
+    if (desktop) {
+      this.callbacks.onDesktopFound?.(desktop);
+    }
+  };
+}
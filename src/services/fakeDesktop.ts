@@ -0,0 +1,480 @@
+import { x25519 } from "@noble/curves/ed25519";
+import { hkdf } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import forge from "node-forge";
+
+import { cryptoService, type EncryptedBlob, type KeyPair } from "../security/cryptoService";
+import type { DesktopCapabilities } from "../types/protocol";
+import { DEFAULT_DESKTOP_CAPABILITIES } from "../utils/desktopCapabilities";
+import type { Transport, TransportCallbacks, TransportConnectOptions } from "./transport";
+
+export type FakeDesktopOptions = {
+  pairingToken?: string;
+  /** Fingerprint of the TLS certificate presented on `wss://` connections. */
+  certificateFingerprint?: string;
+  /** Defaults to true; false mirrors `SocketService`, which cannot pin. */
+  supportsCertificatePinning?: boolean;
+  /** `null` omits capabilities from the handshake reply, like a pre-3.0 desktop. */
+  capabilities?: DesktopCapabilities | null;
+  /** Executed actions report success right away unless this is false. */
+  autoCompleteActions?: boolean;
+  executionTimeMs?: number;
+};
+
+type ClientFrame = Record<string, unknown>;
+
+type DeviceHandshake = {
+  deviceId: string;
+  devicePublicKey: string;
+  ephemeralPublicKey: string;
+};
+
+/** A PAIR_CHALLENGE sent and awaiting the device's PAIR_CONFIRM. */
+type PendingPairing = {
+  device: DeviceHandshake;
+  sessionKey: string;
+  deviceProof: string;
+  desktopProof: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = forge.util.decode64(value);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const toBase64 = (bytes: Uint8Array): string =>
+  forge.util.encode64(String.fromCharCode(...bytes));
+
+/**
+ * In-memory desktop that speaks protocol 3.2 over the `Transport` seam, for
+ * driving `ConnectionManager` under fake timers. Pairing tokens are single-use
+ * and proven by HMAC rather than sent, trusted reconnects need a device the
+ * desktop has paired (or was told to trust) and prove the desktop's key, and
+ * every reply arrives
+ * asynchronously like a socket frame would.
+ */
+export class FakeDesktop implements Transport {
+  readonly supportsCertificatePinning: boolean;
+  readonly keyPair: KeyPair = cryptoService.generateKeyPair();
+  /** While false, `connect` fails the way an unreachable host does. */
+  reachable = true;
+  autoCompleteActions: boolean;
+  /** While false, LATENCY_PROBE goes unanswered, as on a lossy link. */
+  answerProbes = true;
+  /** While false, CANCEL_ACTION goes unanswered, as from a hung desktop. */
+  answerCancels = true;
+  /** Client frames in arrival order, decrypted when they came in an envelope. */
+  readonly received: ClientFrame[] = [];
+  /** Client frames that arrived outside the session envelope. */
+  readonly plaintext: ClientFrame[] = [];
+  /** `Date.now()` of every `connect` call, for asserting backoff delays. */
+  readonly connectAttempts: number[] = [];
+  /**
+   * While set, handshakes are answered with this key pair instead of `keyPair`,
+   * as by a host at a spoofed address that does not hold the desktop's key.
+   */
+  impostorKeyPair: KeyPair | null = null;
+
+  private readonly certificateFingerprint: string | null;
+  private readonly capabilities: DesktopCapabilities | null;
+  private readonly executionTimeMs: number;
+  private pairingToken: string | null;
+  private callbacks: TransportCallbacks = {};
+  private trustedDevices = new Map<string, string>();
+  private generation = 0;
+  private open = false;
+  private sessionKey: string | null = null;
+  private outboundSequence = 0;
+  private sessionCounter = 0;
+  private lastSealedFrame: unknown = null;
+  private pendingPairing: PendingPairing | null = null;
+
+  constructor(options: FakeDesktopOptions = {}) {
+    this.pairingToken = options.pairingToken ?? null;
+    this.certificateFingerprint = options.certificateFingerprint ?? null;
+    this.supportsCertificatePinning = options.supportsCertificatePinning ?? true;
+    this.capabilities =
+      options.capabilities === undefined ? DEFAULT_DESKTOP_CAPABILITIES : options.capabilities;
+    this.autoCompleteActions = options.autoCompleteActions ?? true;
+    this.executionTimeMs = options.executionTimeMs ?? 5;
+  }
+
+  setCallbacks(callbacks: TransportCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Presents `certificateFingerprint` on `wss://` URLs and opens whatever pin
+   * the caller expects, so tests exercise `ConnectionManager`'s own check.
+   */
+  connect(url: string, _options?: TransportConnectOptions): void {
+    this.closeSession();
+    this.connectAttempts.push(Date.now());
+    const presented = url.startsWith("wss://") ? this.certificateFingerprint : null;
+
+    if (!this.reachable) {
+      this.deliver(() => {
+        this.callbacks.onError?.();
+        this.callbacks.onDisconnected?.();
+      });
+      return;
+    }
+
+    this.deliver(() => {
+      this.open = true;
+      this.callbacks.onConnected?.({ certificateFingerprint: presented });
+    });
+  }
+
+  send(message: unknown): boolean {
+    if (!this.open || !isRecord(message)) {
+      return false;
+    }
+
+    const frame = this.readFrame(message);
+    if (frame) {
+      this.received.push(frame);
+      this.handleFrame(frame);
+    }
+    return true;
+  }
+
+  disconnect(_code?: number, _reason?: string): void {
+    this.closeSession();
+  }
+
+  trustDevice(deviceId: string, devicePublicKey: string): void {
+    this.trustedDevices.set(deviceId, devicePublicKey);
+  }
+
+  revokeDevice(deviceId: string): void {
+    this.trustedDevices.delete(deviceId);
+  }
+
+  /** Closes the socket from the desktop side, as a crash or network drop would. */
+  drop(): void {
+    if (!this.open) {
+      return;
+    }
+    this.closeSession();
+    this.deliver(() => this.callbacks.onDisconnected?.());
+  }
+
+  ping(): void {
+    this.reply({ type: "PING", timestamp: Date.now() });
+  }
+
+  sendError(code: string): void {
+    this.reply({ type: "ERROR", payload: { code } });
+  }
+
+  /** Sends a frame outside the session envelope, bypassing encryption. */
+  sendPlaintext(message: Record<string, unknown>): void {
+    this.deliverFrame(message);
+  }
+
+  /** Delivers the last sealed frame again unchanged, as a replaying attacker would. */
+  replayLastFrame(): void {
+    if (this.lastSealedFrame !== null) {
+      this.deliverFrame(this.lastSealedFrame);
+    }
+  }
+
+  /** Seals `message` with an explicit `seq`, or none, ignoring the outbound counter. */
+  sendWithSequence(message: Record<string, unknown>, seq: number | undefined): void {
+    if (this.sessionKey) {
+      this.deliverFrame(cryptoService.encryptJson({ ...message, seq }, this.sessionKey));
+    }
+  }
+
+  completeAction(
+    id: string,
+    status: "success" | "error" | "cancelled" = "success",
+    error?: string,
+  ): void {
+    this.reply({
+      type: "ACTION_RESULT",
+      payload: { id, status, executionTime: this.executionTimeMs, ...(error ? { error } : {}) },
+    });
+  }
+
+  reportProgress(id: string, stepIndex: number, totalSteps: number): void {
+    this.reply({
+      type: "ACTION_PROGRESS",
+      payload: { id, stepIndex, totalSteps, status: "running" },
+    });
+  }
+
+  private readFrame(message: Record<string, unknown>): ClientFrame | null {
+    if (typeof message.iv !== "string") {
+      this.plaintext.push(message);
+      return message;
+    }
+    if (!this.sessionKey) {
+      return null;
+    }
+    return cryptoService.decryptJson<ClientFrame>(message as EncryptedBlob, this.sessionKey);
+  }
+
+  private handleFrame(frame: ClientFrame): void {
+    const payload = isRecord(frame.payload) ? frame.payload : {};
+
+    switch (frame.type) {
+      case "PAIR_REQUEST":
+        this.handlePairRequest(payload);
+        return;
+      case "PAIR_CONFIRM":
+        this.handlePairConfirm(payload);
+        return;
+      case "TRUSTED_RECONNECT":
+        this.handleTrustedReconnect(payload);
+        return;
+      case "EXECUTE_ACTION":
+        if (this.autoCompleteActions && typeof payload.id === "string") {
+          this.completeAction(payload.id);
+        }
+        return;
+      case "CANCEL_ACTION":
+        if (this.answerCancels && typeof payload.id === "string") {
+          this.completeAction(payload.id, "cancelled");
+        }
+        return;
+      case "LATENCY_PROBE":
+        if (this.answerProbes && typeof payload.id === "string") {
+          this.reply({ type: "LATENCY_PROBE_ACK", payload: { id: payload.id } });
+        }
+        return;
+      default:
+        return;
+    }
+  }
+
+  private handlePairRequest(payload: Record<string, unknown>): void {
+    const { deviceId, devicePublicKey, ephemeralPublicKey } = payload;
+    if (
+      typeof deviceId !== "string" ||
+      typeof devicePublicKey !== "string" ||
+      typeof ephemeralPublicKey !== "string"
+    ) {
+      this.sendError("INVALID_PAYLOAD");
+      return;
+    }
+    if (this.pairingToken === null) {
+      this.sendError("PAIRING_TOKEN_ALREADY_USED");
+      return;
+    }
+
+    const device = { deviceId, devicePublicKey, ephemeralPublicKey };
+    const { sessionNonce, ephemeral, sharedSecret } = this.agree(device);
+    const token = utf8ToBytes(this.pairingToken);
+    const prove = this.createProver("tapvolt-pair-proof-v3", token, device, {
+      sessionNonce,
+      ephemeral,
+      sharedSecret,
+    });
+
+    this.pendingPairing = {
+      device,
+      sessionKey: this.deriveSessionKey(sharedSecret, token, deviceId, sessionNonce),
+      deviceProof: prove("device"),
+      desktopProof: prove("desktop"),
+    };
+    this.deliverFrame({
+      type: "PAIR_CHALLENGE",
+      payload: {
+        sessionNonce,
+        desktopPublicKey: this.handshakeKeyPair.publicKey,
+        ephemeralPublicKey: ephemeral.publicKey,
+      },
+    });
+  }
+
+  /** The token is consumed and the device trusted only once its proof checks out. */
+  private handlePairConfirm(payload: Record<string, unknown>): void {
+    const pending = this.pendingPairing;
+    this.pendingPairing = null;
+    if (!pending || payload.deviceId !== pending.device.deviceId) {
+      this.sendError("INVALID_PAYLOAD");
+      return;
+    }
+    if (payload.pairingProof !== pending.deviceProof) {
+      this.sendError("PAIRING_PROOF_INVALID");
+      return;
+    }
+
+    this.pairingToken = null;
+    this.trustedDevices.set(pending.device.deviceId, pending.device.devicePublicKey);
+    this.startSession(pending.sessionKey, {
+      type: "PAIR_SUCCESS",
+      payload: {
+        pairingProof: pending.desktopProof,
+        ...(this.capabilities ? { capabilities: this.capabilities } : {}),
+      },
+    });
+  }
+
+  private handleTrustedReconnect(payload: Record<string, unknown>): void {
+    const { deviceId, ephemeralPublicKey } = payload;
+    const devicePublicKey =
+      typeof deviceId === "string" ? this.trustedDevices.get(deviceId) : undefined;
+    if (
+      !devicePublicKey ||
+      typeof deviceId !== "string" ||
+      typeof ephemeralPublicKey !== "string"
+    ) {
+      this.sendError("DEVICE_NOT_AUTHORIZED");
+      return;
+    }
+
+    const device = { deviceId, devicePublicKey, ephemeralPublicKey };
+    const agreement = this.agree(device);
+    const { sessionNonce, ephemeral, sharedSecret } = agreement;
+    const prove = this.createProver(
+      "tapvolt-reconnect-proof-v3",
+      new Uint8Array(),
+      device,
+      agreement,
+    );
+    this.startSession(
+      this.deriveSessionKey(sharedSecret, new Uint8Array(), deviceId, sessionNonce),
+      {
+        type: "TRUSTED_RECONNECT_SUCCESS",
+        payload: {
+          sessionNonce,
+          ephemeralPublicKey: ephemeral.publicKey,
+          reconnectProof: prove("desktop"),
+          ...(this.capabilities ? { capabilities: this.capabilities } : {}),
+        },
+      },
+    );
+  }
+
+  private get handshakeKeyPair(): KeyPair {
+    return this.impostorKeyPair ?? this.keyPair;
+  }
+
+  /** Mirrors `CryptoService`'s three agreements from the desktop's side. */
+  private agree(device: DeviceHandshake): {
+    sessionNonce: string;
+    ephemeral: KeyPair;
+    sharedSecret: Uint8Array;
+  } {
+    this.sessionCounter += 1;
+    const ephemeral = cryptoService.generateKeyPair();
+    const ephemeralPrivate = fromBase64(ephemeral.privateKey);
+    const deviceEphemeral = fromBase64(device.ephemeralPublicKey);
+
+    return {
+      sessionNonce: `fake-session-${this.sessionCounter}`,
+      ephemeral,
+      sharedSecret: new Uint8Array([
+        ...x25519.getSharedSecret(ephemeralPrivate, deviceEphemeral),
+        ...x25519.getSharedSecret(ephemeralPrivate, fromBase64(device.devicePublicKey)),
+        ...x25519.getSharedSecret(fromBase64(this.handshakeKeyPair.privateKey), deviceEphemeral),
+      ]),
+    };
+  }
+
+  /** Mirrors `CryptoService`'s transcript tags for pairing and reconnect proofs. */
+  private createProver(
+    info: string,
+    salt: Uint8Array,
+    device: DeviceHandshake,
+    agreement: { sessionNonce: string; ephemeral: KeyPair; sharedSecret: Uint8Array },
+  ): (role: "device" | "desktop") => string {
+    const { deviceId, devicePublicKey, ephemeralPublicKey } = device;
+    const { sessionNonce, ephemeral, sharedSecret } = agreement;
+    const proofKey = hkdf(
+      sha256,
+      sharedSecret,
+      salt,
+      utf8ToBytes(`${info}|${deviceId}|${sessionNonce}`),
+      32,
+    );
+    const transcript = [
+      info,
+      deviceId,
+      sessionNonce,
+      devicePublicKey,
+      ephemeralPublicKey,
+      this.handshakeKeyPair.publicKey,
+      ephemeral.publicKey,
+    ].join("|");
+    return (role) => toBase64(hmac(sha256, proofKey, utf8ToBytes(`${role}|${transcript}`)));
+  }
+
+  private deriveSessionKey(
+    sharedSecret: Uint8Array,
+    salt: Uint8Array,
+    deviceId: string,
+    sessionNonce: string,
+  ): string {
+    return bytesToHex(
+      hkdf(
+        sha256,
+        sharedSecret,
+        salt,
+        utf8ToBytes(`tapvolt-session-v3|${deviceId}|${sessionNonce}`),
+        32,
+      ),
+    );
+  }
+
+  private startSession(sessionKey: string, handshakeReply: Record<string, unknown>): void {
+    // The handshake reply itself is plaintext; everything after it is sealed.
+    this.deliverFrame(handshakeReply);
+    this.sessionKey = sessionKey;
+    this.outboundSequence = 0;
+  }
+
+  private reply(message: Record<string, unknown>): void {
+    if (!this.sessionKey) {
+      this.deliverFrame(message);
+      return;
+    }
+
+    this.outboundSequence += 1;
+    this.lastSealedFrame = cryptoService.encryptJson(
+      { ...message, seq: this.outboundSequence },
+      this.sessionKey,
+    );
+    this.deliverFrame(this.lastSealedFrame);
+  }
+
+  private deliverFrame(frame: unknown): void {
+    const raw = JSON.stringify(frame);
+    this.deliver(() => {
+      if (this.open) {
+        this.callbacks.onMessage?.(raw);
+      }
+    });
+  }
+
+  /**
+   * Runs `deliver` once the caller's stack unwinds (so `sendMacro` has armed its
+   * timeout before the result lands), unless the connection was replaced.
+   * Microtasks keep fake-timer assertions exact to the millisecond.
+   */
+  private deliver(deliver: () => void): void {
+    const generation = this.generation;
+    void Promise.resolve().then(() => {
+      if (generation === this.generation) {
+        deliver();
+      }
+    });
+  }
+
+  private closeSession(): void {
+    this.generation += 1;
+    this.open = false;
+    this.sessionKey = null;
+    this.outboundSequence = 0;
+    this.lastSealedFrame = null;
+    this.pendingPairing = null;
+  }
+}
@@ -0,0 +1,63 @@
+import { LOG_BUFFER_SIZE, Logger, REDACTED, redactLogData } from "./logger";
+
+describe("logger", () => {
+  it("redacts typed text, commands, tokens, nonces and envelope contents", () => {
+    expect(
+      redactLogData({
+        type: "EXECUTE_ACTION",
+        payload: {
+          id: "action-1",
+          steps: [
+            { type: "text", value: "hunter2" },
+            { type: "command", command: "rm -rf ~/build" },
+            { type: "key", key: "enter" },
+          ],
+        },
+      }),
+    ).toEqual({
+      type: "EXECUTE_ACTION",
+      payload: {
+        id: "action-1",
+        steps: [
+          { type: "text", value: REDACTED },
+          { type: "command", command: REDACTED },
+          { type: "key", key: "enter" },
+        ],
+      },
+    });
+
+    expect(
+      redactLogData({ pairingToken: "abcdef1234567890", payload: { sessionNonce: "n-1" } }),
+    ).toEqual({ pairingToken: REDACTED, payload: { sessionNonce: REDACTED } });
+    expect(
+      redactLogData({ version: 2, iv: "iv", encryptedPayload: "cipher", tag: "tag" }),
+    ).toEqual({ version: 2, encryptedPayload: REDACTED });
+    expect(redactLogData(new Error("disk full"))).toEqual({ name: "Error", message: "disk full" });
+  });
+
+  it("keeps a bounded buffer and mirrors only levels at or above the console level", () => {
+    const printed: string[] = [];
+    jest.spyOn(console, "log").mockImplementation((line: string) => printed.push(line));
+    jest.spyOn(console, "warn").mockImplementation((line: string) => printed.push(line));
+    const logger = new Logger();
+    const snapshots: number[] = [];
+    const unsubscribe = logger.subscribe((entries) => snapshots.push(entries.length));
+
+    logger.setConsoleLevel("warn");
+    for (let index = 0; index < LOG_BUFFER_SIZE + 5; index += 1) {
+      logger.debug("transport", `line ${index}`);
+    }
+    logger.warn("storage", "Failed to save profiles", new Error("quota"));
+    unsubscribe();
+    logger.info("actions", "not observed");
+
+    const entries = logger.getEntries();
+    expect(entries.length).toBe(LOG_BUFFER_SIZE);
+    expect(entries[0].message).toBe("line 7");
+    expect(entries[LOG_BUFFER_SIZE - 2].data).toEqual({ name: "Error", message: "quota" });
+    expect(snapshots.length).toBe(LOG_BUFFER_SIZE + 6);
+    expect(printed).toEqual(["[TapVolt] [storage] Failed to save profiles"]);
+
+    jest.restoreAllMocks();
+  });
+});
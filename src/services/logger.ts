@@ -0,0 +1,141 @@
+import type { LogCategory, LogEntry, LogLevel } from "../types/log";
+
+export const LOG_BUFFER_SIZE = 200;
+export const REDACTED = "[redacted]";
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const MAX_REDACTION_DEPTH = 6;
+
+/** Pairing tokens and proofs, session nonces and key material, matched on the key name. */
+const SECRET_KEY_PATTERN = /token|proof|nonce|secret|privatekey|sessionkey|password/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isSecretField = (owner: Record<string, unknown>, key: string): boolean => {
+  if (SECRET_KEY_PATTERN.test(key)) {
+    return true;
+  }
+  // Typed text and shell commands are user content, not diagnostics.
+  return (
+    (key === "value" && owner.type === "text") || (key === "command" && owner.type === "command")
+  );
+};
+
+/**
+ * Copies `data` with secrets replaced by `REDACTED`. Encrypted envelopes keep
+ * only their version, and errors are reduced to name and message.
+ */
+export const redactLogData = (data: unknown, depth = 0): unknown => {
+  if (data instanceof Error) {
+    return { name: data.name, message: data.message };
+  }
+  if (!isRecord(data)) {
+    return data;
+  }
+  if (depth >= MAX_REDACTION_DEPTH) {
+    return "[truncated]";
+  }
+  if (Array.isArray(data)) {
+    return data.map((item) => redactLogData(item, depth + 1));
+  }
+  if (typeof data.encryptedPayload === "string") {
+    return { version: data.version, encryptedPayload: REDACTED };
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    redacted[key] = isSecretField(data, key) ? REDACTED : redactLogData(value, depth + 1);
+  }
+  return redacted;
+};
+
+const CONSOLE_WRITERS: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: (...args) => console.log(...args),
+  info: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+type LogListener = (entries: LogEntry[]) => void;
+
+/**
+ * Leveled, categorized logger for the connection path. Every entry is redacted
+ * before it is buffered or printed; the newest `LOG_BUFFER_SIZE` entries stay
+ * in memory for in-app diagnostics.
+ */
+export class Logger {
+  private entries: LogEntry[] = [];
+  private listeners = new Set<LogListener>();
+  private nextId = 1;
+  private consoleLevel: LogLevel | null = "debug";
+
+  /** Lowest level mirrored to the console; null keeps logs in the buffer only. */
+  setConsoleLevel(level: LogLevel | null): void {
+    this.consoleLevel = level;
+  }
+
+  debug(category: LogCategory, message: string, data?: unknown): void {
+    this.write("debug", category, message, data);
+  }
+
+  info(category: LogCategory, message: string, data?: unknown): void {
+    this.write("info", category, message, data);
+  }
+
+  warn(category: LogCategory, message: string, data?: unknown): void {
+    this.write("warn", category, message, data);
+  }
+
+  error(category: LogCategory, message: string, data?: unknown): void {
+    this.write("error", category, message, data);
+  }
+
+  getEntries(): LogEntry[] {
+    return this.entries;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  /** Calls `listener` with the whole buffer after every change. */
+  subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private write(level: LogLevel, category: LogCategory, message: string, data?: unknown): void {
+    const entry: LogEntry = {
+      id: this.nextId,
+      at: Date.now(),
+      level,
+      category,
+      message,
+      ...(data === undefined ? {} : { data: redactLogData(data) }),
+    };
+    this.nextId += 1;
+    this.entries = [...this.entries, entry].slice(-LOG_BUFFER_SIZE);
+
+    if (this.consoleLevel !== null && LEVEL_ORDER[level] >= LEVEL_ORDER[this.consoleLevel]) {
+      const prefix = `[TapVolt] [${category}] ${message}`;
+      if (entry.data === undefined) {
+        CONSOLE_WRITERS[level](prefix);
+      } else {
+        CONSOLE_WRITERS[level](prefix, entry.data);
+      }
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener(this.entries);
+    }
+  }
+}
+
+export const logger = new Logger();
@@ -1,11 +1,22 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
+import type { Profile } from "../config/profiles";
+import type { ConnectionPolicy } from "../types/connectionPolicy";
+import type { ActionHistoryEntry } from "../types/history";
 import type { StoredTrustedDevice } from "../types/pairing";
+import { logger } from "./logger";
 
 export const STORAGE_KEYS = {
   IP_ADDRESS: "tapvolt_ip",
   ACTIVE_PROFILE: "tapvolt_profile",
   TRUSTED_DEVICE: "tapvolt_trusted_device",
+  TRUSTED_DEVICES: "tapvolt_trusted_devices",
+  SELECTED_TRUSTED_DEVICE: "tapvolt_selected_trusted_device",
+  PROFILES: "tapvolt_profiles",
+  ACTION_HISTORY: "tapvolt_action_history",
+  OFFLINE_QUEUE: "tapvolt_offline_queue",
+  CONNECTION_POLICY: "tapvolt_connection_policy",
+  TEMPLATE_VARIABLES: "tapvolt_template_variables",
 } as const;
 
 function parseStoredString(raw: string | null): string | null {
@@ -40,11 +51,24 @@ function parseStoredObject(raw: string | null): Record<string, unknown> | null {
   }
 }
 
+function parseStoredArray(raw: string | null): unknown[] | null {
+  if (raw === null) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function saveIp(ip: string): Promise<void> {
   try {
     await AsyncStorage.setItem(STORAGE_KEYS.IP_ADDRESS, serializeString(ip));
   } catch (error: unknown) {
-    console.warn("Failed to save IP address", error);
+    logger.warn("storage", "Failed to save IP address", error);
   }
 }
 
@@ -55,7 +79,7 @@ export async function loadIp(): Promise<string | null> {
     );
     return parseStoredString(rawValue);
   } catch (error: unknown) {
-    console.warn("Failed to load IP address", error);
+    logger.warn("storage", "Failed to load IP address", error);
     return null;
   }
 }
@@ -67,7 +91,7 @@ export async function saveActiveProfile(profileId: string): Promise<void> {
       serializeString(profileId)
     );
   } catch (error: unknown) {
-    console.warn("Failed to save active profile", error);
+    logger.warn("storage", "Failed to save active profile", error);
   }
 }
 
@@ -78,19 +102,59 @@ export async function loadActiveProfile(): Promise<string | null> {
     );
     return parseStoredString(rawValue);
   } catch (error: unknown) {
-    console.warn("Failed to load active profile", error);
+    logger.warn("storage", "Failed to load active profile", error);
+    return null;
+  }
+}
+
+export async function saveTrustedDevices(devices: StoredTrustedDevice[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.TRUSTED_DEVICES, JSON.stringify(devices));
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to save trusted devices", error);
+  }
+}
+
+export async function loadTrustedDevices(): Promise<unknown[] | null> {
+  try {
+    const rawValue: string | null = await AsyncStorage.getItem(
+      STORAGE_KEYS.TRUSTED_DEVICES,
+    );
+    return parseStoredArray(rawValue);
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to load trusted devices", error);
     return null;
   }
 }
 
-export async function saveTrustedDevice(device: StoredTrustedDevice): Promise<void> {
+export async function saveSelectedTrustedDevice(deviceId: string | null): Promise<void> {
+  try {
+    if (deviceId === null) {
+      await AsyncStorage.removeItem(STORAGE_KEYS.SELECTED_TRUSTED_DEVICE);
+      return;
+    }
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.SELECTED_TRUSTED_DEVICE,
+      serializeString(deviceId),
+    );
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to save selected trusted device", error);
+  }
+}
+
+export async function loadSelectedTrustedDevice(): Promise<string | null> {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.TRUSTED_DEVICE, JSON.stringify(device));
+    const rawValue: string | null = await AsyncStorage.getItem(
+      STORAGE_KEYS.SELECTED_TRUSTED_DEVICE,
+    );
+    return parseStoredString(rawValue);
   } catch (error: unknown) {
-    console.warn("Failed to save trusted device", error);
+    logger.warn("storage", "Failed to load selected trusted device", error);
+    return null;
   }
 }
 
+/** Legacy single-desktop record, read once to migrate into the trusted device list. */
 export async function loadTrustedDevice(): Promise<Record<string, unknown> | null> {
   try {
     const rawValue: string | null = await AsyncStorage.getItem(
@@ -98,7 +162,7 @@ export async function loadTrustedDevice(): Promise<Record<string, unknown> | nul
     );
     return parseStoredObject(rawValue);
   } catch (error: unknown) {
-    console.warn("Failed to load trusted device", error);
+    logger.warn("storage", "Failed to load trusted device", error);
     return null;
   }
 }
@@ -107,6 +171,97 @@ export async function clearTrustedDevice(): Promise<void> {
   try {
     await AsyncStorage.removeItem(STORAGE_KEYS.TRUSTED_DEVICE);
   } catch (error: unknown) {
-    console.warn("Failed to clear trusted device", error);
+    logger.warn("storage", "Failed to clear trusted device", error);
+  }
+}
+
+export async function saveProfiles(profiles: Profile[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.PROFILES, JSON.stringify(profiles));
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to save profiles", error);
+  }
+}
+
+export async function loadProfiles(): Promise<unknown[] | null> {
+  try {
+    const rawValue: string | null = await AsyncStorage.getItem(STORAGE_KEYS.PROFILES);
+    return parseStoredArray(rawValue);
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to load profiles", error);
+    return null;
+  }
+}
+
+export async function saveActionHistory(history: ActionHistoryEntry[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.ACTION_HISTORY, JSON.stringify(history));
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to save action history", error);
+  }
+}
+
+export async function loadActionHistory(): Promise<unknown[] | null> {
+  try {
+    const rawValue: string | null = await AsyncStorage.getItem(STORAGE_KEYS.ACTION_HISTORY);
+    return parseStoredArray(rawValue);
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to load action history", error);
+    return null;
+  }
+}
+
+export async function saveOfflineQueueEnabled(enabled: boolean): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(enabled));
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to save offline queue setting", error);
+  }
+}
+
+export async function loadOfflineQueueEnabled(): Promise<boolean | null> {
+  try {
+    const rawValue: string | null = await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE);
+    const parsed: unknown = rawValue === null ? null : JSON.parse(rawValue);
+    return typeof parsed === "boolean" ? parsed : null;
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to load offline queue setting", error);
+    return null;
+  }
+}
+
+export async function saveConnectionPolicy(policy: ConnectionPolicy): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.CONNECTION_POLICY, JSON.stringify(policy));
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to save connection policy", error);
+  }
+}
+
+export async function loadConnectionPolicy(): Promise<Record<string, unknown> | null> {
+  try {
+    const rawValue: string | null = await AsyncStorage.getItem(STORAGE_KEYS.CONNECTION_POLICY);
+    return parseStoredObject(rawValue);
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to load connection policy", error);
+    return null;
+  }
+}
+
+export async function saveTemplateVariables(variables: Record<string, string>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.TEMPLATE_VARIABLES, JSON.stringify(variables));
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to save template variables", error);
+  }
+}
+
+export async function loadTemplateVariables(): Promise<Record<string, unknown> | null> {
+  try {
+    const rawValue: string | null = await AsyncStorage.getItem(STORAGE_KEYS.TEMPLATE_VARIABLES);
+    return parseStoredObject(rawValue);
+  } catch (error: unknown) {
+    logger.warn("storage", "Failed to load template variables", error);
+    return null;
   }
 }
@@ -0,0 +1,250 @@
+import { logger } from "./logger";
+import {
+  PinnedSocketService,
+  type TlsConnectionEvents,
+  type TlsConnector,
+} from "./pinnedSocketService";
+import type { Transport, TransportPeer } from "./transport";
+import {
+  OPCODE,
+  WebSocketFrameReader,
+  bytesToBinary,
+  computeAcceptKey,
+  decodeUtf8,
+  encodeFrame,
+  encodeUtf8,
+  type WebSocketFrame,
+} from "./webSocketFrames";
+
+const PIN = "ab".repeat(32);
+const PIN_WITH_COLONS = Array.from({ length: 32 }, () => "AB").join(":");
+
+/** Desktop side of a TLS stream: records what the client writes and answers by hand. */
+const createFakeTlsDesktop = (reportsCertificateFingerprint = true) => {
+  let events: TlsConnectionEvents | null = null;
+  const written: Uint8Array[] = [];
+  const targets: { host: string; port: number }[] = [];
+  let closed = false;
+
+  const connector: TlsConnector = {
+    reportsCertificateFingerprint,
+    connect: (host, port, connectionEvents) => {
+      targets.push({ host, port });
+      events = connectionEvents;
+      closed = false;
+      return {
+        write: (bytes) => {
+          written.push(bytes);
+        },
+        close: () => {
+          closed = true;
+        },
+      };
+    },
+  };
+
+  const upgradeRequest = () => bytesToBinary(written[0] ?? new Uint8Array(0));
+
+  return {
+    connector,
+    written,
+    targets,
+    isClosed: () => closed,
+    upgradeRequest,
+    presentCertificate: (fingerprint: string | null) => events?.onSecureConnect(fingerprint),
+    deliver: (...chunks: Uint8Array[]) => chunks.forEach((chunk) => events?.onData(chunk)),
+    acceptUpgrade: (acceptKey?: string) => {
+      const key = /Sec-WebSocket-Key: (\S+)/.exec(upgradeRequest())?.[1] ?? "";
+      return encodeUtf8(
+        [
+          "HTTP/1.1 101 Switching Protocols",
+          "Upgrade: websocket",
+          "Connection: Upgrade",
+          `Sec-WebSocket-Accept: ${acceptKey ?? computeAcceptKey(key)}`,
+          "",
+          "",
+        ].join("\r\n"),
+      );
+    },
+    /** Client frames written after the upgrade request, unmasked. */
+    clientFrames: (): WebSocketFrame[] => {
+      const reader = new WebSocketFrameReader(true);
+      return written.slice(1).flatMap((bytes) => reader.push(bytes));
+    },
+  };
+};
+
+const text = (value: string, fin = true, opcode: number = OPCODE.TEXT) => {
+  const frame = encodeFrame(opcode, encodeUtf8(value), null);
+  if (!fin) {
+    frame[0] &= 0x7f;
+  }
+  return frame;
+};
+
+const listen = (transport: Transport) => {
+  const events = {
+    connected: [] as (TransportPeer | undefined)[],
+    messages: [] as unknown[],
+    errors: 0,
+    disconnects: 0,
+  };
+  transport.setCallbacks({
+    onConnected: (peer) => events.connected.push(peer),
+    onMessage: (data) => events.messages.push(data),
+    onError: () => {
+      events.errors += 1;
+    },
+    onDisconnected: () => {
+      events.disconnects += 1;
+    },
+  });
+  return events;
+};
+
+const openPinned = () => {
+  const desktop = createFakeTlsDesktop();
+  const transport = new PinnedSocketService(desktop.connector);
+  const events = listen(transport);
+  transport.connect("wss://192.168.1.20:8443", { certificateFingerprint: PIN });
+  desktop.presentCertificate(PIN_WITH_COLONS);
+  return { desktop, transport, events };
+};
+
+describe("pinnedSocketService", () => {
+  beforeEach(() => {
+    logger.setConsoleLevel(null);
+  });
+
+  afterEach(() => {
+    logger.setConsoleLevel("debug");
+  });
+
+  it("upgrades over TLS when the presented certificate matches the pin", () => {
+    const { desktop, transport, events } = openPinned();
+
+    expect(transport.supportsCertificatePinning).toBe(true);
+    expect(desktop.targets).toEqual([{ host: "192.168.1.20", port: 8443 }]);
+    expect(desktop.upgradeRequest().startsWith("GET / HTTP/1.1\r\n")).toBe(true);
+    expect(desktop.upgradeRequest().includes("Host: 192.168.1.20:8443\r\n")).toBe(true);
+    expect(events.connected).toEqual([]);
+
+    // The first frame may arrive in the same chunk as the upgrade response.
+    const response = desktop.acceptUpgrade();
+    const frame = text('{"type":"HELLO"}');
+    const chunk = new Uint8Array(response.length + frame.length);
+    chunk.set(response, 0);
+    chunk.set(frame, response.length);
+    desktop.deliver(chunk);
+
+    expect(events.connected).toEqual([{ certificateFingerprint: PIN }]);
+    expect(events.messages).toEqual(['{"type":"HELLO"}']);
+  });
+
+  it("sends masked text frames and answers pings", () => {
+    const { desktop, transport, events } = openPinned();
+    desktop.deliver(desktop.acceptUpgrade());
+
+    expect(transport.send({ type: "PING", n: 1 })).toBe(true);
+    desktop.deliver(encodeFrame(OPCODE.PING, encodeUtf8("beat"), null));
+
+    const frames = desktop.clientFrames();
+    expect(frames.map((frame) => frame.opcode)).toEqual([OPCODE.TEXT, OPCODE.PONG]);
+    expect(decodeUtf8(frames[0].payload)).toBe('{"type":"PING","n":1}');
+    expect(decodeUtf8(frames[1].payload)).toBe("beat");
+    expect(events.messages).toEqual([]);
+  });
+
+  it("reassembles a fragmented message split across chunks", () => {
+    const { desktop, events } = openPinned();
+    desktop.deliver(desktop.acceptUpgrade());
+
+    const first = text('{"type":', false);
+    const last = text('"ACK"}', true, OPCODE.CONTINUATION);
+    desktop.deliver(first.subarray(0, 3), first.subarray(3), last.subarray(0, 4));
+    expect(events.messages).toEqual([]);
+    desktop.deliver(last.subarray(4));
+
+    expect(events.messages).toEqual(['{"type":"ACK"}']);
+  });
+
+  it("sends nothing to a desktop presenting a different certificate", () => {
+    const desktop = createFakeTlsDesktop();
+    const transport = new PinnedSocketService(desktop.connector);
+    const events = listen(transport);
+    const presented = "cd".repeat(32);
+
+    transport.connect("wss://192.168.1.20:8443", { certificateFingerprint: PIN });
+    desktop.presentCertificate(presented.toUpperCase());
+
+    expect(desktop.written).toEqual([]);
+    expect(desktop.isClosed()).toBe(true);
+    expect(events.connected).toEqual([{ certificateFingerprint: presented }]);
+    expect(transport.send({ type: "PING" })).toBe(false);
+  });
+
+  it("fails the connection on a bad upgrade accept key", () => {
+    const { desktop, transport, events } = openPinned();
+
+    desktop.deliver(desktop.acceptUpgrade("bm90IHRoZSBhY2NlcHQ="));
+
+    expect(events.connected).toEqual([]);
+    expect(events.errors).toBe(1);
+    expect(events.disconnects).toBe(1);
+    expect(desktop.isClosed()).toBe(true);
+    expect(transport.send({ type: "PING" })).toBe(false);
+  });
+
+  it("fails the connection on an oversized upgrade response header", () => {
+    const padding = `X-Padding: ${"a".repeat(1_000)}\r\n`;
+
+    const unterminated = openPinned();
+    for (let index = 0; index < 8; index += 1) {
+      unterminated.desktop.deliver(encodeUtf8(padding));
+    }
+    expect(unterminated.events.errors).toBe(0);
+    unterminated.desktop.deliver(encodeUtf8(padding));
+
+    expect(unterminated.events.connected).toEqual([]);
+    expect(unterminated.events.errors).toBe(1);
+    expect(unterminated.events.disconnects).toBe(1);
+    expect(unterminated.desktop.isClosed()).toBe(true);
+
+    // A header that does end, but only after the cap, is refused as well.
+    const terminated = openPinned();
+    const accept = bytesToBinary(terminated.desktop.acceptUpgrade());
+    const [statusLine, ...headers] = accept.split("\r\n");
+    terminated.desktop.deliver(
+      encodeUtf8([statusLine, padding.repeat(9).trimEnd(), ...headers].join("\r\n")),
+    );
+
+    expect(terminated.events.connected).toEqual([]);
+    expect(terminated.events.errors).toBe(1);
+    expect(terminated.desktop.isClosed()).toBe(true);
+  });
+
+  it("closes without callbacks on disconnect and reports a remote close", () => {
+    const { desktop, transport, events } = openPinned();
+    desktop.deliver(desktop.acceptUpgrade());
+
+    transport.disconnect(4000, "Heartbeat timeout");
+
+    const [closeFrame] = desktop.clientFrames();
+    expect(closeFrame.opcode).toBe(OPCODE.CLOSE);
+    expect(Array.from(closeFrame.payload.subarray(0, 2))).toEqual([0x0f, 0xa0]);
+    expect(desktop.isClosed()).toBe(true);
+    expect(events.disconnects).toBe(0);
+
+    const reopened = openPinned();
+    reopened.desktop.deliver(reopened.desktop.acceptUpgrade());
+    reopened.desktop.deliver(encodeFrame(OPCODE.CLOSE, new Uint8Array([0x03, 0xe8]), null));
+    expect(reopened.events.disconnects).toBe(1);
+    expect(reopened.transport.send({ type: "PING" })).toBe(false);
+  });
+
+  it("reports no pinning where the platform cannot read the certificate", () => {
+    const transport = new PinnedSocketService(createFakeTlsDesktop(false).connector);
+
+    expect(transport.supportsCertificatePinning).toBe(false);
+  });
+});
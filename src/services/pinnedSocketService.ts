@@ -0,0 +1,315 @@
+import { getRandomBytes } from "expo-crypto";
+import forge from "node-forge";
+
+import { normalizeCertFingerprint } from "../security/pairingManager";
+import { logger } from "./logger";
+import type { Transport, TransportCallbacks, TransportConnectOptions } from "./transport";
+import {
+  OPCODE,
+  WebSocketFrameReader,
+  buildUpgradeRequest,
+  bytesToBinary,
+  decodeUtf8,
+  encodeFrame,
+  encodeUtf8,
+  readUpgradeResponse,
+  type WebSocketFrame,
+} from "./webSocketFrames";
+
+export type TlsConnectionEvents = {
+  /** TLS is up; carries the presented certificate's SHA-256 as reported by the platform. */
+  onSecureConnect: (certificateFingerprint: string | null) => void;
+  onData: (bytes: Uint8Array) => void;
+  onError: () => void;
+  onClose: () => void;
+};
+
+export type TlsConnection = {
+  write: (bytes: Uint8Array) => void;
+  close: () => void;
+};
+
+/**
+ * TLS byte stream used by `PinnedSocketService`; `createTcpTlsConnector` wraps
+ * the native socket and tests script the desktop through a fake. Connections
+ * skip CA validation: desktops use self-signed certificates, checked by pin.
+ */
+export type TlsConnector = {
+  /** False where the platform socket cannot report the peer certificate's SHA-256. */
+  readonly reportsCertificateFingerprint: boolean;
+  connect: (host: string, port: number, events: TlsConnectionEvents) => TlsConnection;
+};
+
+const WSS_URL_PATTERN = /^wss:\/\/([^/:\s]+|\[[^\]\s]+\]):(\d{1,5})(\/\S*)?$/i;
+const MAX_CONTROL_PAYLOAD_BYTES = 125;
+const NORMAL_CLOSURE = 1000;
+const WEBSOCKET_KEY_BYTES = 16;
+const MASK_BYTES = 4;
+
+type Phase = "idle" | "securing" | "upgrading" | "open" | "refused";
+
+/**
+ * WebSocket client over a raw TLS stream, for `wss://` desktops whose
+ * self-signed certificate is pinned by SHA-256. React Native's WebSocket
+ * cannot do this: it neither exposes the peer certificate nor accepts a
+ * self-signed one.
+ *
+ * The pin is checked before the upgrade request is written. On a mismatch
+ * nothing is sent: the presented fingerprint is still reported through
+ * `onConnected` so `ConnectionManager` fails closed with its own error code.
+ */
+export class PinnedSocketService implements Transport {
+  private callbacks: TransportCallbacks = {};
+  private connection: TlsConnection | null = null;
+  private reader = new WebSocketFrameReader();
+  private phase: Phase = "idle";
+  private generation = 0;
+  private websocketKey = "";
+  /** Partial upgrade response; readUpgradeResponse throws before it reaches 8 KiB. */
+  private handshakeBuffer = new Uint8Array(0);
+  private presentedFingerprint: string | null = null;
+  private fragments: Uint8Array[] = [];
+
+  constructor(private readonly connector: TlsConnector) {}
+
+  get supportsCertificatePinning(): boolean {
+    return this.connector.reportsCertificateFingerprint;
+  }
+
+  setCallbacks(callbacks: TransportCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  connect(url: string, options?: TransportConnectOptions): void {
+    this.disconnect();
+    const generation = this.generation;
+    const match = WSS_URL_PATTERN.exec(url.trim());
+    const port = match ? Number(match[2]) : 0;
+    if (!match || port < 1 || port > 65535) {
+      logger.error("transport", "Pinned transport only opens wss://host:port URLs.");
+      void Promise.resolve().then(() => {
+        if (generation === this.generation) {
+          this.callbacks.onError?.();
+          this.callbacks.onDisconnected?.();
+        }
+      });
+      return;
+    }
+
+    const host = match[1].replace(/^\[|\]$/g, "");
+    const path = match[3] ?? "/";
+    const expected = options?.certificateFingerprint
+      ? normalizeCertFingerprint(options.certificateFingerprint)
+      : null;
+    const isCurrent = () => generation === this.generation;
+
+    this.phase = "securing";
+    this.connection = this.connector.connect(host, port, {
+      onSecureConnect: (fingerprint) => {
+        if (isCurrent()) {
+          this.handleSecureConnect(fingerprint, expected, { host: match[1], port, path });
+        }
+      },
+      onData: (bytes) => {
+        if (isCurrent()) {
+          this.handleData(bytes);
+        }
+      },
+      onError: () => {
+        if (isCurrent()) {
+          this.callbacks.onError?.();
+        }
+      },
+      onClose: () => {
+        if (isCurrent()) {
+          this.handleRemoteClose();
+        }
+      },
+    });
+  }
+
+  send(message: unknown): boolean {
+    if (this.phase !== "open" || !this.connection) {
+      return false;
+    }
+
+    this.writeFrame(OPCODE.TEXT, encodeUtf8(JSON.stringify(message)));
+    return true;
+  }
+
+  disconnect(code: number = NORMAL_CLOSURE, reason = ""): void {
+    this.generation += 1;
+    const connection = this.connection;
+    const wasOpen = this.phase === "open";
+    this.resetSession();
+    if (!connection) {
+      return;
+    }
+
+    if (wasOpen) {
+      const reasonBytes = encodeUtf8(reason).slice(0, MAX_CONTROL_PAYLOAD_BYTES - 2);
+      const payload = new Uint8Array(2 + reasonBytes.length);
+      payload[0] = code >>> 8;
+      payload[1] = code & 0xff;
+      payload.set(reasonBytes, 2);
+      connection.write(encodeFrame(OPCODE.CLOSE, payload, this.mask()));
+    }
+    connection.close();
+  }
+
+  private handleSecureConnect(
+    fingerprint: string | null,
+    expected: string | null,
+    target: { host: string; port: number; path: string },
+  ): void {
+    this.presentedFingerprint = fingerprint ? normalizeCertFingerprint(fingerprint) : null;
+
+    if (expected !== null && this.presentedFingerprint !== expected) {
+      logger.error("transport", "Presented certificate does not match the pin; not upgrading.");
+      this.phase = "refused";
+      this.connection?.close();
+      this.callbacks.onConnected?.({ certificateFingerprint: this.presentedFingerprint });
+      return;
+    }
+
+    this.phase = "upgrading";
+    this.websocketKey = forge.util.encode64(bytesToBinary(getRandomBytes(WEBSOCKET_KEY_BYTES)));
+    this.connection?.write(buildUpgradeRequest({ ...target, key: this.websocketKey }));
+  }
+
+  private handleData(bytes: Uint8Array): void {
+    try {
+      if (this.phase === "upgrading") {
+        const joined = new Uint8Array(this.handshakeBuffer.length + bytes.length);
+        joined.set(this.handshakeBuffer, 0);
+        joined.set(bytes, this.handshakeBuffer.length);
+        const rest = readUpgradeResponse(joined, this.websocketKey);
+        if (rest === null) {
+          this.handshakeBuffer = joined;
+          return;
+        }
+
+        this.phase = "open";
+        this.handshakeBuffer = new Uint8Array(0);
+        this.callbacks.onConnected?.({ certificateFingerprint: this.presentedFingerprint });
+        this.handleFrames(rest);
+        return;
+      }
+
+      if (this.phase === "open") {
+        this.handleFrames(bytes);
+      }
+    } catch (error: unknown) {
+      logger.error(
+        "transport",
+        error instanceof Error ? error.message : "WebSocket protocol error.",
+      );
+      this.failConnection();
+    }
+  }
+
+  private handleFrames(bytes: Uint8Array): void {
+    const generation = this.generation;
+    for (const frame of this.reader.push(bytes)) {
+      // A callback may have disconnected or reconnected this transport.
+      if (generation !== this.generation || this.phase !== "open") {
+        return;
+      }
+      this.handleFrame(frame);
+    }
+  }
+
+  private handleFrame(frame: WebSocketFrame): void {
+    const isControl = frame.opcode >= OPCODE.CLOSE;
+    if (isControl && (!frame.fin || frame.payload.length > MAX_CONTROL_PAYLOAD_BYTES)) {
+      throw new Error("Desktop sent an invalid WebSocket control frame.");
+    }
+
+    switch (frame.opcode) {
+      case OPCODE.PING:
+        this.writeFrame(OPCODE.PONG, frame.payload);
+        return;
+      case OPCODE.PONG:
+        return;
+      case OPCODE.CLOSE: {
+        const connection = this.connection;
+        this.generation += 1;
+        this.resetSession();
+        connection?.write(encodeFrame(OPCODE.CLOSE, frame.payload.slice(0, 2), this.mask()));
+        connection?.close();
+        this.callbacks.onDisconnected?.();
+        return;
+      }
+      case OPCODE.TEXT:
+      case OPCODE.BINARY:
+      case OPCODE.CONTINUATION:
+        this.handleDataFrame(frame);
+        return;
+      default:
+        throw new Error(`Desktop sent an unknown WebSocket opcode ${frame.opcode}.`);
+    }
+  }
+
+  /** Reassembles fragmented messages; only text messages reach `onMessage`. */
+  private handleDataFrame(frame: WebSocketFrame): void {
+    const isContinuation = frame.opcode === OPCODE.CONTINUATION;
+    if (isContinuation !== this.fragments.length > 0) {
+      throw new Error("Desktop sent an out-of-order WebSocket fragment.");
+    }
+    if (!isContinuation && frame.opcode !== OPCODE.TEXT) {
+      throw new Error("Desktop sent a binary WebSocket frame.");
+    }
+
+    this.fragments.push(frame.payload);
+    if (!frame.fin) {
+      return;
+    }
+
+    const length = this.fragments.reduce((total, fragment) => total + fragment.length, 0);
+    const message = new Uint8Array(length);
+    let offset = 0;
+    for (const fragment of this.fragments) {
+      message.set(fragment, offset);
+      offset += fragment.length;
+    }
+    this.fragments = [];
+    this.callbacks.onMessage?.(decodeUtf8(message));
+  }
+
+  private handleRemoteClose(): void {
+    const wasRefused = this.phase === "refused";
+    this.generation += 1;
+    this.resetSession();
+    // A refused pin is already reported through `onConnected`; the manager closes deliberately.
+    if (!wasRefused) {
+      this.callbacks.onDisconnected?.();
+    }
+  }
+
+  private failConnection(): void {
+    const connection = this.connection;
+    this.generation += 1;
+    this.resetSession();
+    connection?.close();
+    this.callbacks.onError?.();
+    this.callbacks.onDisconnected?.();
+  }
+
+  private writeFrame(opcode: number, payload: Uint8Array): void {
+    this.connection?.write(encodeFrame(opcode, payload, this.mask()));
+  }
+
+  private mask(): Uint8Array {
+    return getRandomBytes(MASK_BYTES);
+  }
+
+  private resetSession(): void {
+    this.connection = null;
+    this.phase = "idle";
+    this.reader = new WebSocketFrameReader();
+    this.websocketKey = "";
+    this.handshakeBuffer = new Uint8Array(0);
+    this.presentedFingerprint = null;
+    this.fragments = [];
+  }
+}
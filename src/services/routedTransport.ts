@@ -0,0 +1,38 @@
+import type { Transport, TransportCallbacks, TransportConnectOptions } from "./transport";
+
+/**
+ * Sends `wss://` URLs to `secure` and everything else to `plain`, so pinned
+ * desktops go over the TLS transport while `ws://` keeps the stock WebSocket.
+ * Only the transport opened last carries frames.
+ */
+export class RoutedTransport implements Transport {
+  private active: Transport | null = null;
+
+  constructor(
+    private readonly plain: Transport,
+    private readonly secure: Transport,
+  ) {}
+
+  get supportsCertificatePinning(): boolean {
+    return this.secure.supportsCertificatePinning;
+  }
+
+  setCallbacks(callbacks: TransportCallbacks): void {
+    this.plain.setCallbacks(callbacks);
+    this.secure.setCallbacks(callbacks);
+  }
+
+  connect(url: string, options?: TransportConnectOptions): void {
+    this.active?.disconnect();
+    this.active = /^wss:\/\//i.test(url.trim()) ? this.secure : this.plain;
+    this.active.connect(url, options);
+  }
+
+  send(message: unknown): boolean {
+    return this.active?.send(message) ?? false;
+  }
+
+  disconnect(code?: number, reason?: string): void {
+    this.active?.disconnect(code, reason);
+  }
+}
@@ -1,3 +1,5 @@
+import type { Transport } from "./transport";
+
 type SocketServiceCallbacks = {
   onOpen?: () => void;
   onClose?: (event: WebSocketCloseEvent) => void;
@@ -9,7 +11,12 @@ type SocketServiceCallbacks = {
 
 const noop = () => {};
 
-export class SocketService {
+export class SocketService implements Transport {
+  /**
+   * React Native's WebSocket neither exposes the peer certificate nor accepts a
+   * self-signed one; pinned `wss://` sessions go through `PinnedSocketService`.
+   */
+  readonly supportsCertificatePinning = false;
   private socket: WebSocket | null = null;
   private callbacks: SocketServiceCallbacks = {};
   private connected = false;
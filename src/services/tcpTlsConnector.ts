@@ -0,0 +1,85 @@
+import { Platform } from "react-native";
+import type TcpSocket from "react-native-tcp-socket";
+
+import type { TlsConnector } from "./pinnedSocketService";
+
+type TcpSocketModule = typeof TcpSocket;
+
+type TlsOptions = Parameters<TcpSocketModule["connectTLS"]>[0] & {
+  /** Read by the native `startTLS` but missing from the library's types. */
+  rejectUnauthorized: boolean;
+};
+
+let tcpSocketModule: TcpSocketModule | null | undefined;
+
+/**
+ * `react-native-tcp-socket` is a native module missing from Expo Go, so it is
+ * loaded on first use rather than when `connectionManager` is imported. Null
+ * where it is not linked.
+ */
+const loadTcpSocketModule = (): TcpSocketModule | null => {
+  if (tcpSocketModule === undefined) {
+    try {
+      const loaded = require("react-native-tcp-socket") as
+        | TcpSocketModule
+        | { default: TcpSocketModule };
+      tcpSocketModule = "default" in loaded ? loaded.default : loaded;
+    } catch {
+      tcpSocketModule = null;
+    }
+  }
+  return tcpSocketModule;
+};
+
+const toBytes = (data: string | Uint8Array): Uint8Array =>
+  typeof data === "string" ? Uint8Array.from(data, (char) => char.charCodeAt(0) & 0xff) : data;
+
+/**
+ * TLS over `react-native-tcp-socket`. CA validation is off because desktops
+ * present self-signed certificates; `PinnedSocketService` checks the pin.
+ * Only Android reports `fingerprint256` for the peer certificate, so iOS
+ * cannot pin and pinned pairing stays refused there, as it does on builds
+ * without the native module.
+ */
+export const createTcpTlsConnector = (): TlsConnector => ({
+  get reportsCertificateFingerprint() {
+    return Platform.OS === "android" && loadTcpSocketModule() !== null;
+  },
+  connect: (host, port, events) => {
+    const tcpSocket = loadTcpSocketModule();
+    if (!tcpSocket) {
+      // Fails like an unreachable host instead of throwing into the caller.
+      void Promise.resolve().then(() => {
+        events.onError();
+        events.onClose();
+      });
+      return { write: () => {}, close: () => {} };
+    }
+    const options: TlsOptions = { host, port, rejectUnauthorized: false };
+    const socket = tcpSocket.connectTLS(options);
+
+    socket.on("secureConnect", () => {
+      Promise.resolve(socket.getPeerCertificate())
+        .then((certificate: unknown) => {
+          const fingerprint =
+            typeof certificate === "object" && certificate !== null
+              ? (certificate as { fingerprint256?: unknown }).fingerprint256
+              : undefined;
+          events.onSecureConnect(typeof fingerprint === "string" ? fingerprint : null);
+        })
+        .catch(() => events.onSecureConnect(null));
+    });
+    socket.on("data", (data: string | Uint8Array) => events.onData(toBytes(data)));
+    socket.on("error", () => events.onError());
+    socket.on("close", () => events.onClose());
+
+    return {
+      write: (bytes) => {
+        socket.write(bytes);
+      },
+      close: () => {
+        socket.destroy();
+      },
+    };
+  },
+});
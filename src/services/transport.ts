@@ -0,0 +1,33 @@
+/** What the transport learned about the peer while opening the connection. */
+export type TransportPeer = {
+  /** SHA-256 of the presented TLS certificate, lowercase hex; null if not known. */
+  certificateFingerprint: string | null;
+};
+
+export type TransportConnectOptions = {
+  /** Expected certificate fingerprint; a pinning transport must refuse any other. */
+  certificateFingerprint?: string;
+};
+
+export type TransportCallbacks = {
+  onConnected?: (peer?: TransportPeer) => void;
+  onDisconnected?: () => void;
+  onError?: () => void;
+  onMessage?: (data: unknown) => void;
+};
+
+/**
+ * Frame I/O used by `ConnectionManager`. `SocketService` wraps the global
+ * `WebSocket`; tests inject `FakeDesktop` to script the desktop side.
+ * `send` takes a JSON-serialisable frame and returns false while closed.
+ * `disconnect` must not fire `onDisconnected`: callers close deliberately.
+ * Only transports with `supportsCertificatePinning` may carry pinned `wss://`
+ * sessions, and they must report the presented certificate in `onConnected`.
+ */
+export type Transport = {
+  readonly supportsCertificatePinning: boolean;
+  setCallbacks: (callbacks: TransportCallbacks) => void;
+  connect: (url: string, options?: TransportConnectOptions) => void;
+  send: (message: unknown) => boolean;
+  disconnect: (code?: number, reason?: string) => void;
+};
@@ -0,0 +1,46 @@
+import type UdpSockets from "react-native-udp";
+
+import type { DiscoveryTransport } from "./discoveryService";
+
+const BROADCAST_ADDRESS = "255.255.255.255";
+
+type UdpModule = typeof UdpSockets;
+type UdpSocket = ReturnType<UdpModule["createSocket"]>;
+
+/**
+ * `react-native-udp` is a native module missing from Expo Go, so it is loaded
+ * on the first `open` rather than when the store is imported. Throws where it
+ * is not linked; `DiscoveryService` reports discovery as unavailable.
+ */
+const loadUdpModule = (): UdpModule => {
+  const loaded = require("react-native-udp") as UdpModule | { default: UdpModule };
+  return "default" in loaded ? loaded.default : loaded;
+};
+
+export const createUdpDiscoveryTransport = (): DiscoveryTransport => {
+  let socket: UdpSocket | null = null;
+
+  return {
+    open: (port, onMessage, onError) => {
+      socket = loadUdpModule().createSocket({ type: "udp4", reusePort: true });
+      socket.on("message", (message: { toString: () => string }, remote: { address: string }) => {
+        onMessage(message.toString(), remote.address);
+      });
+      socket.on("error", () => {
+        socket?.close();
+        socket = null;
+        onError("LAN discovery socket failed.");
+      });
+      socket.bind(port, () => {
+        socket?.setBroadcast(true);
+      });
+    },
+    broadcast: (data, port) => {
+      socket?.send(data, undefined, undefined, port, BROADCAST_ADDRESS);
+    },
+    close: () => {
+      socket?.close();
+      socket = null;
+    },
+  };
+};
@@ -0,0 +1,247 @@
+import forge from "node-forge";
+
+// RFC 6455 §1.3: appended to the client key before hashing the accept value.
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const HEADER_END = [13, 10, 13, 10];
+const MAX_HANDSHAKE_BYTES = 8_192;
+/** Desktop frames are small JSON; anything larger is treated as a protocol error. */
+export const MAX_FRAME_PAYLOAD_BYTES = 1_048_576;
+
+export const OPCODE = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+export const WEBSOCKET_ERRORS = {
+  HANDSHAKE_TOO_LARGE: "WebSocket upgrade response is too large.",
+  HANDSHAKE_REJECTED: "Desktop refused the WebSocket upgrade.",
+  INVALID_FRAME: "Desktop sent a malformed WebSocket frame.",
+  FRAME_TOO_LARGE: `WebSocket frame exceeds ${MAX_FRAME_PAYLOAD_BYTES} bytes.`,
+  INVALID_TEXT: "Desktop sent a text frame that is not valid UTF-8.",
+} as const;
+
+export type WebSocketFrame = {
+  fin: boolean;
+  opcode: number;
+  payload: Uint8Array;
+};
+
+export const bytesToBinary = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 1) {
+    binary += String.fromCharCode(bytes[index]);
+  }
+  return binary;
+};
+
+export const binaryToBytes = (binary: string): Uint8Array =>
+  Uint8Array.from(binary, (char) => char.charCodeAt(0));
+
+export const encodeUtf8 = (text: string): Uint8Array =>
+  binaryToBytes(forge.util.encodeUtf8(text));
+
+export const decodeUtf8 = (bytes: Uint8Array): string => {
+  try {
+    return forge.util.decodeUtf8(bytesToBinary(bytes));
+  } catch {
+    throw new Error(WEBSOCKET_ERRORS.INVALID_TEXT);
+  }
+};
+
+const concatBytes = (first: Uint8Array, second: Uint8Array): Uint8Array => {
+  const joined = new Uint8Array(first.length + second.length);
+  joined.set(first, 0);
+  joined.set(second, first.length);
+  return joined;
+};
+
+/** `Sec-WebSocket-Accept` the desktop must echo for `key`. */
+export const computeAcceptKey = (key: string): string => {
+  const sha1 = forge.md.sha1.create();
+  sha1.update(`${key}${WEBSOCKET_GUID}`);
+  return forge.util.encode64(sha1.digest().bytes());
+};
+
+export const buildUpgradeRequest = (target: {
+  host: string;
+  port: number;
+  path: string;
+  key: string;
+}): Uint8Array =>
+  encodeUtf8(
+    [
+      `GET ${target.path} HTTP/1.1`,
+      `Host: ${target.host}:${target.port}`,
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Key: ${target.key}`,
+      "Sec-WebSocket-Version: 13",
+      "",
+      "",
+    ].join("\r\n"),
+  );
+
+/** Only the first MAX_HANDSHAKE_BYTES are searched, so a longer header never completes. */
+const findHeaderEnd = (bytes: Uint8Array): number => {
+  const limit = Math.min(bytes.length, MAX_HANDSHAKE_BYTES);
+  for (let index = 0; index + HEADER_END.length <= limit; index += 1) {
+    if (HEADER_END.every((byte, offset) => bytes[index + offset] === byte)) {
+      return index + HEADER_END.length;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Reads the server's upgrade response from `bytes`. Returns null until the
+ * header is complete, then the bytes after it (the first frames, if any).
+ * Throws unless the response is a 101 with the accept value for `key`, or
+ * once the header grows past MAX_HANDSHAKE_BYTES without ending.
+ */
+export const readUpgradeResponse = (bytes: Uint8Array, key: string): Uint8Array | null => {
+  const headerEnd = findHeaderEnd(bytes);
+  if (headerEnd === -1) {
+    if (bytes.length >= MAX_HANDSHAKE_BYTES) {
+      throw new Error(WEBSOCKET_ERRORS.HANDSHAKE_TOO_LARGE);
+    }
+    return null;
+  }
+
+  const [statusLine, ...headerLines] = bytesToBinary(bytes.subarray(0, headerEnd))
+    .split("\r\n")
+    .filter((line) => line.length > 0);
+  const headers: Record<string, string> = {};
+  for (const line of headerLines) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  if (
+    !/^HTTP\/1\.1 101(\s|$)/.test(statusLine ?? "") ||
+    headers.upgrade?.toLowerCase() !== "websocket" ||
+    !(headers.connection ?? "").toLowerCase().split(/\s*,\s*/).includes("upgrade") ||
+    headers["sec-websocket-accept"] !== computeAcceptKey(key)
+  ) {
+    throw new Error(WEBSOCKET_ERRORS.HANDSHAKE_REJECTED);
+  }
+  return bytes.subarray(headerEnd);
+};
+
+/**
+ * Encodes one final frame. Clients must pass a fresh 4-byte `mask`; the
+ * server side (only used by tests) sends unmasked frames.
+ */
+export const encodeFrame = (
+  opcode: number,
+  payload: Uint8Array,
+  mask: Uint8Array | null,
+): Uint8Array => {
+  const length = payload.length;
+  const lengthBytes = length < 126 ? 0 : length <= 0xffff ? 2 : 8;
+  const header = new Uint8Array(2 + lengthBytes + (mask ? 4 : 0));
+  header[0] = 0x80 | opcode;
+  header[1] = (mask ? 0x80 : 0) | (lengthBytes === 0 ? length : lengthBytes === 2 ? 126 : 127);
+
+  if (lengthBytes === 2) {
+    header[2] = length >>> 8;
+    header[3] = length & 0xff;
+  } else if (lengthBytes === 8) {
+    // Payloads stay far below 2^32, so the high four bytes remain zero.
+    for (let index = 0; index < 4; index += 1) {
+      header[9 - index] = (length >>> (8 * index)) & 0xff;
+    }
+  }
+
+  const body = new Uint8Array(length);
+  if (mask) {
+    header.set(mask, 2 + lengthBytes);
+    for (let index = 0; index < length; index += 1) {
+      body[index] = payload[index] ^ mask[index % 4];
+    }
+  } else {
+    body.set(payload);
+  }
+  return concatBytes(header, body);
+};
+
+/**
+ * Incremental frame parser for a byte stream that arrives in arbitrary chunks.
+ * `expectMasked` is false when reading the desktop's frames, which RFC 6455
+ * forbids masking; tests set it to read what the client wrote.
+ */
+export class WebSocketFrameReader {
+  private buffer: Uint8Array = new Uint8Array(0);
+
+  constructor(private readonly expectMasked = false) {}
+
+  /** Appends `chunk` and returns every frame completed by it. Throws on protocol errors. */
+  push(chunk: Uint8Array): WebSocketFrame[] {
+    this.buffer = concatBytes(this.buffer, chunk);
+    const frames: WebSocketFrame[] = [];
+
+    for (;;) {
+      const frame = this.readFrame();
+      if (!frame) {
+        return frames;
+      }
+      frames.push(frame);
+    }
+  }
+
+  private readFrame(): WebSocketFrame | null {
+    const bytes = this.buffer;
+    if (bytes.length < 2) {
+      return null;
+    }
+
+    const masked = (bytes[1] & 0x80) !== 0;
+    if ((bytes[0] & 0x70) !== 0 || masked !== this.expectMasked) {
+      throw new Error(WEBSOCKET_ERRORS.INVALID_FRAME);
+    }
+
+    let offset = 2;
+    let length = bytes[1] & 0x7f;
+    if (length === 126) {
+      if (bytes.length < 4) {
+        return null;
+      }
+      length = (bytes[2] << 8) | bytes[3];
+      offset = 4;
+    } else if (length === 127) {
+      if (bytes.length < 10) {
+        return null;
+      }
+      if (bytes[2] !== 0 || bytes[3] !== 0 || bytes[4] !== 0 || bytes[5] !== 0) {
+        throw new Error(WEBSOCKET_ERRORS.FRAME_TOO_LARGE);
+      }
+      length = ((bytes[6] << 24) >>> 0) + ((bytes[7] << 16) | (bytes[8] << 8) | bytes[9]);
+      offset = 10;
+    }
+    if (length > MAX_FRAME_PAYLOAD_BYTES) {
+      throw new Error(WEBSOCKET_ERRORS.FRAME_TOO_LARGE);
+    }
+
+    const maskOffset = offset;
+    if (masked) {
+      offset += 4;
+    }
+    if (bytes.length < offset + length) {
+      return null;
+    }
+
+    const payload = bytes.slice(offset, offset + length);
+    if (masked) {
+      for (let index = 0; index < payload.length; index += 1) {
+        payload[index] ^= bytes[maskOffset + (index % 4)];
+      }
+    }
+    this.buffer = bytes.slice(offset + length);
+    return { fin: (bytes[0] & 0x80) !== 0, opcode: bytes[0] & 0x0f, payload };
+  }
+}
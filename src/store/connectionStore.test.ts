@@ -0,0 +1,321 @@
+import { cryptoService, type KeyPair } from "../security/cryptoService";
+import { getOrCreateDeviceKeyPair } from "../security/deviceKeyPair";
+import { ConnectionState, connectionManager } from "../services/connectionManager";
+import type { FakeDesktop } from "../services/fakeDesktop";
+import { logger } from "../services/logger";
+import { STORAGE_KEYS } from "../services/persistence";
+import type { StoredTrustedDevice } from "../types/pairing";
+import type { Step } from "../types/protocol";
+import { useConnectionStore } from "./connectionStore";
+
+const mockStorage = new Map<string, string>();
+
+jest.mock("@react-native-async-storage/async-storage", () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      mockStorage.delete(key);
+    },
+  },
+}));
+
+jest.mock("expo-clipboard", () => ({
+  getStringAsync: async () => "clipboard-secret",
+}));
+
+jest.mock("react-native", () => ({
+  AppState: {
+    currentState: "active",
+    addEventListener: () => ({ remove: () => {} }),
+  },
+}));
+
+type MockBeaconHandler = (message: { toString: () => string }, remote: { address: string }) => void;
+const mockBeaconHandlers: MockBeaconHandler[] = [];
+
+jest.mock("react-native-udp", () => ({
+  __esModule: true,
+  default: {
+    createSocket: () => ({
+      on: (event: string, handler: MockBeaconHandler) => {
+        if (event === "message") {
+          mockBeaconHandlers.push(handler);
+        }
+      },
+      bind: () => {},
+      send: () => {},
+      close: () => {},
+    }),
+  },
+}));
+
+jest.mock("../services/socketService", () => {
+  const { FakeDesktop: Desktop } = jest.requireActual<{ FakeDesktop: typeof FakeDesktop }>(
+    "../services/fakeDesktop",
+  );
+  const instances: FakeDesktop[] = [];
+  return {
+    instances,
+    SocketService: class extends Desktop {
+      constructor() {
+        super();
+        instances.push(this);
+      }
+    },
+  };
+});
+
+jest.mock("../utils/deviceId", () => ({
+  getOrCreateDeviceId: async () => "device-test",
+}));
+
+jest.mock("../security/deviceKeyPair", () => {
+  const { cryptoService } = jest.requireActual<{
+    cryptoService: { generateKeyPair: () => KeyPair };
+  }>("../security/cryptoService");
+  const keyPair = cryptoService.generateKeyPair();
+  return { getOrCreateDeviceKeyPair: async () => keyPair };
+});
+
+const announce = (desktopId: string, address: string) => {
+  const beacon = JSON.stringify({
+    service: "tapvolt",
+    version: 1,
+    type: "ANNOUNCE",
+    desktopId,
+    port: 8080,
+  });
+  mockBeaconHandlers.forEach((handler) => handler({ toString: () => beacon }, { address }));
+};
+
+/** Lets the fire-and-forget AsyncStorage writes land. */
+const flushWrites = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("connectionStore", () => {
+  beforeEach(() => {
+    mockStorage.clear();
+    logger.setConsoleLevel(null);
+    useConnectionStore.setState({ actionHistory: [], templateVariables: {} });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    logger.setConsoleLevel("debug");
+  });
+
+  it("sends resolved templates but keeps clipboard and prompt values out of history", async () => {
+    const sent: Step[][] = [];
+    jest.spyOn(connectionManager, "sendMacro").mockImplementation((steps: Step[]) => {
+      sent.push(steps);
+      return "action-1";
+    });
+    const template: Step[] = [{ type: "text", value: "{{clipboard}} / {{prompt:Password}}" }];
+
+    await useConnectionStore
+      .getState()
+      .sendTemplatedAction(
+        template,
+        { profileId: null, profileName: null, actionId: null, label: "Login" },
+        { Password: "prompt-secret" },
+      );
+    await flushWrites();
+
+    expect(sent).toEqual([[{ type: "text", value: "clipboard-secret / prompt-secret" }]]);
+    expect(useConnectionStore.getState().actionHistory[0].steps).toEqual(template);
+    const stored = mockStorage.get(STORAGE_KEYS.ACTION_HISTORY) ?? "";
+    expect(stored.includes("{{clipboard}}")).toBe(true);
+    expect(stored.includes("clipboard-secret")).toBe(false);
+    expect(stored.includes("prompt-secret")).toBe(false);
+  });
+
+  it("disconnects a revoked desktop so a reconnect cannot re-add it", async () => {
+    jest.useFakeTimers();
+    const [desktop] = jest.requireMock<{ instances: FakeDesktop[] }>(
+      "../services/socketService",
+    ).instances;
+    desktop.trustDevice("device-test", (await getOrCreateDeviceKeyPair()).publicKey);
+    const trusted: StoredTrustedDevice = {
+      id: cryptoService.fingerprintPublicKey(desktop.keyPair.publicKey),
+      name: "Desk",
+      deviceId: "device-test",
+      serverUrl: "ws://192.168.1.20:8080",
+      trusted: true,
+      pairedAt: 1,
+      lastConnectedAt: null,
+      desktopPublicKey: desktop.keyPair.publicKey,
+      certFingerprint: null,
+    };
+    useConnectionStore.setState({ trustedDevices: [trusted], selectedTrustedDeviceId: trusted.id });
+
+    useConnectionStore.getState().connect();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(useConnectionStore.getState().isAuthenticated).toBe(true);
+
+    useConnectionStore.getState().revokeTrustedDevice(trusted.id);
+    desktop.drop();
+    await jest.advanceTimersByTimeAsync(60_000);
+    jest.useRealTimers();
+
+    expect(desktop.connectAttempts.length).toBe(1);
+    expect(useConnectionStore.getState().trustedDevices).toEqual([]);
+    expect(useConnectionStore.getState().selectedTrustedDeviceId).toBeNull();
+    expect(useConnectionStore.getState().connectionState).toBe(ConnectionState.DISCONNECTED);
+  });
+
+  it("stores a beacon's address only after the desktop proves its key there", async () => {
+    jest.useFakeTimers();
+    const [desktop] = jest.requireMock<{ instances: FakeDesktop[] }>(
+      "../services/socketService",
+    ).instances;
+    desktop.trustDevice("device-test", (await getOrCreateDeviceKeyPair()).publicKey);
+    const trusted: StoredTrustedDevice = {
+      id: cryptoService.fingerprintPublicKey(desktop.keyPair.publicKey),
+      name: "Desk",
+      deviceId: "device-test",
+      serverUrl: "ws://192.168.1.20:8080",
+      trusted: true,
+      pairedAt: 1,
+      lastConnectedAt: null,
+      desktopPublicKey: desktop.keyPair.publicKey,
+      certFingerprint: null,
+    };
+    useConnectionStore.setState({
+      trustedDevices: [trusted],
+      selectedTrustedDeviceId: trusted.id,
+      offlineQueueEnabled: true,
+    });
+    useConnectionStore.getState().startDiscovery();
+    useConnectionStore.getState().connect();
+    await jest.advanceTimersByTimeAsync(1);
+    const attempts = desktop.connectAttempts.length;
+    const storedUrls = () =>
+      useConnectionStore.getState().trustedDevices.map((device) => device.serverUrl);
+
+    // A spoofed beacon cannot move a live session or the stored address.
+    announce("desktop-unknown", "192.168.1.40");
+    announce(trusted.id, "192.168.1.66");
+    await jest.advanceTimersByTimeAsync(1);
+    expect(desktop.connectAttempts.length).toBe(attempts);
+    expect(connectionManager.getTargetUrl()).toBe("ws://192.168.1.20:8080");
+    expect(storedUrls()).toEqual(["ws://192.168.1.20:8080"]);
+    expect(Object.keys(useConnectionStore.getState().desktopsSeenAt)).toEqual([trusted.id]);
+
+    // While reconnecting, whoever answers at the spoofed address rejects the
+    // device: the desktop stays trusted and retries go back to its address.
+    desktop.revokeDevice("device-test");
+    desktop.drop();
+    await jest.advanceTimersByTimeAsync(1);
+    announce(trusted.id, "192.168.1.66");
+    await jest.advanceTimersByTimeAsync(1);
+    expect(desktop.connectAttempts.length).toBe(attempts + 1);
+    expect(useConnectionStore.getState().isAuthenticated).toBe(false);
+    expect(connectionManager.getTargetUrl()).toBe("ws://192.168.1.20:8080");
+    expect(storedUrls()).toEqual(["ws://192.168.1.20:8080"]);
+
+    // A host at the spoofed address that trusts the device but lacks the
+    // desktop's key answers TRUSTED_RECONNECT_SUCCESS: its address is not
+    // stored and the offline queue stays put.
+    desktop.trustDevice("device-test", (await getOrCreateDeviceKeyPair()).publicKey);
+    desktop.impostorKeyPair = cryptoService.generateKeyPair();
+    const queued = useConnectionStore.getState().sendAction([{ type: "key", key: "F5" }]);
+    announce(trusted.id, "192.168.1.66");
+    await jest.advanceTimersByTimeAsync(1);
+    const executed = () =>
+      desktop.received.filter((frame) => frame.type === "EXECUTE_ACTION").length;
+    const statusOf = (entryId: string | null) =>
+      useConnectionStore.getState().actionHistory.find((entry) => entry.id === entryId)?.status;
+    expect(desktop.connectAttempts.length).toBe(attempts + 2);
+    expect(desktop.plaintext.at(-1)?.type).toBe("TRUSTED_RECONNECT");
+    expect(useConnectionStore.getState().isAuthenticated).toBe(false);
+    expect(connectionManager.getTargetUrl()).toBe("ws://192.168.1.20:8080");
+    expect(storedUrls()).toEqual(["ws://192.168.1.20:8080"]);
+    expect(executed()).toBe(0);
+    expect(statusOf(queued)).toBe("queued");
+
+    // The real desktop at its new address proves its key, then gets the queue.
+    desktop.impostorKeyPair = null;
+    announce(trusted.id, "192.168.1.30");
+    await jest.advanceTimersByTimeAsync(1);
+    expect(executed()).toBe(1);
+    useConnectionStore.getState().stopDiscovery();
+    useConnectionStore.getState().disconnect();
+    jest.useRealTimers();
+    await flushWrites();
+
+    expect(storedUrls()).toEqual(["ws://192.168.1.30:8080"]);
+    expect(mockStorage.get(STORAGE_KEYS.TRUSTED_DEVICES)?.includes("192.168.1.30")).toBe(true);
+  });
+
+  it("keeps queued actions through a failed reconnect attempt and flushes them after re-auth", async () => {
+    jest.useFakeTimers();
+    const [desktop] = jest.requireMock<{ instances: FakeDesktop[] }>(
+      "../services/socketService",
+    ).instances;
+    desktop.trustDevice("device-test", (await getOrCreateDeviceKeyPair()).publicKey);
+    // The fake desktop is shared across tests; only count what this one sends.
+    const receivedBefore = desktop.received.length;
+    const trusted: StoredTrustedDevice = {
+      id: cryptoService.fingerprintPublicKey(desktop.keyPair.publicKey),
+      name: "Desk",
+      deviceId: "device-test",
+      serverUrl: "ws://192.168.1.20:8080",
+      trusted: true,
+      pairedAt: 1,
+      lastConnectedAt: null,
+      desktopPublicKey: desktop.keyPair.publicKey,
+      certFingerprint: null,
+    };
+    useConnectionStore.setState({
+      trustedDevices: [trusted],
+      selectedTrustedDeviceId: trusted.id,
+      offlineQueueEnabled: true,
+    });
+    useConnectionStore.getState().connect();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(useConnectionStore.getState().isAuthenticated).toBe(true);
+
+    desktop.reachable = false;
+    desktop.drop();
+    await jest.advanceTimersByTimeAsync(1);
+    const first = useConnectionStore.getState().sendAction([{ type: "key", key: "F5" }]);
+
+    // Taps during the ERROR a failed attempt reports are queued too.
+    let second: string | null = null;
+    const unsubscribe = useConnectionStore.subscribe((state, previous) => {
+      if (
+        state.connectionState === ConnectionState.ERROR &&
+        previous.connectionState !== ConnectionState.ERROR
+      ) {
+        second = state.sendAction([{ type: "key", key: "F6" }]);
+      }
+    });
+    const attempts = desktop.connectAttempts.length;
+    await jest.advanceTimersByTimeAsync(2_000);
+    unsubscribe();
+    const statusOf = (entryId: string | null) =>
+      useConnectionStore.getState().actionHistory.find((entry) => entry.id === entryId)?.status;
+    expect(desktop.connectAttempts.length).toBe(attempts + 1);
+    expect(useConnectionStore.getState().connectionState).toBe(ConnectionState.RECONNECTING);
+    expect(statusOf(first)).toBe("queued");
+    expect(statusOf(second)).toBe("queued");
+
+    desktop.reachable = true;
+    await jest.advanceTimersByTimeAsync(5_000);
+    useConnectionStore.getState().disconnect();
+    jest.useRealTimers();
+
+    const keys = desktop.received
+      .slice(receivedBefore)
+      .filter((frame) => frame.type === "EXECUTE_ACTION")
+      .map((frame) => (frame.payload as { steps: { key: string }[] }).steps[0].key);
+    expect(keys).toEqual(["F5", "F6"]);
+    expect(useConnectionStore.getState().actionHistory.map((entry) => entry.status)).toEqual([
+      "success",
+      "success",
+    ]);
+  });
+});
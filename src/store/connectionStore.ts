@@ -1,30 +1,94 @@
+import { getStringAsync } from "expo-clipboard";
 import { create } from "zustand";
 
-import { PROFILES, type Profile } from "../config/profiles";
+import { SEED_PROFILES, type Profile, type ProfileAction } from "../config/profiles";
+import { cryptoService } from "../security/cryptoService";
 import {
-  parsePairingQrPayload,
+  buildManualPairingPayload,
+  buildServerUrl,
+  buildTrustedDeviceName,
+  ensurePinnedPairingSupported,
+  parsePairingPayload,
   validateTrustedDevice,
+  validateTrustedDevices,
 } from "../security/pairingManager";
 import {
   ConnectionState,
+  DROPPED_ACTION_ERRORS,
   connectionManager,
+  type ActionProgress,
+  type ConnectionDiagnostics,
   type ExecutionResult,
 } from "../services/connectionManager";
+import { DiscoveryService } from "../services/discoveryService";
+import { logger } from "../services/logger";
 import {
   clearTrustedDevice,
+  loadActionHistory,
   loadActiveProfile,
+  loadConnectionPolicy,
   loadIp,
+  loadOfflineQueueEnabled,
+  loadProfiles,
+  loadSelectedTrustedDevice,
+  loadTemplateVariables,
   loadTrustedDevice,
+  loadTrustedDevices,
+  saveActionHistory,
   saveActiveProfile,
+  saveConnectionPolicy,
   saveIp,
-  saveTrustedDevice,
+  saveOfflineQueueEnabled,
+  saveProfiles,
+  saveSelectedTrustedDevice,
+  saveTemplateVariables,
+  saveTrustedDevices,
 } from "../services/persistence";
+import { createUdpDiscoveryTransport } from "../services/udpDiscoveryTransport";
+import type { ConnectionPolicy } from "../types/connectionPolicy";
+import type { DiscoveredDesktop } from "../types/discovery";
+import type { ActionHistoryEntry, ActionHistorySource } from "../types/history";
+import type { LinkQuality } from "../types/linkQuality";
 import type { PairingQrPayload, StoredTrustedDevice } from "../types/pairing";
-import type { Step } from "../types/protocol";
+import type { DesktopCapabilities, PointerStep, Step } from "../types/protocol";
+import { canSendRepeat } from "../utils/actionGestures";
+import {
+  appendHistoryEntry,
+  failUnresolvedHistory,
+  parseStoredHistory,
+  resolveHistoryEntry,
+} from "../utils/actionHistory";
+import {
+  DEFAULT_CONNECTION_POLICY,
+  parseConnectionPolicy,
+  validateConnectionPolicy,
+} from "../utils/connectionPolicy";
+import { DEFAULT_DESKTOP_CAPABILITIES } from "../utils/desktopCapabilities";
+import { buildDiagnosticsReport, type DiagnosticsReport } from "../utils/diagnosticsReport";
 import { getOrCreateDeviceId } from "../utils/deviceId";
+import { UNKNOWN_LINK_QUALITY } from "../utils/linkQuality";
 import { mapServerError } from "../utils/mapServerError";
+import {
+  MAX_QUEUED_ACTIONS,
+  OFFLINE_QUEUE_ERRORS,
+  cancelQueuedHistoryEntry,
+  countQueuedHistory,
+  dropQueuedHistory,
+  expireQueuedHistory,
+  flushQueuedHistory,
+  isQueueableAction,
+} from "../utils/offlineQueue";
+import {
+  MAX_TEMPLATE_VARIABLES,
+  TEMPLATE_ERRORS,
+  hasSensitiveTemplates,
+  isValidVariableName,
+  parseTemplateVariables,
+  resolveStepTemplates,
+  usesClipboard,
+} from "../utils/stepTemplate";
+import { parseStoredProfiles, validateProfileAction } from "../utils/validateProfile";
 
-type ActionStatus = "pending" | "success" | "failed";
 type ErrorCode =
   | "DEVICE_NOT_AUTHORIZED"
   | "GENERIC_CONNECTION_ERROR"
@@ -45,6 +109,13 @@ const PAIRING_REQUIRED_ERROR: ConnectionError = {
   message: "Pairing required. Scan desktop QR to continue.",
 };
 
+const AD_HOC_SOURCE: ActionHistorySource = {
+  profileId: null,
+  profileName: null,
+  actionId: null,
+  label: "Custom action",
+};
+
 const toConnectionError = (message: string): ConnectionError => ({
   code: "GENERIC_CONNECTION_ERROR",
   message,
@@ -73,6 +144,7 @@ const toStoreError = (error: { code: string; message: string }): ConnectionError
 
 type ConnectionStore = {
   ipAddress: string;
+  profiles: Profile[];
   activeProfileId: string;
   isHydrated: boolean;
   connectionState: ConnectionState;
@@ -82,30 +154,306 @@ type ConnectionStore = {
   isAuthenticated: boolean;
   lastResult: ExecutionResult | null;
   lastHeartbeat: number | null;
-  actionStatuses: Record<string, ActionStatus>;
+  /** Probe-based RTT, jitter and loss for the current session. */
+  linkQuality: LinkQuality;
+  /** State timeline, heartbeat gaps and recent errors from `connectionManager`. */
+  connectionDiagnostics: ConnectionDiagnostics;
+  /** Newest first, capped at `MAX_HISTORY_ENTRIES`, persisted across launches. */
+  actionHistory: ActionHistoryEntry[];
+  /** Pending actions whose CANCEL_ACTION was sent and that await the desktop's result. */
+  cancellingActionIds: string[];
+  /** Latest ACTION_PROGRESS per pending action id; dropped once its result arrives. */
+  actionProgress: Record<string, ActionProgress>;
+  /** Opt-in: taps made while reconnecting are queued and sent after re-authenticating. */
+  offlineQueueEnabled: boolean;
+  /** Reconnect, heartbeat and action timeouts applied to `connectionManager`. */
+  connectionPolicy: ConnectionPolicy;
+  /** User-defined `{{name}}` values substituted into text and command steps. */
+  templateVariables: Record<string, string>;
   error: ConnectionError | null;
   warning: string | null;
-  trustedDevice: StoredTrustedDevice | null;
+  trustedDevices: StoredTrustedDevice[];
+  selectedTrustedDeviceId: string | null;
+  /** Expiry of the QR token currently being paired; null for unversioned QR codes. */
+  pairingExpiresAt: number | null;
+  /** Reported by the desktop of the current (or last) authenticated session. */
+  desktopCapabilities: DesktopCapabilities;
+  /** Last time LAN discovery heard each trusted desktop, keyed by trusted-device id. */
+  desktopsSeenAt: Record<string, number>;
+  /** Why LAN discovery is not running; cleared when it starts again. */
+  discoveryError: string | null;
   setIp: (ip: string) => void;
   setActiveProfile: (profileId: string) => void;
   hydrate: () => Promise<void>;
   getActiveProfile: () => Profile;
+  createProfile: (name: string) => string | null;
+  renameProfile: (profileId: string, name: string) => void;
+  moveProfile: (profileId: string, offset: -1 | 1) => void;
+  deleteProfile: (profileId: string) => void;
+  resetProfiles: () => void;
+  importProfile: (profile: Omit<Profile, "id">) => string;
+  saveProfileAction: (
+    profileId: string,
+    action: Omit<ProfileAction, "id"> & { id?: string },
+  ) => void;
+  moveProfileAction: (profileId: string, actionId: string, offset: -1 | 1) => void;
+  deleteProfileAction: (profileId: string, actionId: string) => void;
   connect: () => void;
   pairFromQrPayload: (rawQrPayload: string) => Promise<void>;
-  sendAction: (action: Step) => string | null;
+  pairWithCode: (input: { host: string; port: number; code: string }) => void;
+  sendAction: (steps: Step[], source?: ActionHistorySource) => string | null;
+  /**
+   * Resolves `{{…}}` placeholders (reading the clipboard if needed) and then
+   * sends like `sendAction`. `prompts` holds the answers keyed by prompt label.
+   * History keeps the unresolved steps, so clipboard contents and answers are
+   * never persisted.
+   */
+  sendTemplatedAction: (
+    steps: Step[],
+    source: ActionHistorySource,
+    prompts: Record<string, string>,
+  ) => Promise<string | null>;
+  /**
+   * One tick of a held repeating tile. Skipped (null) while the tile's last
+   * send is unanswered or the link is reconnecting, so repeats never queue.
+   */
+  sendRepeatAction: (steps: Step[], source: ActionHistorySource) => Promise<string | null>;
+  /** Returns an error message, or null once the variable is saved. */
+  setTemplateVariable: (name: string, value: string) => string | null;
+  removeTemplateVariable: (name: string) => void;
+  /** Resolves the entry's templates again; `prompts` answers its `{{prompt:…}}` labels. */
+  resendHistoryEntry: (
+    entryId: string,
+    prompts?: Record<string, string>,
+  ) => Promise<string | null>;
+  cancelAction: (entryId: string) => void;
+  clearActionHistory: () => void;
+  setOfflineQueueEnabled: (enabled: boolean) => void;
+  setConnectionPolicy: (policy: ConnectionPolicy) => boolean;
+  sendPointerInput: (steps: PointerStep[]) => void;
   sendTestAction: () => void;
   disconnect: () => void;
-  clearTrustedPairing: () => Promise<void>;
+  getSelectedTrustedDevice: () => StoredTrustedDevice | null;
+  /** Redacted snapshot for bug tickets; see `buildDiagnosticsReport`. */
+  getDiagnosticsReport: () => DiagnosticsReport;
+  selectTrustedDevice: (trustedDeviceId: string) => void;
+  renameTrustedDevice: (trustedDeviceId: string, name: string) => void;
+  revokeTrustedDevice: (trustedDeviceId: string) => void;
+  startDiscovery: () => void;
+  stopDiscovery: () => void;
 };
 
 const toPairingUrl = (payload: PairingQrPayload): string => {
-  return `ws://${payload.ip}:${payload.port}`;
+  return buildServerUrl(payload.ip, payload.port, payload.certFingerprint !== null);
+};
+
+const createLocalId = (prefix: string): string => {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const moveItem = <T>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= items.length) {
+    return items;
+  }
+
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(target, 0, item);
+  return next;
+};
+
+const omitKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+  if (!(key in record)) {
+    return record;
+  }
+
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
+const DISCOVERY_RETRY_MS = 15_000;
+
+const discoveryService = new DiscoveryService(createUdpDiscoveryTransport());
+// Only discovery that was running is retried after its socket fails; a device
+// without UDP support would fail the same way on every retry.
+let discoveryWasRunning = false;
+let discoveryRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const clearDiscoveryRetry = () => {
+  if (discoveryRetryTimer) {
+    clearTimeout(discoveryRetryTimer);
+    discoveryRetryTimer = null;
+  }
+};
+
+const commitTrustedDevices = (
+  trustedDevices: StoredTrustedDevice[],
+  selectedTrustedDeviceId: string | null,
+) => {
+  const selectedId = trustedDevices.some((device) => device.id === selectedTrustedDeviceId)
+    ? selectedTrustedDeviceId
+    : trustedDevices[0]?.id ?? null;
+  const selected = trustedDevices.find((device) => device.id === selectedId);
+
+  useConnectionStore.setState((state) => ({
+    trustedDevices,
+    selectedTrustedDeviceId: selectedId,
+    ipAddress: selected ? selected.serverUrl : state.ipAddress,
+  }));
+  void saveTrustedDevices(trustedDevices);
+  void saveSelectedTrustedDevice(selectedId);
 };
 
 export const useConnectionStore = create<ConnectionStore>((set, get) => {
+  const commitProfiles = (profiles: Profile[]) => {
+    set({ profiles });
+    void saveProfiles(profiles);
+  };
+
+  const startPairing = (readPayload: () => PairingQrPayload, fallbackMessage: string) => {
+    try {
+      const qrPayload = ensurePinnedPairingSupported(
+        readPayload(),
+        connectionManager.canPinCertificates(),
+      );
+      const serverUrl = toPairingUrl(qrPayload);
+
+      connectionManager.connectWithPairingQr(qrPayload);
+      set({
+        ipAddress: serverUrl,
+        pairingExpiresAt: qrPayload.expiresAt,
+        connectionState: ConnectionState.CONNECTING,
+        reconnectAttempt: 0,
+        isConnecting: true,
+        isAuthenticated: false,
+        actionHistory: failUnresolvedHistory(
+          get().actionHistory,
+          DROPPED_ACTION_ERRORS.SESSION_RESET,
+        ),
+        cancellingActionIds: [],
+        actionProgress: {},
+        lastHeartbeat: null,
+        error: null,
+        warning: null,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : fallbackMessage;
+      set({ error: toConnectionError(message), pairingExpiresAt: null });
+    }
+  };
+
+  const commitHistory = (actionHistory: ActionHistoryEntry[]) => {
+    set({ actionHistory });
+    void saveActionHistory(actionHistory);
+  };
+
+  const findProfileAction = (source: ActionHistorySource): ProfileAction | undefined =>
+    get()
+      .profiles.find((profile) => profile.id === source.profileId)
+      ?.actions.find((action) => action.id === source.actionId);
+
+  /**
+   * Queue window: while reconnecting (including the ERROR a failed attempt
+   * reports before the next one), and until the new session authenticates.
+   */
+  const isAwaitingReconnect = (): boolean => {
+    const { connectionState, isAuthenticated, actionHistory } = get();
+    return (
+      connectionState === ConnectionState.RECONNECTING ||
+      (connectionState === ConnectionState.ERROR && connectionManager.isRetrying()) ||
+      (connectionState === ConnectionState.CONNECTED &&
+        !isAuthenticated &&
+        countQueuedHistory(actionHistory) > 0)
+    );
+  };
+
+  const enqueueAction = (steps: Step[], source: ActionHistorySource): string | null => {
+    if (!isQueueableAction(steps, findProfileAction(source)?.replayWhenOffline)) {
+      // Errors are hidden while reconnecting, so queue rejections surface as warnings.
+      set({ warning: OFFLINE_QUEUE_ERRORS.NOT_QUEUEABLE });
+      return null;
+    }
+
+    const now = Date.now();
+    const actionHistory = expireQueuedHistory(get().actionHistory, now);
+    if (countQueuedHistory(actionHistory) >= MAX_QUEUED_ACTIONS) {
+      commitHistory(actionHistory);
+      set({ warning: OFFLINE_QUEUE_ERRORS.FULL });
+      return null;
+    }
+
+    const entryId = createLocalId("queued");
+    commitHistory(
+      appendHistoryEntry(actionHistory, {
+        ...source,
+        id: entryId,
+        steps,
+        status: "queued",
+        executionTime: null,
+        error: null,
+        sentAt: now,
+        completedAt: null,
+      }),
+    );
+
+    return entryId;
+  };
+
+  /**
+   * Sends `steps` and records `recordedSteps` in history: the unresolved
+   * template when the sent steps were resolved from one.
+   */
+  const dispatchAction = (
+    steps: Step[],
+    source: ActionHistorySource,
+    recordedSteps: Step[],
+  ): string | null => {
+    if (get().offlineQueueEnabled && isAwaitingReconnect()) {
+      if (hasSensitiveTemplates(recordedSteps)) {
+        set({ warning: TEMPLATE_ERRORS.NOT_QUEUEABLE });
+        return null;
+      }
+      return enqueueAction(steps, source);
+    }
+
+    const actionId = connectionManager.sendMacro(steps);
+    if (!actionId) {
+      return null;
+    }
+
+    commitHistory(
+      appendHistoryEntry(get().actionHistory, {
+        ...source,
+        id: actionId,
+        steps: recordedSteps,
+        status: "pending",
+        executionTime: null,
+        error: null,
+        sentAt: Date.now(),
+        completedAt: null,
+      }),
+    );
+    set({ error: null });
+
+    return actionId;
+  };
+
+  const updateProfile = (profileId: string, update: (profile: Profile) => Profile) => {
+    const profiles = get().profiles;
+    if (!profiles.some((profile) => profile.id === profileId)) {
+      return;
+    }
+    commitProfiles(
+      profiles.map((profile) => (profile.id === profileId ? update(profile) : profile)),
+    );
+  };
+
   return {
     ipAddress: "",
-    activeProfileId: PROFILES[0]?.id ?? "",
+    profiles: SEED_PROFILES,
+    activeProfileId: SEED_PROFILES[0]?.id ?? "",
     isHydrated: false,
     connectionState: ConnectionState.DISCONNECTED,
     reconnectAttempt: 0,
@@ -114,10 +462,22 @@ export const useConnectionStore = create<ConnectionStore>((set, get) => {
     isAuthenticated: false,
     lastResult: null,
     lastHeartbeat: null,
-    actionStatuses: {},
+    linkQuality: UNKNOWN_LINK_QUALITY,
+    connectionDiagnostics: connectionManager.getDiagnostics(),
+    actionHistory: [],
+    cancellingActionIds: [],
+    actionProgress: {},
+    offlineQueueEnabled: false,
+    connectionPolicy: DEFAULT_CONNECTION_POLICY,
+    templateVariables: {},
     error: null,
     warning: null,
-    trustedDevice: null,
+    trustedDevices: [],
+    selectedTrustedDeviceId: null,
+    pairingExpiresAt: null,
+    desktopCapabilities: DEFAULT_DESKTOP_CAPABILITIES,
+    desktopsSeenAt: {},
+    discoveryError: null,
     setIp: (ip) => {
       set({
         ipAddress: ip,
@@ -126,7 +486,7 @@ export const useConnectionStore = create<ConnectionStore>((set, get) => {
       void saveIp(ip);
     },
     setActiveProfile: (profileId) => {
-      const profileExists = PROFILES.some((profile) => profile.id === profileId);
+      const profileExists = get().profiles.some((profile) => profile.id === profileId);
       if (!profileExists) {
         return;
       }
@@ -135,28 +495,76 @@ export const useConnectionStore = create<ConnectionStore>((set, get) => {
     },
     hydrate: async () => {
       try {
-        const [ipAddress, activeProfileId, trustedDeviceRaw] = await Promise.all([
+        const [
+          ipAddress,
+          activeProfileId,
+          trustedDevicesRaw,
+          legacyTrustedDeviceRaw,
+          selectedTrustedDeviceId,
+          profilesRaw,
+          actionHistoryRaw,
+          offlineQueueEnabled,
+          connectionPolicyRaw,
+          templateVariablesRaw,
+        ] = await Promise.all([
           loadIp(),
           loadActiveProfile(),
+          loadTrustedDevices(),
           loadTrustedDevice(),
+          loadSelectedTrustedDevice(),
+          loadProfiles(),
+          loadActionHistory(),
+          loadOfflineQueueEnabled(),
+          loadConnectionPolicy(),
+          loadTemplateVariables(),
         ]);
         const deviceId = await getOrCreateDeviceId();
-        const trustedDevice = validateTrustedDevice(trustedDeviceRaw);
+        const storedDevices = validateTrustedDevices(trustedDevicesRaw);
+        const legacyDevice = validateTrustedDevice(legacyTrustedDeviceRaw);
+        if (legacyTrustedDeviceRaw !== null) {
+          if (legacyDevice && !storedDevices.some((device) => device.id === legacyDevice.id)) {
+            storedDevices.push(legacyDevice);
+            void saveTrustedDevices(storedDevices);
+          }
+          void clearTrustedDevice();
+        }
+        const trustedDevices = storedDevices.filter((device) => device.deviceId === deviceId);
+        const selectedTrustedDevice =
+          trustedDevices.find((device) => device.id === selectedTrustedDeviceId) ??
+          trustedDevices[0] ??
+          null;
+        const profiles = parseStoredProfiles(profilesRaw) ?? SEED_PROFILES;
+        const connectionPolicy = parseConnectionPolicy(connectionPolicyRaw);
+        connectionManager.setPolicy(connectionPolicy);
 
         set((state) => {
           const nextState: Pick<
             ConnectionStore,
-            "ipAddress" | "activeProfileId" | "isHydrated" | "trustedDevice"
+            | "ipAddress"
+            | "profiles"
+            | "activeProfileId"
+            | "isHydrated"
+            | "trustedDevices"
+            | "selectedTrustedDeviceId"
+            | "actionHistory"
+            | "offlineQueueEnabled"
+            | "connectionPolicy"
+            | "templateVariables"
           > = {
             ipAddress: ipAddress ?? state.ipAddress,
-            activeProfileId: state.activeProfileId,
+            profiles,
+            activeProfileId: profiles[0].id,
             isHydrated: true,
-            trustedDevice:
-              trustedDevice && trustedDevice.deviceId === deviceId ? trustedDevice : null,
+            trustedDevices,
+            selectedTrustedDeviceId: selectedTrustedDevice?.id ?? null,
+            actionHistory: parseStoredHistory(actionHistoryRaw),
+            offlineQueueEnabled: offlineQueueEnabled ?? false,
+            connectionPolicy,
+            templateVariables: parseTemplateVariables(templateVariablesRaw),
           };
 
           if (activeProfileId !== null) {
-            const profileExists = PROFILES.some(
+            const profileExists = profiles.some(
               (profile) => profile.id === activeProfileId
             );
             if (profileExists) {
@@ -164,8 +572,8 @@ export const useConnectionStore = create<ConnectionStore>((set, get) => {
             }
           }
 
-          if (trustedDevice && trustedDevice.deviceId === deviceId) {
-            nextState.ipAddress = trustedDevice.serverUrl;
+          if (selectedTrustedDevice) {
+            nextState.ipAddress = selectedTrustedDevice.serverUrl;
           }
 
           return nextState;
@@ -175,26 +583,111 @@ export const useConnectionStore = create<ConnectionStore>((set, get) => {
       }
     },
     getActiveProfile: () => {
-      const activeProfileId = get().activeProfileId;
-      const profile = PROFILES.find((item) => item.id === activeProfileId);
+      const { activeProfileId, profiles } = get();
+      const profile = profiles.find((item) => item.id === activeProfileId);
       if (profile) {
         return profile;
       }
 
-      return PROFILES[0];
+      return profiles[0];
+    },
+    createProfile: (name) => {
+      const trimmed = name.trim();
+      if (trimmed.length === 0) {
+        return null;
+      }
+
+      const profileId = createLocalId("profile");
+      commitProfiles([...get().profiles, { id: profileId, name: trimmed, actions: [] }]);
+      return profileId;
+    },
+    renameProfile: (profileId, name) => {
+      const trimmed = name.trim();
+      if (trimmed.length === 0) {
+        return;
+      }
+      updateProfile(profileId, (profile) => ({ ...profile, name: trimmed }));
+    },
+    moveProfile: (profileId, offset) => {
+      const profiles = get().profiles;
+      const index = profiles.findIndex((profile) => profile.id === profileId);
+      const next = moveItem(profiles, index, offset);
+      if (next !== profiles) {
+        commitProfiles(next);
+      }
+    },
+    deleteProfile: (profileId) => {
+      const profiles = get().profiles;
+      const remaining = profiles.filter((profile) => profile.id !== profileId);
+      if (remaining.length === profiles.length || remaining.length === 0) {
+        return;
+      }
+
+      commitProfiles(remaining);
+      if (get().activeProfileId === profileId) {
+        set({ activeProfileId: remaining[0].id });
+        void saveActiveProfile(remaining[0].id);
+      }
+    },
+    resetProfiles: () => {
+      commitProfiles(SEED_PROFILES);
+      set({ activeProfileId: SEED_PROFILES[0].id });
+      void saveActiveProfile(SEED_PROFILES[0].id);
+    },
+    importProfile: (profile) => {
+      const profileId = createLocalId("profile");
+      commitProfiles([...get().profiles, { ...profile, id: profileId }]);
+      return profileId;
+    },
+    saveProfileAction: (profileId, draft) => {
+      const action: ProfileAction = { ...draft, id: draft.id ?? createLocalId("action") };
+      if (validateProfileAction(action, 0)) {
+        return;
+      }
+
+      updateProfile(profileId, (profile) => {
+        const exists = profile.actions.some((item) => item.id === action.id);
+        return {
+          ...profile,
+          actions: exists
+            ? profile.actions.map((item) => (item.id === action.id ? action : item))
+            : [...profile.actions, action],
+        };
+      });
+    },
+    moveProfileAction: (profileId, actionId, offset) => {
+      updateProfile(profileId, (profile) => {
+        const index = profile.actions.findIndex((item) => item.id === actionId);
+        return { ...profile, actions: moveItem(profile.actions, index, offset) };
+      });
+    },
+    deleteProfileAction: (profileId, actionId) => {
+      updateProfile(profileId, (profile) => ({
+        ...profile,
+        actions: profile.actions.filter((item) => item.id !== actionId),
+      }));
     },
     connect: () => {
-      const trustedDevice = get().trustedDevice;
+      const trustedDevice = get().getSelectedTrustedDevice();
 
       if (trustedDevice && trustedDevice.trusted) {
-        connectionManager.connect(trustedDevice.serverUrl);
+        connectionManager.connect(
+          trustedDevice.serverUrl,
+          trustedDevice.desktopPublicKey,
+          trustedDevice.certFingerprint,
+        );
         set({
           ipAddress: trustedDevice.serverUrl,
           connectionState: ConnectionState.CONNECTING,
           reconnectAttempt: 0,
           isConnecting: true,
           isAuthenticated: false,
-          actionStatuses: {},
+          actionHistory: failUnresolvedHistory(
+            get().actionHistory,
+            DROPPED_ACTION_ERRORS.SESSION_RESET,
+          ),
+          cancellingActionIds: [],
+          actionProgress: {},
           lastHeartbeat: null,
           error: null,
           warning: null,
@@ -211,68 +704,125 @@ export const useConnectionStore = create<ConnectionStore>((set, get) => {
       });
     },
     pairFromQrPayload: async (rawQrPayload) => {
+      startPairing(() => parsePairingPayload(rawQrPayload), "Invalid QR payload.");
+    },
+    pairWithCode: (input) => {
+      startPairing(() => buildManualPairingPayload(input), "Invalid pairing code.");
+    },
+    sendAction: (steps, source = AD_HOC_SOURCE) => dispatchAction(steps, source, steps),
+    sendTemplatedAction: async (steps, source, prompts) => {
+      let resolvedSteps: Step[];
       try {
-        const qrPayload = parsePairingQrPayload(rawQrPayload);
-        const deviceId = await getOrCreateDeviceId();
-        const serverUrl = toPairingUrl(qrPayload);
-
-        connectionManager.connectWithPairingQr(qrPayload);
-        set({
-          ipAddress: serverUrl,
-          connectionState: ConnectionState.CONNECTING,
-          reconnectAttempt: 0,
-          isConnecting: true,
-          isAuthenticated: false,
-          actionStatuses: {},
-          lastHeartbeat: null,
-          error: null,
-          warning: null,
-          trustedDevice: {
-            deviceId,
-            serverUrl,
-            trusted: true,
-            pairedAt: Date.now(),
-          },
+        resolvedSteps = resolveStepTemplates(steps, {
+          now: new Date(),
+          clipboard: usesClipboard(steps) ? await getStringAsync() : null,
+          variables: get().templateVariables,
+          prompts,
         });
       } catch (error: unknown) {
-        const message =
-          error instanceof Error ? error.message : "Invalid QR payload.";
-        set({ error: toConnectionError(message) });
+        const message = error instanceof Error ? error.message : "Failed to resolve template.";
+        // Errors are hidden while reconnecting, like offline queue rejections.
+        set(isAwaitingReconnect() ? { warning: message } : { error: toConnectionError(message) });
+        return null;
       }
+
+      return dispatchAction(resolvedSteps, source, steps);
     },
-    sendAction: (action) => {
-      const actionId = connectionManager.sendAction(action);
-      if (!actionId) {
+    sendRepeatAction: async (steps, source) => {
+      if (
+        isAwaitingReconnect() ||
+        !source.profileId ||
+        !source.actionId ||
+        !canSendRepeat(get().actionHistory, source.profileId, source.actionId)
+      ) {
         return null;
       }
 
-      set((state) => ({
-        actionStatuses: {
-          ...state.actionStatuses,
-          [actionId]: "pending",
-        },
-        error: null,
-      }));
+      return get().sendTemplatedAction(steps, source, {});
+    },
+    setTemplateVariable: (name, value) => {
+      const trimmed = name.trim();
+      if (!isValidVariableName(trimmed)) {
+        return TEMPLATE_ERRORS.INVALID_VARIABLE_NAME;
+      }
+      const { templateVariables } = get();
+      if (
+        !(trimmed in templateVariables) &&
+        Object.keys(templateVariables).length >= MAX_TEMPLATE_VARIABLES
+      ) {
+        return TEMPLATE_ERRORS.TOO_MANY_VARIABLES;
+      }
 
-      return actionId;
+      const next = { ...templateVariables, [trimmed]: value };
+      set({ templateVariables: next });
+      void saveTemplateVariables(next);
+      return null;
     },
-    sendTestAction: () => {
-      const actionId = connectionManager.sendAction({
-        type: "text",
-        value: "Hello from Phone\n",
-      });
+    removeTemplateVariable: (name) => {
+      const next = { ...get().templateVariables };
+      delete next[name];
+      set({ templateVariables: next });
+      void saveTemplateVariables(next);
+    },
+    resendHistoryEntry: async (entryId, prompts = {}) => {
+      const entry = get().actionHistory.find((item) => item.id === entryId);
+      if (!entry) {
+        return null;
+      }
 
-      if (!actionId) {
+      return get().sendTemplatedAction(
+        entry.steps,
+        {
+          profileId: entry.profileId,
+          profileName: entry.profileName,
+          actionId: entry.actionId,
+          label: entry.label,
+        },
+        prompts,
+      );
+    },
+    cancelAction: (entryId) => {
+      const { actionHistory, cancellingActionIds } = get();
+      const entry = actionHistory.find((item) => item.id === entryId);
+      if (entry?.status === "queued") {
+        commitHistory(cancelQueuedHistoryEntry(actionHistory, entryId));
         return;
       }
 
-      set((state) => ({
-        actionStatuses: {
-          ...state.actionStatuses,
-          [actionId]: "pending",
-        },
-        error: null,
-      }));
+      if (entry?.status === "pending" && connectionManager.cancelAction(entryId)) {
+        set({ cancellingActionIds: [...cancellingActionIds, entryId] });
+      }
+    },
+    clearActionHistory: () => {
+      commitHistory([]);
+    },
+    setOfflineQueueEnabled: (enabled) => {
+      set({ offlineQueueEnabled: enabled });
+      void saveOfflineQueueEnabled(enabled);
+      if (!enabled) {
+        commitHistory(
+          dropQueuedHistory(get().actionHistory, OFFLINE_QUEUE_ERRORS.DISABLED),
+        );
+      }
+    },
+    setConnectionPolicy: (policy) => {
+      if (validateConnectionPolicy(policy)) {
+        return false;
+      }
+
+      connectionManager.setPolicy(policy);
+      set({ connectionPolicy: policy });
+      void saveConnectionPolicy(policy);
+      return true;
+    },
+    sendPointerInput: (steps) => {
+      connectionManager.sendPointerInput(steps);
+    },
+    sendTestAction: () => {
+      get().sendAction([{ type: "text", value: "Hello from Phone\n" }], {
+        ...AD_HOC_SOURCE,
+        label: "Test action",
+      });
     },
     disconnect: () => {
       connectionManager.disconnect();
@@ -284,23 +834,99 @@ export const useConnectionStore = create<ConnectionStore>((set, get) => {
         isAuthenticated: false,
         lastResult: null,
         lastHeartbeat: null,
-        actionStatuses: {},
+        actionHistory: failUnresolvedHistory(
+          get().actionHistory,
+          DROPPED_ACTION_ERRORS.SESSION_RESET,
+        ),
+        cancellingActionIds: [],
+        actionProgress: {},
         error: null,
         warning: null,
       });
     },
-    clearTrustedPairing: async () => {
-      await clearTrustedDevice();
-      set({
-        trustedDevice: null,
-        isAuthenticated: false,
+    getSelectedTrustedDevice: () => {
+      const { trustedDevices, selectedTrustedDeviceId } = get();
+      return trustedDevices.find((device) => device.id === selectedTrustedDeviceId) ?? null;
+    },
+    getDiagnosticsReport: () => {
+      const { linkQuality, connectionPolicy, desktopCapabilities, getSelectedTrustedDevice } =
+        get();
+      return buildDiagnosticsReport({
+        connection: connectionManager.getDiagnostics(),
+        linkQuality,
+        policy: connectionPolicy,
+        capabilities: desktopCapabilities,
+        trustedDevice: getSelectedTrustedDevice(),
+        logs: logger.getEntries(),
       });
     },
+    selectTrustedDevice: (trustedDeviceId) => {
+      commitTrustedDevices(get().trustedDevices, trustedDeviceId);
+    },
+    renameTrustedDevice: (trustedDeviceId, name) => {
+      const trimmed = name.trim();
+      if (trimmed.length === 0) {
+        return;
+      }
+      const { trustedDevices, selectedTrustedDeviceId } = get();
+      commitTrustedDevices(
+        trustedDevices.map((device) =>
+          device.id === trustedDeviceId ? { ...device, name: trimmed } : device,
+        ),
+        selectedTrustedDeviceId,
+      );
+    },
+    revokeTrustedDevice: (trustedDeviceId) => {
+      const { trustedDevices, selectedTrustedDeviceId } = get();
+      const revoked = trustedDevices.find((device) => device.id === trustedDeviceId);
+      if (!revoked) {
+        return;
+      }
+
+      // A revoked desktop that is still the manager's target would be re-added by
+      // the next trusted reconnect, so its session and pairing context go first.
+      if (
+        selectedTrustedDeviceId === trustedDeviceId ||
+        connectionManager.getTrustedDesktopPublicKey() === revoked.desktopPublicKey
+      ) {
+        get().disconnect();
+      }
+      commitTrustedDevices(
+        trustedDevices.filter((device) => device.id !== trustedDeviceId),
+        selectedTrustedDeviceId,
+      );
+    },
+    startDiscovery: () => {
+      clearDiscoveryRetry();
+      discoveryWasRunning = false;
+      set({ discoveryError: null });
+      discoveryService.start();
+      discoveryWasRunning = discoveryService.isRunning;
+    },
+    stopDiscovery: () => {
+      clearDiscoveryRetry();
+      discoveryWasRunning = false;
+      discoveryService.stop();
+    },
   };
 });
 
 const connectionCallbacks: Parameters<typeof connectionManager.setCallbacks>[0] = {
   onStateChange: (connectionState, reconnectAttempt) => {
+    // A failed attempt reports ERROR before its close schedules the next one;
+    // the queue is only dropped once the loop gives up or the user disconnects.
+    if (
+      connectionState === ConnectionState.DISCONNECTED ||
+      (connectionState === ConnectionState.ERROR && !connectionManager.isRetrying())
+    ) {
+      const { actionHistory } = useConnectionStore.getState();
+      const dropped = dropQueuedHistory(actionHistory, OFFLINE_QUEUE_ERRORS.RECONNECT_FAILED);
+      if (dropped !== actionHistory) {
+        useConnectionStore.setState({ actionHistory: dropped });
+        void saveActionHistory(dropped);
+      }
+    }
+
     useConnectionStore.setState((state) => ({
       connectionState,
       reconnectAttempt,
@@ -326,44 +952,81 @@ const connectionCallbacks: Parameters<typeof connectionManager.setCallbacks>[0]
       warning: null,
     });
   },
-  onAuthSuccess: () => {
-    const state = useConnectionStore.getState();
-    const trustedDevice = state.trustedDevice;
+  onAuthSuccess: (session) => {
+    const now = Date.now();
+    const trustedDeviceId = cryptoService.fingerprintPublicKey(session.desktopPublicKey);
+    const trustedDevices = useConnectionStore.getState().trustedDevices;
+    const previous = trustedDevices.find((device) => device.id === trustedDeviceId);
+    const trustedDevice: StoredTrustedDevice = {
+      id: trustedDeviceId,
+      name: previous?.name ?? buildTrustedDeviceName(session.serverUrl),
+      deviceId: session.deviceId,
+      serverUrl: session.serverUrl,
+      trusted: true,
+      pairedAt: session.mode === "trusted" && previous ? previous.pairedAt : now,
+      lastConnectedAt: now,
+      desktopPublicKey: session.desktopPublicKey,
+      certFingerprint: session.certFingerprint,
+    };
 
-    if (trustedDevice) {
-      void saveTrustedDevice(trustedDevice);
-      void saveIp(trustedDevice.serverUrl);
-    }
+    commitTrustedDevices(
+      previous
+        ? trustedDevices.map((device) => (device.id === trustedDeviceId ? trustedDevice : device))
+        : [...trustedDevices, trustedDevice],
+      trustedDeviceId,
+    );
+    void saveIp(trustedDevice.serverUrl);
 
     useConnectionStore.setState({
       connectionState: ConnectionState.CONNECTED,
       isConnected: true,
       isAuthenticated: true,
+      desktopCapabilities: session.capabilities,
       error: null,
     });
+
+    // Flushed only after the session is authenticated so the desktop sees them in tap order.
+    const { actionHistory } = useConnectionStore.getState();
+    if (countQueuedHistory(actionHistory) > 0) {
+      const flushed = flushQueuedHistory(actionHistory, (steps) =>
+        connectionManager.sendMacro(steps),
+      );
+      useConnectionStore.setState({ actionHistory: flushed });
+      void saveActionHistory(flushed);
+    }
   },
-  onAuthFailure: () => {
-    void clearTrustedDevice();
+  onAuthFailure: (desktopPublicKey) => {
+    if (desktopPublicKey) {
+      const trustedDeviceId = cryptoService.fingerprintPublicKey(desktopPublicKey);
+      const { trustedDevices, selectedTrustedDeviceId } = useConnectionStore.getState();
+      commitTrustedDevices(
+        trustedDevices.filter((device) => device.id !== trustedDeviceId),
+        selectedTrustedDeviceId,
+      );
+    }
     useConnectionStore.setState({
       isAuthenticated: false,
-      trustedDevice: null,
       error: DEVICE_NOT_AUTHORIZED_ERROR,
     });
   },
   onActionResult: (result) => {
+    const actionHistory = resolveHistoryEntry(
+      useConnectionStore.getState().actionHistory,
+      result,
+    );
+    void saveActionHistory(actionHistory);
     useConnectionStore.setState((state) => {
-      const actionStatuses = { ...state.actionStatuses };
-      actionStatuses[result.id] = result.status === "success" ? "success" : "failed";
-
       return {
         connectionState: connectionManager.getState(),
         isConnected: connectionManager.getState() === ConnectionState.CONNECTED,
         isAuthenticated: state.isAuthenticated,
-        actionStatuses,
+        actionHistory,
+        cancellingActionIds: state.cancellingActionIds.filter((id) => id !== result.id),
+        actionProgress: omitKey(state.actionProgress, result.id),
         lastHeartbeat: connectionManager.getLastHeartbeat(),
         lastResult: result,
         error:
-          result.status === "success"
+          result.status !== "error"
             ? null
             : result.error
               ? toConnectionError(result.error)
@@ -372,12 +1035,9 @@ const connectionCallbacks: Parameters<typeof connectionManager.setCallbacks>[0]
       };
     });
   },
-  onActionTimeout: (actionId) => {
+  onActionProgress: (progress) => {
     useConnectionStore.setState((state) => ({
-      actionStatuses: {
-        ...state.actionStatuses,
-        [actionId]: "failed",
-      },
+      actionProgress: { ...state.actionProgress, [progress.id]: progress },
     }));
   },
   onHeartbeat: (timestamp) => {
@@ -385,6 +1045,12 @@ const connectionCallbacks: Parameters<typeof connectionManager.setCallbacks>[0]
       lastHeartbeat: timestamp,
     });
   },
+  onLinkQuality: (linkQuality) => {
+    useConnectionStore.setState({ linkQuality });
+  },
+  onDiagnostics: (connectionDiagnostics) => {
+    useConnectionStore.setState({ connectionDiagnostics });
+  },
   onError: (error) => {
     useConnectionStore.setState((state) => ({
       connectionState: connectionManager.getState(),
@@ -410,3 +1076,39 @@ const connectionCallbacks: Parameters<typeof connectionManager.setCallbacks>[0]
 
 connectionManager.setCallbacks(connectionCallbacks);
 connectionManager.initializeLifecycleHandling();
+
+const handleDesktopFound = (desktop: DiscoveredDesktop) => {
+  const { trustedDevices } = useConnectionStore.getState();
+  const trustedDevice = trustedDevices.find((device) => device.id === desktop.desktopId);
+  if (!trustedDevice) {
+    return;
+  }
+
+  useConnectionStore.setState((state) => ({
+    desktopsSeenAt: { ...state.desktopsSeenAt, [trustedDevice.id]: desktop.seenAt },
+  }));
+
+  // Beacons are unauthenticated: the manager only tries the address, and
+  // `onAuthSuccess` stores it once a reconnect proof for the pinned key checks out there.
+  connectionManager.updateTrustedAddress(trustedDevice.desktopPublicKey, desktop.serverUrl);
+};
+
+discoveryService.setCallbacks({
+  onDesktopFound: handleDesktopFound,
+  onError: (message) => {
+    logger.warn("discovery", message);
+    if (discoveryService.isRunning) {
+      return;
+    }
+
+    useConnectionStore.setState({ discoveryError: message });
+    if (discoveryWasRunning) {
+      discoveryWasRunning = false;
+      clearDiscoveryRetry();
+      discoveryRetryTimer = setTimeout(() => {
+        discoveryRetryTimer = null;
+        useConnectionStore.getState().startDiscovery();
+      }, DISCOVERY_RETRY_MS);
+    }
+  },
+});
@@ -0,0 +1,17 @@
+/** Numeric knobs for `ConnectionManager`, each bounded by `CONNECTION_POLICY_LIMITS`. */
+export type ConnectionPolicyTimings = {
+  /** Reconnect attempts before the manager gives up and enters `ERROR`. */
+  maxReconnectAttempts: number;
+  /** Cap for the exponential backoff delay (before jitter). */
+  maxReconnectDelayMs: number;
+  /** Silence after which the socket is considered dead and reconnected. */
+  heartbeatTimeoutMs: number;
+  /** Wait for ACTION_RESULT (restarted by each ACTION_PROGRESS). */
+  actionTimeoutMs: number;
+};
+
+/** Persisted and editable on the settings screen. */
+export type ConnectionPolicy = ConnectionPolicyTimings & {
+  /** Refuse plain `ws://` to desktops whose TLS certificate was pinned at pairing. */
+  requireTlsForPinned: boolean;
+};
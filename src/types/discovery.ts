@@ -0,0 +1,35 @@
+/**
+ * LAN discovery (UDP broadcast on `DISCOVERY_PORT`). The phone broadcasts a
+ * bare `DISCOVER` query, with no device identifier that would let other hosts
+ * on the network track the phone; desktops answer (unicast or
+ * broadcast) with an `ANNOUNCE` beacon identifying themselves by `desktopId`,
+ * the fingerprint of their pinned public key. The beacon's source address plus
+ * `port` form the WebSocket URL. Beacons are unauthenticated: they only steer
+ * where the phone connects. The address is kept only after the trusted
+ * reconnect there carries a `reconnectProof` for the pinned desktop key.
+ */
+export const DISCOVERY_PORT = 41234;
+export const DISCOVERY_SERVICE = "tapvolt";
+export const DISCOVERY_VERSION = 1;
+
+export type DiscoveryQuery = {
+  service: typeof DISCOVERY_SERVICE;
+  version: typeof DISCOVERY_VERSION;
+  type: "DISCOVER";
+};
+
+export type DiscoveryBeacon = {
+  service: typeof DISCOVERY_SERVICE;
+  version: typeof DISCOVERY_VERSION;
+  type: "ANNOUNCE";
+  desktopId: string;
+  port: number;
+  name?: string;
+};
+
+export type DiscoveredDesktop = {
+  desktopId: string;
+  serverUrl: string;
+  name: string | null;
+  seenAt: number;
+};
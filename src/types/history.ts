@@ -0,0 +1,27 @@
+import type { Step } from "./protocol";
+
+/** `queued` entries were tapped while reconnecting and have not been sent yet. */
+export type ActionHistoryStatus = "queued" | "pending" | "success" | "failed" | "cancelled";
+
+/** Where a sent action came from; null fields mean it was not a profile tile. */
+export type ActionHistorySource = {
+  profileId: string | null;
+  profileName: string | null;
+  actionId: string | null;
+  label: string;
+};
+
+export type ActionHistoryEntry = ActionHistorySource & {
+  /**
+   * Execution id assigned by `connectionManager` (`timestamp-nonce`); queued
+   * entries carry a local id until they are flushed.
+   */
+  id: string;
+  steps: Step[];
+  status: ActionHistoryStatus;
+  executionTime: number | null;
+  error: string | null;
+  /** When the action was tapped, which for queued entries precedes the actual send. */
+  sentAt: number;
+  completedAt: number | null;
+};
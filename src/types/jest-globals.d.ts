@@ -1,5 +1,7 @@
 declare function describe(name: string, fn: () => void): void;
-declare function it(name: string, fn: () => void): void;
+declare function it(name: string, fn: () => void | Promise<void>): void;
+declare function beforeEach(fn: () => void | Promise<void>): void;
+declare function afterEach(fn: () => void): void;
 declare function expect<T>(value: T): {
   toEqual(expected: unknown): void;
   toBe(expected: unknown): void;
@@ -10,3 +12,19 @@ declare function expect<T>(value: T): {
   };
   toThrow(expected?: string | RegExp): void;
 };
+
+type JestSpy = {
+  mockImplementation(fn: (...args: never[]) => unknown): JestSpy;
+  mockReturnValue(value: unknown): JestSpy;
+};
+
+declare const jest: {
+  mock(moduleName: string, factory?: () => unknown): void;
+  requireActual<T>(moduleName: string): T;
+  requireMock<T>(moduleName: string): T;
+  useFakeTimers(): void;
+  useRealTimers(): void;
+  advanceTimersByTimeAsync(ms: number): Promise<void>;
+  spyOn<T extends object>(object: T, method: keyof T): JestSpy;
+  restoreAllMocks(): void;
+};
@@ -0,0 +1,13 @@
+export type LinkQualityGrade = "unknown" | "good" | "fair" | "poor";
+
+/** Rolling summary of the latency probes answered (or lost) in the current session. */
+export type LinkQuality = {
+  grade: LinkQualityGrade;
+  /** Mean round trip of the answered probes; null until one is answered. */
+  averageRttMs: number | null;
+  /** Mean absolute difference between consecutive round trips. */
+  jitterMs: number | null;
+  /** Share of probes in the window that went unanswered, from 0 to 1. */
+  lossRatio: number;
+  sampleCount: number;
+};
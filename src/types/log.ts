@@ -0,0 +1,19 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogCategory =
+  | "transport"
+  | "handshake"
+  | "crypto"
+  | "actions"
+  | "discovery"
+  | "storage";
+
+/** One buffered log line. `data` has already been through redaction. */
+export type LogEntry = {
+  id: number;
+  at: number;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  data?: unknown;
+};
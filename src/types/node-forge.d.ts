@@ -9,15 +9,30 @@ declare module "node-forge" {
     digest(): ByteBuffer;
   };
 
+  type CipherAlgorithm = "AES-CBC" | "AES-GCM";
+
+  type CipherStartOptions = {
+    iv: string;
+    additionalData?: string;
+    tagLength?: number;
+    tag?: ByteBuffer;
+  };
+
   type Cipher = {
-    start(options: { iv: string }): void;
+    start(options: CipherStartOptions): void;
     update(buffer: ByteBuffer): void;
     finish(): boolean;
     output: ByteBuffer;
+    mode: {
+      tag: ByteBuffer;
+    };
   };
 
   type ForgeStatic = {
     md: {
+      sha1: {
+        create(): MessageDigest;
+      };
       sha256: {
         create(): MessageDigest;
       };
@@ -30,10 +45,13 @@ declare module "node-forge" {
       hexToBytes(hex: string): string;
       encode64(data: string): string;
       decode64(data: string): string;
+      decodeUtf8(data: string): string;
+      encodeUtf8(data: string): string;
+      bytesToHex(data: string): string;
     };
     cipher: {
-      createCipher(algorithm: "AES-CBC", key: string): Cipher;
-      createDecipher(algorithm: "AES-CBC", key: string): Cipher;
+      createCipher(algorithm: CipherAlgorithm, key: string): Cipher;
+      createDecipher(algorithm: CipherAlgorithm, key: string): Cipher;
     };
   };
 
@@ -1,33 +1,82 @@
+import type { DesktopCapabilities, PROTOCOL_VERSION } from "./protocol";
+
 export const PAIRING_TOKEN_TTL_MS = 5 * 60 * 1000;
 
+/**
+ * Wrong `PAIR_CONFIRM` proofs the desktop may accept for one typed pairing
+ * code before rotating it. Codes carry about 40 bits, so this limit, not the
+ * code length, is what stops online guessing. It does not stop offline
+ * guessing from a captured proof; see `buildManualPairingPayload`.
+ */
+export const PAIRING_CODE_MAX_ATTEMPTS = 5;
+
+/**
+ * Version 1 QR codes carry no timestamps and rely on the desktop to expire the
+ * token. Version 2 adds `issuedAt` (and optionally `expiresAt`) so stale codes
+ * are rejected on the phone before a socket opens.
+ */
+export const PAIRING_QR_VERSION = 2;
+
 export type PairingQrPayload = {
+  version: 1 | typeof PAIRING_QR_VERSION;
   ip: string;
   port: number;
   pairingToken: string;
+  issuedAt: number | null;
+  expiresAt: number | null;
+  /**
+   * SHA-256 of the desktop's self-signed TLS certificate (DER), lowercase hex.
+   * Present when the desktop serves `wss://`; the phone pins it for good.
+   */
+  certFingerprint: string | null;
 };
 
 export type StoredTrustedDevice = {
+  /** Fingerprint of `desktopPublicKey`; stable across address changes. */
+  id: string;
+  name: string;
   deviceId: string;
   serverUrl: string;
   trusted: true;
   pairedAt: number;
+  lastConnectedAt: number | null;
+  desktopPublicKey: string;
+  /** TLS certificate pin captured at pairing; null for desktops paired over `ws://`. */
+  certFingerprint: string | null;
 };
 
 export type PairRequestPayload = {
   deviceId: string;
-  pairingToken: string;
-  protocolVersion: "2.0";
+  devicePublicKey: string;
+  ephemeralPublicKey: string;
+  protocolVersion: typeof PROTOCOL_VERSION;
 };
 
 export type TrustedReconnectPayload = {
   deviceId: string;
-  protocolVersion: "2.0";
+  ephemeralPublicKey: string;
+  protocolVersion: typeof PROTOCOL_VERSION;
 };
 
-export type PairSuccessPayload = {
+export type PairChallengePayload = {
   sessionNonce: string;
+  desktopPublicKey: string;
+  ephemeralPublicKey: string;
+};
+
+export type PairConfirmPayload = {
+  deviceId: string;
+  pairingProof: string;
+};
+
+export type PairSuccessPayload = {
+  pairingProof: string;
+  capabilities?: DesktopCapabilities;
 };
 
 export type TrustedReconnectSuccessPayload = {
   sessionNonce: string;
+  ephemeralPublicKey: string;
+  reconnectProof: string;
+  capabilities?: DesktopCapabilities;
 };
@@ -0,0 +1,36 @@
+import type { ProfileAction } from "../config/profiles";
+
+export const PROFILE_DOCUMENT_FORMAT = "tapvolt.profile";
+export const PROFILE_DOCUMENT_VERSION = 1;
+
+export type ProfileDocument = {
+  format: typeof PROFILE_DOCUMENT_FORMAT;
+  version: typeof PROFILE_DOCUMENT_VERSION;
+  exportedAt: number;
+  profile: {
+    name: string;
+    actions: ProfileAction[];
+  };
+};
+
+export type ProfileDocumentIssue = {
+  actionIndex: number | null;
+  message: string;
+};
+
+/** A shell command an imported profile would run on the desktop. */
+export type ProfileCommandStep = {
+  actionIndex: number;
+  actionLabel: string;
+  command: string;
+};
+
+export type ProfileDocumentParseResult =
+  | {
+      ok: true;
+      profile: ProfileDocument["profile"];
+    }
+  | {
+      ok: false;
+      issues: ProfileDocumentIssue[];
+    };
@@ -1,4 +1,14 @@
-export type StepType = "shortcut" | "text" | "delay" | "key" | "command";
+export const PROTOCOL_VERSION = "3.2";
+
+export type StepType =
+  | "shortcut"
+  | "text"
+  | "delay"
+  | "key"
+  | "command"
+  | "mouseMove"
+  | "mouseClick"
+  | "scroll";
 
 export type ShortcutStep = {
   type: "shortcut";
@@ -25,15 +35,72 @@ export type CommandStep = {
   command: string;
 };
 
-export type Step = ShortcutStep | TextStep | DelayStep | KeyStep | CommandStep;
+/** Relative pointer motion in device-independent pixels. */
+export type MouseMoveStep = {
+  type: "mouseMove";
+  dx: number;
+  dy: number;
+};
+
+export type MouseButton = "left" | "right" | "middle";
+
+export type MouseClickStep = {
+  type: "mouseClick";
+  button: MouseButton;
+  /** 1 for a single click, 2 for a double click. Defaults to 1. */
+  count?: number;
+};
+
+/** Scroll distance in lines; positive `dy` scrolls down, positive `dx` right. */
+export type ScrollStep = {
+  type: "scroll";
+  dx: number;
+  dy: number;
+};
+
+export type PointerStep = MouseMoveStep | MouseClickStep | ScrollStep;
+
+export type Step = ShortcutStep | TextStep | DelayStep | KeyStep | CommandStep | PointerStep;
 
+/**
+ * Handshake (protocol 3.2). Keys are base64 X25519. The phone sends its
+ * long-term `devicePublicKey` only when pairing; the desktop pins it per
+ * `deviceId`. Both sides contribute a fresh `ephemeralPublicKey` per session
+ * and derive the session key with HKDF-SHA256 over DH(e, E) || DH(s, E) || DH(e, S)
+ * (phone's view), salt = pairing token (empty on reconnect),
+ * info = "tapvolt-session-v3|<deviceId>|<sessionNonce>".
+ *
+ * The pairing token never crosses the wire. Pairing runs PAIR_REQUEST →
+ * PAIR_CHALLENGE → PAIR_CONFIRM → PAIR_SUCCESS: each side sends
+ * `pairingProof`, an HMAC over the transcript keyed from the same agreements
+ * with the token as salt (see `CryptoService.derivePairingProofs`). The phone
+ * proves first, so a host that merely connects to the desktop learns nothing
+ * it could test token guesses against; the desktop trusts the device only
+ * after checking its proof.
+ *
+ * TRUSTED_RECONNECT_SUCCESS carries `reconnectProof`, the desktop's tag over
+ * the same transcript with an empty salt (see
+ * `CryptoService.deriveReconnectProof`). The phone sets up the session only
+ * once it matches, so a host without the pinned desktop key cannot complete
+ * a reconnect.
+ */
 export type PairRequestMessage = {
   type: "PAIR_REQUEST";
   timestamp?: number;
   payload: {
     deviceId: string;
-    pairingToken: string;
-    protocolVersion: "2.0";
+    devicePublicKey: string;
+    ephemeralPublicKey: string;
+    protocolVersion: typeof PROTOCOL_VERSION;
+  };
+};
+
+export type PairConfirmMessage = {
+  type: "PAIR_CONFIRM";
+  timestamp?: number;
+  payload: {
+    deviceId: string;
+    pairingProof: string;
   };
 };
 
@@ -42,7 +109,8 @@ export type TrustedReconnectMessage = {
   timestamp?: number;
   payload: {
     deviceId: string;
-    protocolVersion: "2.0";
+    ephemeralPublicKey: string;
+    protocolVersion: typeof PROTOCOL_VERSION;
   };
 };
 
@@ -55,22 +123,91 @@ export type ExecuteActionMessage = {
   };
 };
 
+/**
+ * Fire-and-forget pointer input streamed from the trackpad. The desktop applies
+ * the steps in order and sends no ACTION_RESULT, so the phone does not track
+ * them as pending actions.
+ */
+export type PointerInputMessage = {
+  type: "POINTER_INPUT";
+  timestamp: number;
+  payload: {
+    steps: PointerStep[];
+  };
+};
+
+/**
+ * Asks the desktop to stop a running `EXECUTE_ACTION` before its next step (a
+ * running `delay` is cut short). The desktop answers with an ACTION_RESULT for
+ * the same id: `cancelled`, or the real outcome if the action already finished.
+ */
+export type CancelActionMessage = {
+  type: "CANCEL_ACTION";
+  timestamp: number;
+  payload: {
+    id: string;
+  };
+};
+
 export type PongMessage = {
   type: "PONG";
   timestamp: number;
 };
 
+/**
+ * Round-trip probe, sent every few seconds to desktops advertising
+ * `latencyProbe`. The desktop answers with LATENCY_PROBE_ACK for the same id;
+ * the phone times the round trip on its own clock.
+ */
+export type LatencyProbeMessage = {
+  type: "LATENCY_PROBE";
+  timestamp: number;
+  payload: {
+    id: string;
+  };
+};
+
 export type ClientMessage =
   | PairRequestMessage
+  | PairConfirmMessage
   | TrustedReconnectMessage
   | ExecuteActionMessage
-  | PongMessage;
+  | PointerInputMessage
+  | CancelActionMessage
+  | PongMessage
+  | LatencyProbeMessage;
+
+/**
+ * Advertised by the desktop in PAIR_SUCCESS / TRUSTED_RECONNECT_SUCCESS so the
+ * phone can disable unsupported actions before sending them. Desktops that omit
+ * the block are assumed to support the protocol defaults.
+ */
+export type DesktopCapabilities = {
+  stepTypes: StepType[];
+  maxSteps: number;
+  maxTextLength: number;
+  commandExecution: boolean;
+  os: string;
+  /** Whether the desktop answers LATENCY_PROBE; older desktops do not. */
+  latencyProbe: boolean;
+};
+
+export type PairChallengeMessage = {
+  type: "PAIR_CHALLENGE";
+  timestamp?: number;
+  payload?: {
+    sessionNonce?: string;
+    desktopPublicKey?: string;
+    ephemeralPublicKey?: string;
+  };
+};
 
 export type PairSuccessMessage = {
   type: "PAIR_SUCCESS";
   timestamp?: number;
   payload?: {
-    sessionNonce?: string;
+    pairingProof?: string;
+    capabilities?: DesktopCapabilities;
   };
 };
 
@@ -79,12 +216,22 @@ export type TrustedReconnectSuccessMessage = {
   timestamp?: number;
   payload?: {
     sessionNonce?: string;
+    ephemeralPublicKey?: string;
+    reconnectProof?: string;
+    capabilities?: DesktopCapabilities;
   };
 };
 
+/**
+ * Version 2 envelopes are AES-256-GCM. `tag` is the base64 GCM tag and the
+ * additional authenticated data is `tapvolt-envelope-v2`. Envelopes without a
+ * version (legacy AES-CBC) are rejected.
+ */
 export type EncryptedEnvelope = {
+  version: 2;
   iv: string;
   encryptedPayload: string;
+  tag: string;
 };
 
 export type ErrorMessage = {
@@ -103,16 +250,60 @@ export type ActionResultMessage = {
   timestamp?: number;
   payload: {
     id: string;
-    status: "success" | "error";
+    status: "success" | "error" | "cancelled";
     executionTime: number;
     error?: string;
   };
 };
 
+export type ActionStepStatus = "running" | "completed";
+
+/**
+ * Sent by the desktop as each step of an `EXECUTE_ACTION` starts and finishes.
+ * `stepIndex` is zero-based. Every progress message restarts the phone's
+ * action timeout, so long macros only time out when the desktop goes quiet.
+ */
+export type ActionProgressMessage = {
+  type: "ACTION_PROGRESS";
+  timestamp?: number;
+  payload: {
+    id: string;
+    stepIndex: number;
+    totalSteps: number;
+    status: ActionStepStatus;
+  };
+};
+
+export type LatencyProbeAckMessage = {
+  type: "LATENCY_PROBE_ACK";
+  timestamp?: number;
+  payload: {
+    id: string;
+  };
+};
+
 export type ServerMessage =
+  | PairChallengeMessage
   | PairSuccessMessage
   | TrustedReconnectSuccessMessage
   | ErrorMessage
-  | ActionResultMessage;
+  | ActionResultMessage
+  | ActionProgressMessage
+  | LatencyProbeAckMessage;
+
+/**
+ * Replay protection. Every message sealed in an `EncryptedEnvelope` carries
+ * `seq`, a per-direction counter that restarts at 1 after PAIR_SUCCESS /
+ * TRUSTED_RECONNECT_SUCCESS and grows by one per sent message. Both sides must
+ * drop a decrypted frame whose `seq` is missing or not greater than the last
+ * accepted one (the phone reports `REPLAYED_MESSAGE` / `INVALID_SEQUENCE`).
+ *
+ * The desktop must additionally reject `EXECUTE_ACTION` whose `timestamp` is
+ * more than `MAX_ACTION_AGE_MS` older than the newest timestamp it has seen
+ * from the phone in this session, answering with `REPLAYED_MESSAGE`.
+ */
+export const MAX_ACTION_AGE_MS = 30_000;
+
+export type Sequenced<T> = T & { seq: number };
 
 export type SocketMessage = ClientMessage | ServerMessage | EncryptedEnvelope;
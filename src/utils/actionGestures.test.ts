@@ -0,0 +1,67 @@
+import type { ProfileAction } from "../config/profiles";
+import type { ActionHistoryEntry } from "../types/history";
+import { MAX_REPEAT_INTERVAL_MS, canSendRepeat, resolveGestureAction } from "./actionGestures";
+import { parseProfileDocument, serializeProfileDocument } from "./profileDocument";
+import { validateProfileAction } from "./validateProfile";
+
+const COPY: ProfileAction = {
+  id: "copy",
+  label: "Copy",
+  steps: [{ type: "shortcut", keys: ["control", "c"] }],
+  longPress: { label: "Cut", steps: [{ type: "shortcut", keys: ["control", "x"] }] },
+};
+
+const buildEntry = (status: ActionHistoryEntry["status"]): ActionHistoryEntry => ({
+  id: "entry-1",
+  profileId: "writing",
+  profileName: "Writing",
+  actionId: "undo",
+  label: "Undo",
+  steps: [{ type: "shortcut", keys: ["control", "z"] }],
+  status,
+  executionTime: null,
+  error: null,
+  sentAt: 1,
+  completedAt: null,
+});
+
+describe("actionGestures", () => {
+  it("sends the long-press steps under the same tile id", () => {
+    expect(resolveGestureAction(COPY, "longPress")).toEqual({
+      ...COPY,
+      label: "Cut",
+      steps: [{ type: "shortcut", keys: ["control", "x"] }],
+    });
+    expect(resolveGestureAction(COPY, "press")).toBe(COPY);
+  });
+
+  it("drops repeat ticks while the tile's last send is unanswered", () => {
+    expect(canSendRepeat([], "writing", "undo")).toBe(true);
+    expect(canSendRepeat([buildEntry("pending")], "writing", "undo")).toBe(false);
+    expect(canSendRepeat([buildEntry("success")], "writing", "undo")).toBe(true);
+    expect(canSendRepeat([buildEntry("pending")], "writing", "redo")).toBe(true);
+  });
+
+  it("validates gesture config and keeps it through a profile document", () => {
+    const undo = { id: "undo", label: "Undo", steps: COPY.steps };
+
+    expect(validateProfileAction({ ...undo, repeat: { intervalMs: 250 } }, 0)).toBeNull();
+    expect(
+      validateProfileAction({ ...undo, repeat: { intervalMs: MAX_REPEAT_INTERVAL_MS + 1 } }, 0),
+    ).toBe('Action "Undo" field "repeat.intervalMs" must be an integer from 50 to 2000.');
+    const prompted = { ...undo, steps: [{ type: "text", value: "{{prompt:Name}}" }] };
+    expect(validateProfileAction({ ...prompted, repeat: { intervalMs: 250 } }, 0)).toBe(
+      'Action "Undo" cannot repeat while its steps ask for a {{prompt}}.',
+    );
+    expect(validateProfileAction({ ...COPY, repeat: { intervalMs: 250 } }, 0)).toBe(
+      'Action "Copy" cannot both repeat and have a long-press action.',
+    );
+    const emptyLongPress = { ...COPY, longPress: { label: "Cut", steps: [] } };
+    expect(validateProfileAction(emptyLongPress, 0)).not.toBeNull();
+
+    const parsed = parseProfileDocument(
+      serializeProfileDocument({ id: "writing", name: "Writing", actions: [COPY] }),
+    );
+    expect(parsed.ok ? parsed.profile.actions : null).toEqual([COPY]);
+  });
+});
@@ -0,0 +1,36 @@
+import type { ProfileAction } from "../config/profiles";
+import type { ActionHistoryEntry } from "../types/history";
+import { getInFlightEntriesByAction } from "./actionHistory";
+
+export const MIN_REPEAT_INTERVAL_MS = 50;
+export const MAX_REPEAT_INTERVAL_MS = 2_000;
+export const DEFAULT_REPEAT_INTERVAL_MS = 150;
+/** How long a repeating tile is held before the first resend. */
+export const REPEAT_HOLD_DELAY_MS = 400;
+export const LONG_PRESS_DELAY_MS = 500;
+
+/** `repeat` fires once per interval while a repeating tile stays held. */
+export type ActionGesture = "press" | "longPress" | "repeat";
+
+/**
+ * The label and steps a gesture sends. A long-press keeps the tile's id so its
+ * progress and cancel strip stay on the same tile.
+ */
+export const resolveGestureAction = (
+  action: ProfileAction,
+  gesture: ActionGesture,
+): ProfileAction =>
+  gesture === "longPress" && action.longPress
+    ? { ...action, label: action.longPress.label, steps: action.longPress.steps }
+    : action;
+
+/**
+ * Repeats are rate limited by the desktop's answers: a tick is dropped while
+ * the tile's previous send is still queued or pending, so holding a tile never
+ * stacks more than one unanswered action.
+ */
+export const canSendRepeat = (
+  history: ActionHistoryEntry[],
+  profileId: string,
+  actionId: string,
+): boolean => getInFlightEntriesByAction(history, profileId)[actionId] === undefined;
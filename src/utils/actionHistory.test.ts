@@ -0,0 +1,69 @@
+import type { ActionHistoryEntry } from "../types/history";
+import {
+  MAX_HISTORY_ENTRIES,
+  appendHistoryEntry,
+  parseStoredHistory,
+  resolveHistoryEntry,
+} from "./actionHistory";
+
+const buildEntry = (id: string): ActionHistoryEntry => ({
+  id,
+  profileId: "coding",
+  profileName: "Coding",
+  actionId: "build",
+  label: "Build",
+  steps: [{ type: "key", key: "enter" }],
+  status: "pending",
+  executionTime: null,
+  error: null,
+  sentAt: 1,
+  completedAt: null,
+});
+
+describe("actionHistory", () => {
+  it("keeps the newest entries up to the ring-buffer size", () => {
+    let history: ActionHistoryEntry[] = [];
+    for (let index = 0; index < MAX_HISTORY_ENTRIES + 5; index += 1) {
+      history = appendHistoryEntry(history, buildEntry(`action-${index}`));
+    }
+
+    expect(history.length).toBe(MAX_HISTORY_ENTRIES);
+    expect(history[0].id).toBe(`action-${MAX_HISTORY_ENTRIES + 4}`);
+  });
+
+  it("records results against the matching pending entry", () => {
+    const history = resolveHistoryEntry(
+      [buildEntry("a"), buildEntry("b")],
+      { id: "b", status: "error", executionTime: 42, error: "Boom" },
+      10,
+    );
+
+    expect(history[0].status).toBe("pending");
+    expect(history[1]).toEqual({
+      ...buildEntry("b"),
+      status: "failed",
+      executionTime: 42,
+      error: "Boom",
+      completedAt: 10,
+    });
+  });
+
+  it("keeps cancelled results distinct from failures", () => {
+    const history = resolveHistoryEntry(
+      [buildEntry("a")],
+      { id: "a", status: "cancelled", executionTime: 120 },
+      10,
+    );
+
+    expect(history[0].status).toBe("cancelled");
+    expect(history[0].error).toBeNull();
+  });
+
+  it("drops malformed stored entries and fails interrupted ones", () => {
+    const history = parseStoredHistory([buildEntry("a"), { id: "broken" }]);
+
+    expect(history.length).toBe(1);
+    expect(history[0].status).toBe("failed");
+    expect(history[0].error).not.toBeNull();
+  });
+});
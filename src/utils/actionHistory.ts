@@ -0,0 +1,148 @@
+import type { ExecutionResult } from "../services/connectionManager";
+import type { ActionHistoryEntry, ActionHistoryStatus } from "../types/history";
+import type { Step } from "../types/protocol";
+import { validateSteps } from "./validateStep";
+
+export const MAX_HISTORY_ENTRIES = 200;
+
+const INTERRUPTED_ERROR = "No result received before the app closed.";
+
+const HISTORY_STATUSES = new Set<string>([
+  "queued",
+  "pending",
+  "success",
+  "failed",
+  "cancelled",
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isNullableString = (value: unknown): value is string | null =>
+  value === null || typeof value === "string";
+
+const isNullableNumber = (value: unknown): value is number | null =>
+  value === null || (typeof value === "number" && Number.isFinite(value));
+
+const toHistoryStatus = (status: ExecutionResult["status"]): ActionHistoryStatus =>
+  status === "error" ? "failed" : status;
+
+/** Adds `entry` as the newest item and drops the oldest beyond `MAX_HISTORY_ENTRIES`. */
+export const appendHistoryEntry = (
+  history: ActionHistoryEntry[],
+  entry: ActionHistoryEntry,
+): ActionHistoryEntry[] => [entry, ...history].slice(0, MAX_HISTORY_ENTRIES);
+
+export const resolveHistoryEntry = (
+  history: ActionHistoryEntry[],
+  result: ExecutionResult,
+  now: number = Date.now(),
+): ActionHistoryEntry[] =>
+  history.map((entry) =>
+    entry.id === result.id && entry.status === "pending"
+      ? {
+          ...entry,
+          status: toHistoryStatus(result.status),
+          executionTime: result.executionTime,
+          error: result.error ?? null,
+          completedAt: now,
+        }
+      : entry,
+  );
+
+const isUnresolved = (entry: ActionHistoryEntry): boolean =>
+  entry.status === "pending" || entry.status === "queued";
+
+/**
+ * Marks entries still queued or waiting for a result as failed, e.g. when
+ * their session ends.
+ */
+export const failUnresolvedHistory = (
+  history: ActionHistoryEntry[],
+  error: string,
+  now: number = Date.now(),
+): ActionHistoryEntry[] =>
+  history.some(isUnresolved)
+    ? history.map((entry) =>
+        isUnresolved(entry)
+          ? { ...entry, status: "failed", error, completedAt: now }
+          : entry,
+      )
+    : history;
+
+/** Newest queued or pending entry per action id of `profileId`, for marking grid tiles. */
+export const getInFlightEntriesByAction = (
+  history: ActionHistoryEntry[],
+  profileId: string,
+): Record<string, ActionHistoryEntry> => {
+  const inFlight: Record<string, ActionHistoryEntry> = {};
+  for (const entry of history) {
+    if (
+      entry.profileId === profileId &&
+      entry.actionId !== null &&
+      (entry.status === "queued" || entry.status === "pending") &&
+      !inFlight[entry.actionId]
+    ) {
+      inFlight[entry.actionId] = entry;
+    }
+  }
+
+  return inFlight;
+};
+
+export const filterHistory = (
+  history: ActionHistoryEntry[],
+  status: ActionHistoryStatus | null,
+): ActionHistoryEntry[] =>
+  status === null ? history : history.filter((entry) => entry.status === status);
+
+const toHistoryEntry = (raw: unknown): ActionHistoryEntry | null => {
+  if (
+    !isRecord(raw) ||
+    typeof raw.id !== "string" ||
+    typeof raw.label !== "string" ||
+    !isNullableString(raw.profileId) ||
+    !isNullableString(raw.profileName) ||
+    !isNullableString(raw.actionId) ||
+    typeof raw.status !== "string" ||
+    !HISTORY_STATUSES.has(raw.status) ||
+    !isNullableNumber(raw.executionTime) ||
+    !isNullableString(raw.error) ||
+    typeof raw.sentAt !== "number" ||
+    !isNullableNumber(raw.completedAt) ||
+    validateSteps(raw.steps) !== null
+  ) {
+    return null;
+  }
+
+  const entry: ActionHistoryEntry = {
+    id: raw.id,
+    profileId: raw.profileId,
+    profileName: raw.profileName,
+    actionId: raw.actionId,
+    label: raw.label,
+    steps: raw.steps as Step[],
+    status: raw.status as ActionHistoryStatus,
+    executionTime: raw.executionTime,
+    error: raw.error,
+    sentAt: raw.sentAt,
+    completedAt: raw.completedAt,
+  };
+
+  return entry;
+};
+
+/** Drops malformed entries from persisted history instead of discarding all of it. */
+export const parseStoredHistory = (raw: unknown[] | null): ActionHistoryEntry[] => {
+  if (!raw) {
+    return [];
+  }
+
+  const entries = raw
+    .map(toHistoryEntry)
+    .filter((entry): entry is ActionHistoryEntry => entry !== null)
+    .slice(0, MAX_HISTORY_ENTRIES);
+
+  // A pending or queued entry on disk never got its result; its session is gone.
+  return failUnresolvedHistory(entries, INTERRUPTED_ERROR);
+};
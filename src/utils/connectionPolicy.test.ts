@@ -0,0 +1,40 @@
+import {
+  DEFAULT_CONNECTION_POLICY,
+  formatPolicyDuration,
+  getReconnectDelayMs,
+  parseConnectionPolicy,
+} from "./connectionPolicy";
+
+describe("connectionPolicy", () => {
+  it("falls back per field for missing or out-of-range stored values", () => {
+    const policy = parseConnectionPolicy({
+      maxReconnectAttempts: 3,
+      maxReconnectDelayMs: 999_999,
+      actionTimeoutMs: "20000",
+      requireTlsForPinned: false,
+    });
+
+    expect(policy).toEqual({
+      ...DEFAULT_CONNECTION_POLICY,
+      maxReconnectAttempts: 3,
+      requireTlsForPinned: false,
+    });
+    expect(parseConnectionPolicy(null)).toEqual(DEFAULT_CONNECTION_POLICY);
+  });
+
+  it("backs off exponentially up to the cap with bounded jitter", () => {
+    const policy = { ...DEFAULT_CONNECTION_POLICY, maxReconnectDelayMs: 4_000 };
+
+    expect(getReconnectDelayMs(1, policy, () => 0.5)).toBe(1_000);
+    expect(getReconnectDelayMs(3, policy, () => 0.5)).toBe(4_000);
+    expect(getReconnectDelayMs(6, policy, () => 0.5)).toBe(4_000);
+    expect(getReconnectDelayMs(6, policy, () => 0)).toBe(3_000);
+    expect(getReconnectDelayMs(6, policy, () => 1)).toBe(5_000);
+  });
+
+  it("formats timeouts for error messages", () => {
+    expect(formatPolicyDuration(8_000)).toBe("8 seconds");
+    expect(formatPolicyDuration(1_000)).toBe("1 second");
+    expect(formatPolicyDuration(2_500)).toBe("2.5 seconds");
+  });
+});
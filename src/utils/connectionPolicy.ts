@@ -0,0 +1,115 @@
+import type { ConnectionPolicy, ConnectionPolicyTimings } from "../types/connectionPolicy";
+
+type PolicyLimit = {
+  min: number;
+  max: number;
+};
+
+const BASE_RECONNECT_DELAY_MS = 1_000;
+const MIN_RECONNECT_DELAY_MS = 250;
+// Spreads reconnects of several phones so a restarted desktop is not hit in lockstep.
+const RECONNECT_JITTER_RATIO = 0.25;
+
+export const DEFAULT_CONNECTION_POLICY: ConnectionPolicy = {
+  maxReconnectAttempts: 10,
+  maxReconnectDelayMs: 10_000,
+  heartbeatTimeoutMs: 15_000,
+  actionTimeoutMs: 8_000,
+  requireTlsForPinned: true,
+};
+
+export const CONNECTION_POLICY_LIMITS: Record<keyof ConnectionPolicyTimings, PolicyLimit> = {
+  maxReconnectAttempts: { min: 1, max: 50 },
+  maxReconnectDelayMs: { min: 1_000, max: 60_000 },
+  heartbeatTimeoutMs: { min: 5_000, max: 120_000 },
+  actionTimeoutMs: { min: 2_000, max: 120_000 },
+};
+
+/** Presets only set the timings; the TLS requirement is left as the user chose it. */
+export const CONNECTION_POLICY_PRESETS: { label: string; timings: ConnectionPolicyTimings }[] = [
+  {
+    label: "DESK",
+    timings: {
+      maxReconnectAttempts: 5,
+      maxReconnectDelayMs: 3_000,
+      heartbeatTimeoutMs: 8_000,
+      actionTimeoutMs: 5_000,
+    },
+  },
+  { label: "DEFAULT", timings: DEFAULT_CONNECTION_POLICY },
+  {
+    label: "SLOW WI-FI",
+    timings: {
+      maxReconnectAttempts: 20,
+      maxReconnectDelayMs: 30_000,
+      heartbeatTimeoutMs: 45_000,
+      actionTimeoutMs: 30_000,
+    },
+  },
+];
+
+const POLICY_KEYS = Object.keys(CONNECTION_POLICY_LIMITS) as (keyof ConnectionPolicyTimings)[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isWithinLimit = (value: unknown, limit: PolicyLimit): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= limit.min &&
+  value <= limit.max;
+
+/** Reads a stored policy; missing or out-of-range fields fall back to the defaults individually. */
+export const parseConnectionPolicy = (raw: unknown): ConnectionPolicy => {
+  if (!isRecord(raw)) {
+    return DEFAULT_CONNECTION_POLICY;
+  }
+
+  const policy = { ...DEFAULT_CONNECTION_POLICY };
+  for (const key of POLICY_KEYS) {
+    const value = raw[key];
+    if (isWithinLimit(value, CONNECTION_POLICY_LIMITS[key])) {
+      policy[key] = value;
+    }
+  }
+  if (typeof raw.requireTlsForPinned === "boolean") {
+    policy.requireTlsForPinned = raw.requireTlsForPinned;
+  }
+
+  return policy;
+};
+
+export const validateConnectionPolicy = (policy: ConnectionPolicy): string | null => {
+  for (const key of POLICY_KEYS) {
+    const limit = CONNECTION_POLICY_LIMITS[key];
+    if (!isWithinLimit(policy[key], limit)) {
+      return `${key} must be an integer between ${limit.min} and ${limit.max}.`;
+    }
+  }
+  if (typeof policy.requireTlsForPinned !== "boolean") {
+    return "requireTlsForPinned must be a boolean.";
+  }
+
+  return null;
+};
+
+/** Exponential backoff from 1s, capped by the policy, with ±25% jitter. */
+export const getReconnectDelayMs = (
+  attempt: number,
+  policy: ConnectionPolicy,
+  random: () => number = Math.random,
+): number => {
+  const backoff = Math.min(
+    BASE_RECONNECT_DELAY_MS * 2 ** Math.max(0, attempt - 1),
+    policy.maxReconnectDelayMs,
+  );
+  const jitter = backoff * RECONNECT_JITTER_RATIO * (random() * 2 - 1);
+
+  return Math.round(Math.max(MIN_RECONNECT_DELAY_MS, backoff + jitter));
+};
+
+/** "8 seconds", "1 second", "2.5 seconds" — used in user-facing timeout text. */
+export const formatPolicyDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 100) / 10;
+  return `${seconds} second${seconds === 1 ? "" : "s"}`;
+};
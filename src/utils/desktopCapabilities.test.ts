@@ -0,0 +1,60 @@
+import {
+  DEFAULT_DESKTOP_CAPABILITIES,
+  checkStepsAgainstCapabilities,
+  parseDesktopCapabilities,
+} from "./desktopCapabilities";
+
+describe("desktopCapabilities", () => {
+  it("falls back to defaults for missing or malformed fields", () => {
+    expect(parseDesktopCapabilities(undefined)).toEqual(DEFAULT_DESKTOP_CAPABILITIES);
+
+    const parsed = parseDesktopCapabilities({
+      stepTypes: ["text", "key", "teleport"],
+      maxSteps: 10,
+      maxTextLength: -1,
+      commandExecution: false,
+      os: "linux",
+      latencyProbe: true,
+    });
+
+    expect(parsed).toEqual({
+      stepTypes: ["text", "key"],
+      maxSteps: 10,
+      maxTextLength: DEFAULT_DESKTOP_CAPABILITIES.maxTextLength,
+      commandExecution: false,
+      os: "linux",
+      latencyProbe: true,
+    });
+  });
+
+  it("rejects steps the desktop cannot run", () => {
+    const capabilities = parseDesktopCapabilities({
+      stepTypes: ["text", "command"],
+      maxSteps: 2,
+      maxTextLength: 5,
+      commandExecution: false,
+      os: "windows",
+    });
+
+    expect(checkStepsAgainstCapabilities([{ type: "text", value: "hi" }], capabilities)).toBeNull();
+    expect(
+      checkStepsAgainstCapabilities([{ type: "key", key: "enter" }], capabilities)?.code,
+    ).toBe("STEP_TYPE_UNSUPPORTED");
+    expect(
+      checkStepsAgainstCapabilities([{ type: "command", command: "ls" }], capabilities)?.code,
+    ).toBe("COMMAND_EXECUTION_DISABLED");
+    expect(
+      checkStepsAgainstCapabilities([{ type: "text", value: "too long" }], capabilities)?.code,
+    ).toBe("MAX_TEXT_LENGTH_EXCEEDED");
+    expect(
+      checkStepsAgainstCapabilities(
+        [
+          { type: "text", value: "a" },
+          { type: "text", value: "b" },
+          { type: "text", value: "c" },
+        ],
+        capabilities,
+      )?.code,
+    ).toBe("MAX_STEPS_EXCEEDED");
+  });
+});
@@ -0,0 +1,88 @@
+import type { DesktopCapabilities, Step, StepType } from "../types/protocol";
+import { mapServerError } from "./mapServerError";
+import { MAX_ACTION_STEPS, MAX_TEXT_STEP_LENGTH, STEP_TYPES } from "./validateStep";
+
+type CapabilityViolation = {
+  code: string;
+  message: string;
+};
+
+/** Assumed for desktops that predate capability negotiation. */
+export const DEFAULT_DESKTOP_CAPABILITIES: DesktopCapabilities = {
+  stepTypes: [...STEP_TYPES],
+  maxSteps: MAX_ACTION_STEPS,
+  maxTextLength: MAX_TEXT_STEP_LENGTH,
+  commandExecution: true,
+  os: "unknown",
+  latencyProbe: false,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+/**
+ * Reads the capabilities block from a handshake success payload. Missing or
+ * malformed fields fall back to the defaults individually; unknown step types
+ * are ignored.
+ */
+export const parseDesktopCapabilities = (raw: unknown): DesktopCapabilities => {
+  if (!isRecord(raw)) {
+    return DEFAULT_DESKTOP_CAPABILITIES;
+  }
+
+  const knownStepTypes = new Set<string>(STEP_TYPES);
+  const stepTypes = Array.isArray(raw.stepTypes)
+    ? raw.stepTypes.filter(
+        (type): type is StepType => typeof type === "string" && knownStepTypes.has(type),
+      )
+    : DEFAULT_DESKTOP_CAPABILITIES.stepTypes;
+
+  return {
+    stepTypes,
+    maxSteps: isPositiveInteger(raw.maxSteps)
+      ? raw.maxSteps
+      : DEFAULT_DESKTOP_CAPABILITIES.maxSteps,
+    maxTextLength: isPositiveInteger(raw.maxTextLength)
+      ? raw.maxTextLength
+      : DEFAULT_DESKTOP_CAPABILITIES.maxTextLength,
+    commandExecution:
+      typeof raw.commandExecution === "boolean"
+        ? raw.commandExecution
+        : DEFAULT_DESKTOP_CAPABILITIES.commandExecution,
+    os:
+      typeof raw.os === "string" && raw.os.trim().length > 0
+        ? raw.os.trim()
+        : DEFAULT_DESKTOP_CAPABILITIES.os,
+    latencyProbe:
+      typeof raw.latencyProbe === "boolean"
+        ? raw.latencyProbe
+        : DEFAULT_DESKTOP_CAPABILITIES.latencyProbe,
+  };
+};
+
+/** Returns the first reason the desktop would reject `steps`, or null if it can run them. */
+export const checkStepsAgainstCapabilities = (
+  steps: Step[],
+  capabilities: DesktopCapabilities,
+): CapabilityViolation | null => {
+  if (steps.length > capabilities.maxSteps) {
+    return mapServerError("MAX_STEPS_EXCEEDED");
+  }
+
+  for (const step of steps) {
+    if (!capabilities.stepTypes.includes(step.type)) {
+      return mapServerError("STEP_TYPE_UNSUPPORTED");
+    }
+    if (step.type === "command" && !capabilities.commandExecution) {
+      return mapServerError("COMMAND_EXECUTION_DISABLED");
+    }
+    if (step.type === "text" && step.value.length > capabilities.maxTextLength) {
+      return mapServerError("MAX_TEXT_LENGTH_EXCEEDED");
+    }
+  }
+
+  return null;
+};
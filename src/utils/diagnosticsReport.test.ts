@@ -0,0 +1,76 @@
+import { ConnectionState, type ConnectionDiagnostics } from "../services/connectionManager";
+import { DEFAULT_CONNECTION_POLICY } from "./connectionPolicy";
+import { DEFAULT_DESKTOP_CAPABILITIES } from "./desktopCapabilities";
+import {
+  buildDiagnosticsReport,
+  maskIdentifier,
+  serializeDiagnosticsReport,
+} from "./diagnosticsReport";
+import { UNKNOWN_LINK_QUALITY } from "./linkQuality";
+
+jest.mock("react-native", () => ({
+  AppState: {
+    currentState: "active",
+    addEventListener: () => ({ remove: () => {} }),
+  },
+}));
+
+jest.mock("../security/deviceKeyPair", () => ({
+  getOrCreateDeviceKeyPair: async () => null,
+}));
+
+const CONNECTION: ConnectionDiagnostics = {
+  state: ConnectionState.ERROR,
+  targetUrl: "wss://192.168.1.20:8080",
+  secureSession: false,
+  reconnectAttempt: 0,
+  maxReconnectAttempts: 10,
+  lastHeartbeatAt: null,
+  transitions: [
+    {
+      at: 1_700_000_000_000,
+      from: ConnectionState.DISCONNECTED,
+      to: ConnectionState.ERROR,
+      reason: "CERTIFICATE_PIN_MISMATCH",
+      reconnectAttempt: 0,
+    },
+  ],
+  heartbeatGapsMs: [],
+  errors: [],
+};
+
+describe("diagnosticsReport", () => {
+  it("masks trusted device identifiers and stamps format and protocol", () => {
+    const desktopPublicKey = "A".repeat(40) + "tail";
+    const report = buildDiagnosticsReport(
+      {
+        connection: CONNECTION,
+        linkQuality: UNKNOWN_LINK_QUALITY,
+        policy: DEFAULT_CONNECTION_POLICY,
+        capabilities: DEFAULT_DESKTOP_CAPABILITIES,
+        trustedDevice: {
+          id: "fingerprint-1",
+          name: "Studio PC",
+          deviceId: "device-0123456789abcdef",
+          serverUrl: "wss://192.168.1.20:8080",
+          trusted: true,
+          pairedAt: 1,
+          lastConnectedAt: null,
+          desktopPublicKey,
+          certFingerprint: "ab".repeat(32),
+        },
+        logs: [],
+      },
+      1_700_000_000_000,
+    );
+
+    expect(report.format).toBe("tapvolt-diagnostics");
+    expect(report.protocolVersion).toBe("3.2");
+    expect(report.generatedAt).toBe("2023-11-14T22:13:20.000Z");
+    expect(report.trustedDevice?.deviceId).toBe("devi…cdef");
+    expect(report.trustedDevice?.desktopPublicKey).toBe("AAAA…tail");
+    expect(report.trustedDevice?.certFingerprint).toBe("abab…abab");
+    expect(serializeDiagnosticsReport(report).includes(desktopPublicKey)).toBe(false);
+    expect(maskIdentifier("short")).toBe("****");
+  });
+});
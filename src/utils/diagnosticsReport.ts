@@ -0,0 +1,57 @@
+import type { ConnectionDiagnostics } from "../services/connectionManager";
+import type { ConnectionPolicy } from "../types/connectionPolicy";
+import type { LinkQuality } from "../types/linkQuality";
+import type { LogEntry } from "../types/log";
+import type { StoredTrustedDevice } from "../types/pairing";
+import { PROTOCOL_VERSION, type DesktopCapabilities } from "../types/protocol";
+
+export const DIAGNOSTICS_REPORT_FORMAT = "tapvolt-diagnostics";
+export const DIAGNOSTICS_REPORT_VERSION = 1;
+
+export type DiagnosticsReport = {
+  format: typeof DIAGNOSTICS_REPORT_FORMAT;
+  version: typeof DIAGNOSTICS_REPORT_VERSION;
+  generatedAt: string;
+  protocolVersion: typeof PROTOCOL_VERSION;
+  connection: ConnectionDiagnostics;
+  linkQuality: LinkQuality;
+  policy: ConnectionPolicy;
+  capabilities: DesktopCapabilities;
+  trustedDevice: StoredTrustedDevice | null;
+  logs: LogEntry[];
+};
+
+export type DiagnosticsReportInput = Omit<
+  DiagnosticsReport,
+  "format" | "version" | "generatedAt" | "protocolVersion"
+>;
+
+/** Keeps both ends of an identifier so two can be told apart in a ticket. */
+export const maskIdentifier = (value: string): string =>
+  value.length <= 12 ? "****" : `${value.slice(0, 4)}…${value.slice(-4)}`;
+
+export const maskTrustedDevice = (device: StoredTrustedDevice): StoredTrustedDevice => ({
+  ...device,
+  deviceId: maskIdentifier(device.deviceId),
+  desktopPublicKey: maskIdentifier(device.desktopPublicKey),
+  certFingerprint: device.certFingerprint ? maskIdentifier(device.certFingerprint) : null,
+});
+
+/**
+ * Bundles what a bug ticket needs about the connection. Identifiers on the
+ * trusted device are masked; log entries were redacted when they were written.
+ */
+export const buildDiagnosticsReport = (
+  input: DiagnosticsReportInput,
+  now: number = Date.now(),
+): DiagnosticsReport => ({
+  format: DIAGNOSTICS_REPORT_FORMAT,
+  version: DIAGNOSTICS_REPORT_VERSION,
+  generatedAt: new Date(now).toISOString(),
+  protocolVersion: PROTOCOL_VERSION,
+  ...input,
+  trustedDevice: input.trustedDevice ? maskTrustedDevice(input.trustedDevice) : null,
+});
+
+export const serializeDiagnosticsReport = (report: DiagnosticsReport): string =>
+  JSON.stringify(report, null, 2);
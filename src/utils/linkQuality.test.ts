@@ -0,0 +1,48 @@
+import {
+  LINK_QUALITY_WINDOW,
+  appendLinkSample,
+  formatLinkQuality,
+  isTimingSensitive,
+  summarizeLinkQuality,
+  type LinkSample,
+} from "./linkQuality";
+
+describe("linkQuality", () => {
+  it("averages round trips, measures jitter and counts lost probes", () => {
+    expect(summarizeLinkQuality([40, 60]).grade).toBe("unknown");
+
+    const quality = summarizeLinkQuality([40, 60, null, 50]);
+    expect(quality).toEqual({
+      grade: "poor",
+      averageRttMs: 50,
+      jitterMs: 15,
+      lossRatio: 0.25,
+      sampleCount: 4,
+    });
+    expect(formatLinkQuality(quality)).toBe("POOR · 50 MS · 25% LOSS");
+    expect(summarizeLinkQuality([40, 60, 50]).grade).toBe("good");
+    expect(summarizeLinkQuality([180, 160, 200]).grade).toBe("fair");
+    expect(summarizeLinkQuality([null, null, null]).averageRttMs).toBeNull();
+  });
+
+  it("keeps only the most recent samples", () => {
+    let samples: LinkSample[] = [];
+    for (let index = 0; index < LINK_QUALITY_WINDOW + 3; index += 1) {
+      samples = appendLinkSample(samples, index < 3 ? null : 20);
+    }
+
+    expect(samples.length).toBe(LINK_QUALITY_WINDOW);
+    expect(summarizeLinkQuality(samples).lossRatio).toBe(0);
+  });
+
+  it("flags delays and pointer steps as timing-sensitive", () => {
+    expect(isTimingSensitive([{ type: "shortcut", keys: ["control", "s"] }])).toBe(false);
+    expect(
+      isTimingSensitive([
+        { type: "key", key: "enter" },
+        { type: "delay", duration: 200 },
+      ]),
+    ).toBe(true);
+    expect(isTimingSensitive([{ type: "mouseClick", button: "left" }])).toBe(true);
+  });
+});
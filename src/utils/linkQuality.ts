@@ -0,0 +1,101 @@
+import type { LinkQuality, LinkQualityGrade } from "../types/linkQuality";
+import type { Step } from "../types/protocol";
+
+export const LATENCY_PROBE_INTERVAL_MS = 5_000;
+export const LATENCY_PROBE_TIMEOUT_MS = 3_000;
+/** About a minute of probes at the default interval. */
+export const LINK_QUALITY_WINDOW = 12;
+
+const MIN_GRADED_SAMPLES = 3;
+
+type GradeLimit = {
+  grade: Exclude<LinkQualityGrade, "unknown">;
+  rttMs: number;
+  jitterMs: number;
+  lossRatio: number;
+};
+
+/** A link earns the first grade whose limits it stays under on every measure. */
+const GRADE_LIMITS: GradeLimit[] = [
+  { grade: "good", rttMs: 100, jitterMs: 30, lossRatio: 0.05 },
+  { grade: "fair", rttMs: 250, jitterMs: 80, lossRatio: 0.2 },
+];
+
+/** Round trip in milliseconds, or null for a probe that timed out. */
+export type LinkSample = number | null;
+
+export const appendLinkSample = (samples: LinkSample[], sample: LinkSample): LinkSample[] =>
+  [...samples, sample].slice(-LINK_QUALITY_WINDOW);
+
+const mean = (values: number[]): number | null =>
+  values.length === 0
+    ? null
+    : Math.round(values.reduce((total, value) => total + value, 0) / values.length);
+
+const gradeLink = (
+  averageRttMs: number | null,
+  jitterMs: number | null,
+  lossRatio: number,
+): Exclude<LinkQualityGrade, "unknown"> => {
+  if (averageRttMs === null) {
+    return "poor";
+  }
+
+  const match = GRADE_LIMITS.find(
+    (limit) =>
+      averageRttMs < limit.rttMs &&
+      (jitterMs ?? 0) < limit.jitterMs &&
+      lossRatio < limit.lossRatio,
+  );
+  return match?.grade ?? "poor";
+};
+
+/** The grade stays "unknown" until the window holds a few samples. */
+export const summarizeLinkQuality = (samples: LinkSample[]): LinkQuality => {
+  const rtts = samples.filter((sample): sample is number => sample !== null);
+  const averageRttMs = mean(rtts);
+  const jitterMs = mean(rtts.slice(1).map((rtt, index) => Math.abs(rtt - rtts[index])));
+  const lossRatio = samples.length === 0 ? 0 : (samples.length - rtts.length) / samples.length;
+
+  return {
+    grade:
+      samples.length < MIN_GRADED_SAMPLES
+        ? "unknown"
+        : gradeLink(averageRttMs, jitterMs, lossRatio),
+    averageRttMs,
+    jitterMs,
+    lossRatio,
+    sampleCount: samples.length,
+  };
+};
+
+export const UNKNOWN_LINK_QUALITY: LinkQuality = summarizeLinkQuality([]);
+
+/**
+ * Delays and pointer steps assume the desktop is in the state the user saw when
+ * tapping; a late or retried delivery can land them somewhere else.
+ */
+export const isTimingSensitive = (steps: Step[]): boolean =>
+  steps.some(
+    (step) =>
+      step.type === "delay" ||
+      step.type === "mouseMove" ||
+      step.type === "mouseClick" ||
+      step.type === "scroll",
+  );
+
+/** "GOOD · 42 MS", "POOR · 25% LOSS" or "MEASURING". */
+export const formatLinkQuality = (quality: LinkQuality): string => {
+  if (quality.grade === "unknown") {
+    return "MEASURING";
+  }
+
+  const parts = [quality.grade.toUpperCase()];
+  if (quality.averageRttMs !== null) {
+    parts.push(`${quality.averageRttMs} MS`);
+  }
+  if (quality.lossRatio > 0) {
+    parts.push(`${Math.round(quality.lossRatio * 100)}% LOSS`);
+  }
+  return parts.join(" · ");
+};
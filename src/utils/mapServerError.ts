@@ -9,11 +9,26 @@ const SERVER_ERROR_MESSAGES: Record<string, string> = {
   MAX_STEPS_EXCEEDED: "This macro is too large.",
   MAX_TEXT_LENGTH_EXCEEDED: "Text input exceeds allowed size.",
   COMMAND_EXECUTION_DISABLED: "Terminal commands are disabled on the desktop.",
+  STEP_TYPE_UNSUPPORTED: "The desktop does not support one of this action's steps.",
   DEVICE_NOT_AUTHORIZED: "This device is not authorized. Please re-pair.",
   PAIRING_TOKEN_EXPIRED: "Pairing token has expired. Scan a new QR code.",
   PAIRING_TOKEN_ALREADY_USED: "Pairing token already used. Scan a new QR code.",
+  PAIRING_PROOF_INVALID: "Pairing code did not match. Check it or scan a new QR code.",
+  PAIRING_PROOF_MISMATCH: "Desktop could not prove it holds the pairing code. Pairing stopped.",
+  RECONNECT_PROOF_MISMATCH: "Desktop could not prove its paired key. Reconnecting stopped.",
   PLAINTEXT_MESSAGE_REJECTED: "Secure session required. Message rejected.",
   PAIRING_REQUIRED: "Pairing required. Scan desktop QR.",
+  DECRYPTION_FAILED: "Could not decrypt a secure message.",
+  TAMPERED_ENVELOPE: "A secure message failed its integrity check and was dropped.",
+  KEY_AGREEMENT_FAILED: "Secure key exchange with desktop failed. Please re-pair.",
+  REPLAYED_MESSAGE: "A duplicate or out-of-order secure message was dropped.",
+  INVALID_SEQUENCE: "A secure message arrived without a valid sequence number.",
+  UNSUPPORTED_ENVELOPE_VERSION: "Desktop uses an unsupported encryption format. Update TapVolt.",
+  PLAINTEXT_TRANSPORT_REFUSED: "This desktop was paired with TLS. Unencrypted ws:// is refused.",
+  CERTIFICATE_PIN_MISMATCH: "Desktop certificate does not match the one pinned at pairing.",
+  CERTIFICATE_UNVERIFIED: "Desktop certificate could not be verified against its pin.",
+  CERTIFICATE_PINNING_UNAVAILABLE: "This device cannot verify pinned TLS certificates.",
+  RANDOM_UNAVAILABLE: "This device has no secure random number generator for session keys.",
 };
 
 export function mapServerError(code: string): MappedServerError {
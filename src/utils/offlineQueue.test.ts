@@ -0,0 +1,54 @@
+import type { ActionHistoryEntry } from "../types/history";
+import {
+  MAX_QUEUED_ACTION_AGE_MS,
+  OFFLINE_QUEUE_ERRORS,
+  flushQueuedHistory,
+  isQueueableAction,
+} from "./offlineQueue";
+
+const buildQueuedEntry = (id: string, sentAt: number): ActionHistoryEntry => ({
+  id,
+  profileId: "coding",
+  profileName: "Coding",
+  actionId: "save",
+  label: "Save",
+  steps: [{ type: "shortcut", keys: ["control", "s"] }],
+  status: "queued",
+  executionTime: null,
+  error: null,
+  sentAt,
+  completedAt: null,
+});
+
+describe("offlineQueue", () => {
+  it("requires an explicit opt-in for text and command steps", () => {
+    expect(isQueueableAction([{ type: "key", key: "enter" }])).toBe(true);
+    expect(isQueueableAction([{ type: "text", value: "hi" }])).toBe(false);
+    expect(isQueueableAction([{ type: "command", command: "ls" }], false)).toBe(false);
+    expect(isQueueableAction([{ type: "command", command: "ls" }], true)).toBe(true);
+  });
+
+  it("flushes queued entries oldest first and expires stale ones", () => {
+    const now = 100_000;
+    const sent: number[] = [];
+    // History is newest first.
+    const history = [
+      buildQueuedEntry("queued-new", now - 1_000),
+      buildQueuedEntry("queued-old", now - 2_000),
+      buildQueuedEntry("queued-stale", now - MAX_QUEUED_ACTION_AGE_MS - 1),
+    ];
+
+    const flushed = flushQueuedHistory(
+      history,
+      () => {
+        sent.push(sent.length);
+        return `exec-${sent.length}`;
+      },
+      now,
+    );
+
+    expect(flushed.map((entry) => entry.id)).toEqual(["exec-2", "exec-1", "queued-stale"]);
+    expect(flushed.map((entry) => entry.status)).toEqual(["pending", "pending", "failed"]);
+    expect(flushed[2].error).toBe(OFFLINE_QUEUE_ERRORS.EXPIRED);
+  });
+});
@@ -0,0 +1,106 @@
+import type { ActionHistoryEntry } from "../types/history";
+import type { Step, StepType } from "../types/protocol";
+
+export const MAX_QUEUED_ACTIONS = 20;
+export const MAX_QUEUED_ACTION_AGE_MS = 60_000;
+
+export const OFFLINE_QUEUE_ERRORS = {
+  EXPIRED: "Queued while offline for too long; not sent.",
+  SEND_FAILED: "Could not be sent after reconnecting.",
+  RECONNECT_FAILED: "Reconnect failed before the queued action was sent.",
+  DISABLED: "Offline queue was turned off before the action was sent.",
+  NOT_QUEUEABLE: "Reconnecting. Text and command actions are only queued if they opt in.",
+  FULL: `Offline queue is full (${MAX_QUEUED_ACTIONS} actions).`,
+} as const;
+
+// Typing text or running a command a minute late can land in the wrong window.
+const REPLAY_SENSITIVE_STEP_TYPES = new Set<StepType>(["text", "command"]);
+
+/** Actions with text or command steps are only queued when they opt in explicitly. */
+export const isQueueableAction = (steps: Step[], replayWhenOffline?: boolean): boolean =>
+  replayWhenOffline === true ||
+  !steps.some((step) => REPLAY_SENSITIVE_STEP_TYPES.has(step.type));
+
+export const hasReplaySensitiveSteps = (steps: Step[]): boolean => !isQueueableAction(steps);
+
+export const countQueuedHistory = (history: ActionHistoryEntry[]): number =>
+  history.filter((entry) => entry.status === "queued").length;
+
+const failQueued = (
+  history: ActionHistoryEntry[],
+  shouldFail: (entry: ActionHistoryEntry) => boolean,
+  error: string,
+  now: number,
+): ActionHistoryEntry[] => {
+  const matches = (entry: ActionHistoryEntry) => entry.status === "queued" && shouldFail(entry);
+  return history.some(matches)
+    ? history.map((entry) =>
+        matches(entry) ? { ...entry, status: "failed", error, completedAt: now } : entry,
+      )
+    : history;
+};
+
+/** Fails queued entries older than `MAX_QUEUED_ACTION_AGE_MS`. */
+export const expireQueuedHistory = (
+  history: ActionHistoryEntry[],
+  now: number = Date.now(),
+): ActionHistoryEntry[] =>
+  failQueued(
+    history,
+    (entry) => now - entry.sentAt > MAX_QUEUED_ACTION_AGE_MS,
+    OFFLINE_QUEUE_ERRORS.EXPIRED,
+    now,
+  );
+
+/** Fails every queued entry, e.g. once reconnecting has given up. */
+export const dropQueuedHistory = (
+  history: ActionHistoryEntry[],
+  error: string,
+  now: number = Date.now(),
+): ActionHistoryEntry[] => failQueued(history, () => true, error, now);
+
+/** Marks a queued entry cancelled; it was never sent, so no desktop round-trip is needed. */
+export const cancelQueuedHistoryEntry = (
+  history: ActionHistoryEntry[],
+  entryId: string,
+  now: number = Date.now(),
+): ActionHistoryEntry[] =>
+  history.map((entry) =>
+    entry.id === entryId && entry.status === "queued"
+      ? { ...entry, status: "cancelled", completedAt: now }
+      : entry,
+  );
+
+/**
+ * Sends queued entries oldest first. Each sent entry takes the execution id
+ * returned by `send` and becomes pending, so its result resolves it as usual.
+ */
+export const flushQueuedHistory = (
+  history: ActionHistoryEntry[],
+  send: (steps: Step[]) => string | null,
+  now: number = Date.now(),
+): ActionHistoryEntry[] => {
+  const current = expireQueuedHistory(history, now);
+  const queued = current.filter((entry) => entry.status === "queued").reverse();
+  if (queued.length === 0) {
+    return current;
+  }
+
+  const flushed = new Map<ActionHistoryEntry, ActionHistoryEntry>();
+  for (const entry of queued) {
+    const executionId = send(entry.steps);
+    flushed.set(
+      entry,
+      executionId
+        ? { ...entry, id: executionId, status: "pending" }
+        : {
+            ...entry,
+            status: "failed",
+            error: OFFLINE_QUEUE_ERRORS.SEND_FAILED,
+            completedAt: now,
+          },
+    );
+  }
+
+  return current.map((entry) => flushed.get(entry) ?? entry);
+};
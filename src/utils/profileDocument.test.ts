@@ -0,0 +1,148 @@
+import type { Profile } from "../config/profiles";
+import { PROFILE_DOCUMENT_FORMAT, PROFILE_DOCUMENT_VERSION } from "../types/profileDocument";
+import {
+  PROFILE_DOCUMENT_ERRORS,
+  buildProfileDocument,
+  listCommandSteps,
+  parseProfileDocument,
+  serializeProfileDocument,
+} from "./profileDocument";
+
+const PROFILE: Profile = {
+  id: "coding",
+  name: "Coding",
+  actions: [
+    { id: "save", label: "Save", steps: [{ type: "shortcut", keys: ["control", "s"] }] },
+    {
+      id: "deploy",
+      label: "Deploy",
+      steps: [{ type: "command", command: "npm run deploy" }],
+      replayWhenOffline: true,
+    },
+  ],
+};
+
+const documentWith = (profile: unknown, overrides: Record<string, unknown> = {}): string =>
+  JSON.stringify({
+    format: PROFILE_DOCUMENT_FORMAT,
+    version: PROFILE_DOCUMENT_VERSION,
+    exportedAt: 1,
+    profile,
+    ...overrides,
+  });
+
+describe("profileDocument", () => {
+  it("round-trips a profile without its id or offline replay opt-in", () => {
+    const parsed = parseProfileDocument(serializeProfileDocument(PROFILE));
+
+    expect(parsed).toEqual({
+      ok: true,
+      profile: {
+        name: "Coding",
+        actions: [
+          PROFILE.actions[0],
+          {
+            id: "deploy",
+            label: "Deploy",
+            steps: [{ type: "command", command: "npm run deploy" }],
+          },
+        ],
+      },
+    });
+    expect(buildProfileDocument(PROFILE).format).toBe(PROFILE_DOCUMENT_FORMAT);
+  });
+
+  it("rejects malformed JSON, foreign formats and newer versions", () => {
+    const issueOf = (raw: string) => {
+      const result = parseProfileDocument(raw);
+      return result.ok ? null : result.issues.map((issue) => issue.message);
+    };
+
+    expect(issueOf("{not json")).toEqual([PROFILE_DOCUMENT_ERRORS.INVALID_JSON]);
+    expect(issueOf("[]")).toEqual([PROFILE_DOCUMENT_ERRORS.INVALID_SHAPE]);
+    expect(issueOf(documentWith({ name: "Coding", actions: [] }, { format: "other" }))).toEqual([
+      PROFILE_DOCUMENT_ERRORS.UNKNOWN_FORMAT,
+    ]);
+    const newer = { version: PROFILE_DOCUMENT_VERSION + 1 };
+    expect(issueOf(documentWith({ name: "Coding", actions: [] }, newer))).toEqual([
+      PROFILE_DOCUMENT_ERRORS.UNSUPPORTED_VERSION,
+    ]);
+    expect(issueOf(documentWith({ name: "Coding", actions: [] }, { version: "1" }))).toEqual([
+      PROFILE_DOCUMENT_ERRORS.INVALID_SHAPE,
+    ]);
+  });
+
+  it("reports invalid profiles with the offending action index", () => {
+    expect(parseProfileDocument(documentWith({ name: " ", actions: [] }))).toEqual({
+      ok: false,
+      issues: [{ actionIndex: null, message: PROFILE_DOCUMENT_ERRORS.INVALID_NAME }],
+    });
+    expect(parseProfileDocument(documentWith({ name: "Coding" }))).toEqual({
+      ok: false,
+      issues: [{ actionIndex: null, message: PROFILE_DOCUMENT_ERRORS.INVALID_ACTIONS }],
+    });
+
+    const result = parseProfileDocument(
+      documentWith({
+        name: "Coding",
+        actions: [
+          PROFILE.actions[0],
+          { id: "broken", label: "Broken", steps: [{ type: "teleport" }] },
+          PROFILE.actions[0],
+        ],
+      }),
+    );
+    expect(result.ok ? [] : result.issues.map((issue) => issue.actionIndex)).toEqual([1, 2]);
+    expect(result.ok ? null : result.issues[1].message).toBe(
+      'Action id "save" is used more than once.',
+    );
+  });
+
+  it("lists the command steps an imported profile would run", () => {
+    const result = parseProfileDocument(
+      documentWith({
+        name: "Shared",
+        actions: [
+          ...PROFILE.actions,
+          {
+            id: "cleanup",
+            label: "Cleanup",
+            steps: [
+              { type: "text", value: "bye" },
+              { type: "command", command: "rm -rf ~/tmp" },
+            ],
+          },
+        ],
+      }),
+    );
+
+    expect(result.ok ? listCommandSteps(result.profile) : null).toEqual([
+      { actionIndex: 1, actionLabel: "Deploy", command: "npm run deploy" },
+      { actionIndex: 2, actionLabel: "Cleanup", command: "rm -rf ~/tmp" },
+    ]);
+    expect(listCommandSteps({ name: "Keys", actions: [PROFILE.actions[0]] })).toEqual([]);
+  });
+
+  it("lists command steps that only a long-press would run", () => {
+    const result = parseProfileDocument(
+      documentWith({
+        name: "Shared",
+        actions: [
+          {
+            id: "copy",
+            label: "Copy",
+            steps: [{ type: "shortcut", keys: ["control", "c"] }],
+            longPress: {
+              label: "Wipe",
+              steps: [{ type: "command", command: "rm -rf ~/Documents" }],
+            },
+          },
+        ],
+      }),
+    );
+
+    expect(result.ok ? listCommandSteps(result.profile) : null).toEqual([
+      { actionIndex: 0, actionLabel: "Copy (long-press: Wipe)", command: "rm -rf ~/Documents" },
+    ]);
+  });
+});
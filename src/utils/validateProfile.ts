@@ -0,0 +1,166 @@
+import type { Profile, ProfileAction } from "../config/profiles";
+import type { Step } from "../types/protocol";
+import { MAX_REPEAT_INTERVAL_MS, MIN_REPEAT_INTERVAL_MS } from "./actionGestures";
+import { collectPromptLabels } from "./stepTemplate";
+import { MAX_ACTION_STEPS, validateSteps } from "./validateStep";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+export const validateProfileAction = (action: unknown, index: number): string | null => {
+  if (!isRecord(action)) {
+    return `Action ${index} must be an object.`;
+  }
+
+  const name = isNonEmptyString(action.label) ? `"${action.label.trim()}"` : `${index}`;
+
+  if (!isNonEmptyString(action.id)) {
+    return `Action ${name} must include non-empty string field "id".`;
+  }
+
+  if (!isNonEmptyString(action.label)) {
+    return `Action ${name} must include non-empty string field "label".`;
+  }
+
+  if (Array.isArray(action.steps) && action.steps.length > MAX_ACTION_STEPS) {
+    return `Action ${name} has more than ${MAX_ACTION_STEPS} steps.`;
+  }
+
+  const stepsError = validateSteps(action.steps);
+  if (stepsError) {
+    return `Action ${name}: ${stepsError}`;
+  }
+
+  if (action.replayWhenOffline !== undefined && typeof action.replayWhenOffline !== "boolean") {
+    return `Action ${name} field "replayWhenOffline" must be a boolean.`;
+  }
+
+  return validateActionGestures(action, name);
+};
+
+const validateActionGestures = (action: Record<string, unknown>, name: string): string | null => {
+  const { repeat, longPress } = action;
+
+  if (repeat !== undefined) {
+    const intervalMs = isRecord(repeat) ? repeat.intervalMs : undefined;
+    if (
+      typeof intervalMs !== "number" ||
+      !Number.isInteger(intervalMs) ||
+      intervalMs < MIN_REPEAT_INTERVAL_MS ||
+      intervalMs > MAX_REPEAT_INTERVAL_MS
+    ) {
+      return (
+        `Action ${name} field "repeat.intervalMs" must be an integer from ` +
+        `${MIN_REPEAT_INTERVAL_MS} to ${MAX_REPEAT_INTERVAL_MS}.`
+      );
+    }
+    if (collectPromptLabels(action.steps as Step[]).length > 0) {
+      return `Action ${name} cannot repeat while its steps ask for a {{prompt}}.`;
+    }
+  }
+
+  if (longPress !== undefined) {
+    if (!isRecord(longPress) || !isNonEmptyString(longPress.label)) {
+      return `Action ${name} field "longPress" must include non-empty string field "label".`;
+    }
+    if (Array.isArray(longPress.steps) && longPress.steps.length > MAX_ACTION_STEPS) {
+      return `Action ${name} long-press has more than ${MAX_ACTION_STEPS} steps.`;
+    }
+    const stepsError = validateSteps(longPress.steps);
+    if (stepsError) {
+      return `Action ${name} long-press: ${stepsError}`;
+    }
+  }
+
+  if (repeat !== undefined && longPress !== undefined) {
+    return `Action ${name} cannot both repeat and have a long-press action.`;
+  }
+
+  return null;
+};
+
+/** Copies the gesture fields of an already validated action, dropping unknown keys. */
+export const pickActionGestures = (
+  action: ProfileAction,
+): Pick<ProfileAction, "repeat" | "longPress"> => ({
+  ...(action.repeat ? { repeat: { intervalMs: action.repeat.intervalMs } } : {}),
+  ...(action.longPress
+    ? { longPress: { label: action.longPress.label.trim(), steps: action.longPress.steps } }
+    : {}),
+});
+
+export const validateProfile = (profile: unknown): string | null => {
+  if (!isRecord(profile)) {
+    return "Profile must be an object.";
+  }
+
+  if (!isNonEmptyString(profile.id)) {
+    return 'Profile must include non-empty string field "id".';
+  }
+
+  if (!isNonEmptyString(profile.name)) {
+    return 'Profile must include non-empty string field "name".';
+  }
+
+  if (!Array.isArray(profile.actions)) {
+    return 'Profile must include "actions" array.';
+  }
+
+  const actionIds = new Set<string>();
+  for (let index = 0; index < profile.actions.length; index += 1) {
+    const error = validateProfileAction(profile.actions[index], index);
+    if (error) {
+      return error;
+    }
+
+    const actionId = (profile.actions[index] as ProfileAction).id.trim();
+    if (actionIds.has(actionId)) {
+      return `Action id "${actionId}" is used more than once.`;
+    }
+    actionIds.add(actionId);
+  }
+
+  return null;
+};
+
+const toProfile = (raw: Record<string, unknown>): Profile => {
+  const actions = raw.actions as ProfileAction[];
+  return {
+    id: (raw.id as string).trim(),
+    name: (raw.name as string).trim(),
+    actions: actions.map((action) => ({
+      id: action.id.trim(),
+      label: action.label.trim(),
+      steps: action.steps as Step[],
+      ...(action.replayWhenOffline ? { replayWhenOffline: true } : {}),
+      ...pickActionGestures(action),
+    })),
+  };
+};
+
+export const parseStoredProfiles = (raw: unknown): Profile[] | null => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return null;
+  }
+
+  const profileIds = new Set<string>();
+  const profiles: Profile[] = [];
+
+  for (const entry of raw) {
+    if (validateProfile(entry) !== null || !isRecord(entry)) {
+      return null;
+    }
+
+    const profile = toProfile(entry);
+    if (profileIds.has(profile.id)) {
+      return null;
+    }
+    profileIds.add(profile.id);
+    profiles.push(profile);
+  }
+
+  return profiles;
+};
@@ -0,0 +1,27 @@
+import { validatePointerSteps, validateStep } from "./validateStep";
+
+describe("validateStep", () => {
+  it("accepts pointer steps", () => {
+    expect(validateStep({ type: "mouseMove", dx: 12, dy: -4 }, 0)).toBeNull();
+    expect(validateStep({ type: "scroll", dx: 0, dy: 3 }, 0)).toBeNull();
+    expect(validateStep({ type: "mouseClick", button: "right" }, 0)).toBeNull();
+    expect(validateStep({ type: "mouseClick", button: "left", count: 2 }, 0)).toBeNull();
+  });
+
+  it("rejects malformed pointer steps", () => {
+    expect(validateStep({ type: "mouseMove", dx: Number.NaN, dy: 0 }, 0)).not.toBeNull();
+    expect(validateStep({ type: "scroll", dx: 0, dy: 5_000 }, 0)).not.toBeNull();
+    expect(validateStep({ type: "mouseClick", button: "back" }, 0)).not.toBeNull();
+    expect(validateStep({ type: "mouseClick", button: "left", count: 3 }, 0)).not.toBeNull();
+  });
+
+  it("limits pointer input batches to pointer steps", () => {
+    expect(validatePointerSteps([{ type: "mouseMove", dx: 1, dy: 1 }])).toBeNull();
+    expect(
+      validatePointerSteps([
+        { type: "mouseMove", dx: 1, dy: 1 },
+        { type: "key", key: "enter" },
+      ]),
+    ).toBe("Step 1 is not a pointer step.");
+  });
+});
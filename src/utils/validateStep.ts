@@ -0,0 +1,149 @@
+import type { MouseButton, PointerStep, Step, StepType } from "../types/protocol";
+
+export const MAX_ACTION_STEPS = 50;
+export const MAX_TEXT_STEP_LENGTH = 1_000;
+export const MAX_POINTER_DELTA = 2_000;
+export const MAX_CLICK_COUNT = 2;
+
+export const STEP_TYPES: readonly StepType[] = [
+  "shortcut",
+  "text",
+  "delay",
+  "key",
+  "command",
+  "mouseMove",
+  "mouseClick",
+  "scroll",
+];
+
+export const POINTER_STEP_TYPES: readonly PointerStep["type"][] = [
+  "mouseMove",
+  "mouseClick",
+  "scroll",
+];
+
+export const MOUSE_BUTTONS: readonly MouseButton[] = ["left", "right", "middle"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Clipboard contents and prompt answers are not the author's text. Substituted
+ * into a command they would run as shell on the desktop, so commands refuse them.
+ */
+const UNTRUSTED_COMMAND_PLACEHOLDER = /\{\{\s*(?:clipboard|prompt)\s*(?::[^}]*)?\}\}/;
+
+export const hasUntrustedCommandPlaceholder = (command: string): boolean =>
+  UNTRUSTED_COMMAND_PLACEHOLDER.test(command);
+
+export const untrustedCommandPlaceholderError = (index: number): string =>
+  `Step ${index} (command) cannot use {{clipboard}} or {{prompt}}: the value would run as shell.`;
+
+const SUPPORTED_STEP_TYPES = new Set<Step["type"]>(STEP_TYPES);
+const SUPPORTED_MOUSE_BUTTONS = new Set<string>(MOUSE_BUTTONS);
+
+const isPointerDelta = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= MAX_POINTER_DELTA;
+
+export const validateStep = (step: unknown, index: number): string | null => {
+  if (!isRecord(step)) {
+    return `Step ${index} must be an object.`;
+  }
+
+  if (typeof step.type !== "string") {
+    return `Step ${index} is missing string field "type".`;
+  }
+
+  if (!SUPPORTED_STEP_TYPES.has(step.type as Step["type"])) {
+    return `Step ${index} has unsupported type "${step.type}".`;
+  }
+
+  switch (step.type) {
+    case "shortcut": {
+      if (!Array.isArray(step.keys) || step.keys.length === 0) {
+        return `Step ${index} (shortcut) must include non-empty "keys" array.`;
+      }
+      const hasNonStringKey = step.keys.some((key) => typeof key !== "string");
+      if (hasNonStringKey) {
+        return `Step ${index} (shortcut) has non-string key entries.`;
+      }
+      return null;
+    }
+    case "text":
+      if (typeof step.value !== "string") {
+        return `Step ${index} (text) must include string field "value".`;
+      }
+      return null;
+    case "delay":
+      if (
+        typeof step.duration !== "number" ||
+        !Number.isFinite(step.duration) ||
+        step.duration < 0
+      ) {
+        return `Step ${index} (delay) must include non-negative numeric field "duration".`;
+      }
+      return null;
+    case "key":
+      if (typeof step.key !== "string") {
+        return `Step ${index} (key) must include string field "key".`;
+      }
+      return null;
+    case "command":
+      if (typeof step.command !== "string") {
+        return `Step ${index} (command) must include string field "command".`;
+      }
+      if (hasUntrustedCommandPlaceholder(step.command)) {
+        return untrustedCommandPlaceholderError(index);
+      }
+      return null;
+    case "mouseMove":
+    case "scroll":
+      if (!isPointerDelta(step.dx) || !isPointerDelta(step.dy)) {
+        return `Step ${index} (${step.type}) must include numeric "dx" and "dy" within ±${MAX_POINTER_DELTA}.`;
+      }
+      return null;
+    case "mouseClick":
+      if (typeof step.button !== "string" || !SUPPORTED_MOUSE_BUTTONS.has(step.button)) {
+        return `Step ${index} (mouseClick) must include "button" of ${MOUSE_BUTTONS.join(", ")}.`;
+      }
+      if (
+        step.count !== undefined &&
+        (typeof step.count !== "number" ||
+          !Number.isInteger(step.count) ||
+          step.count < 1 ||
+          step.count > MAX_CLICK_COUNT)
+      ) {
+        return `Step ${index} (mouseClick) "count" must be 1 or ${MAX_CLICK_COUNT}.`;
+      }
+      return null;
+    default:
+      return `Step ${index} has unsupported type "${String(step.type)}".`;
+  }
+};
+
+export const validateSteps = (steps: unknown): string | null => {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return 'Payload must include non-empty "steps" array.';
+  }
+
+  for (let index = 0; index < steps.length; index += 1) {
+    const error = validateStep(steps[index], index);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+};
+
+/** Validates a POINTER_INPUT batch: non-empty and limited to pointer steps. */
+export const validatePointerSteps = (steps: unknown): string | null => {
+  const error = validateSteps(steps);
+  if (error) {
+    return error;
+  }
+
+  const pointerTypes = new Set<string>(POINTER_STEP_TYPES);
+  const index = (steps as Step[]).findIndex((step) => !pointerTypes.has(step.type));
+  return index === -1 ? null : `Step ${index} is not a pointer step.`;
+};